@@ -1,51 +1,344 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import Navbar from './components/Navbar';
 import InputSection from './components/InputSection';
 import ResultsDashboard from './components/ResultsDashboard';
-import { AppState, EstimationResult, ProjectMetadata } from './types';
-import { analyzePRD } from './services/geminiService';
+import AnalysisProgressView from './components/AnalysisProgressView';
+import ClarificationForm from './components/ClarificationForm';
+import ProviderSettings from './components/ProviderSettings';
+import HistoryView from './components/HistoryView';
+import VersionCompare from './components/VersionCompare';
+import { AnalysisOptions, AnalysisProgress, AppState, Clarification, ClarifyingQuestion, EstimateEdits, LLMErrorKind, LLMProviderConfig, ProjectMetadata, RefinementTurn, SavedEstimate } from './types';
+import { analyzePRD, RefinementProposal } from './services/estimationService';
+import { findClarifyingQuestions } from './services/clarifications';
+import { buildEstimate, formatVersionName, nextVersion, putEstimate, saveAsNewVersion } from './services/historyStore';
+import { downloadEstimateFile, importEstimateFile } from './services/estimateFile';
+import { createProvider, LLMError, loadProviderConfig, saveProviderConfig, PROVIDER_LABELS } from './services/llm';
+
+const ERROR_TITLES: Record<LLMErrorKind, string> = {
+  'missing-key': 'API Key no configurada o inválida',
+  'rate-limit': 'Límite de uso alcanzado',
+  safety: 'Respuesta bloqueada por el proveedor',
+  malformed: 'Respuesta inválida de la IA',
+  network: 'Sin conexión con el proveedor',
+  timeout: 'El proveedor tardó demasiado',
+  server: 'Proveedor no disponible',
+  cancelled: 'Análisis cancelado',
+  unknown: 'Error al analizar'
+};
+
+const ERROR_HINTS: Partial<Record<LLMErrorKind, string>> = {
+  'missing-key': 'Revisa la API Key en la configuración del proveedor de IA y vuelve a intentarlo.',
+  'rate-limit': 'Espera unos minutos antes de reintentar o usa otra API Key o modelo.',
+  safety: 'Quita del PRD el contenido sensible (datos personales, temas restringidos) y vuelve a intentarlo.',
+  malformed: 'Suele resolverse al reintentar; si persiste, prueba con un modelo más capaz.',
+  network: 'Comprueba tu conexión o la URL base del proveedor.',
+  timeout: 'Reintenta o aumenta el tiempo de espera en la configuración del proveedor.',
+  server: 'El servicio tuvo un problema temporal; reintenta en unos minutos.'
+};
+
+// Problems that the provider settings can fix
+const SETTINGS_ERRORS: LLMErrorKind[] = ['missing-key', 'network', 'timeout'];
+
+interface AnalysisRequest {
+  text: string;
+  metadata: ProjectMetadata;
+  options: AnalysisOptions;
+}
+
+const refinementTurn = (proposal: RefinementProposal, accepted: boolean): RefinementTurn => ({
+  instruction: proposal.instruction,
+  summary: proposal.summary,
+  accepted,
+  createdAt: new Date().toISOString()
+});
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('input');
-  const [result, setResult] = useState<EstimationResult | null>(null);
+  const [currentEstimate, setCurrentEstimate] = useState<SavedEstimate | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [errorKind, setErrorKind] = useState<LLMErrorKind>('unknown');
+  // Input of the last analysis, kept so that a failure never loses what was typed
+  const [lastRequest, setLastRequest] = useState<AnalysisRequest | null>(null);
+  const analysisController = useRef<AbortController | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  // Questions of the pre-analysis step; null while they are being generated
+  const [clarifyingQuestions, setClarifyingQuestions] = useState<ClarifyingQuestion[] | null>(null);
+  const [providerConfig, setProviderConfig] = useState<LLMProviderConfig>(loadProviderConfig);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Estimate whose project receives the next analysis as a new version
+  const [revisionBase, setRevisionBase] = useState<SavedEstimate | null>(null);
+  const [compareTarget, setCompareTarget] = useState<{ projectId: string; afterId?: string } | null>(null);
+  const saveTimer = useRef<number | undefined>(undefined);
 
-  const handleAnalyze = useCallback(async (text: string, metadata: ProjectMetadata) => {
+  const persistEstimate = useCallback((estimate: SavedEstimate) => {
+    putEstimate(estimate).catch(error => console.error("Error saving estimate:", error));
+  }, []);
+
+  const handleAnalysisError = useCallback((err: any) => {
+    console.error(err);
+    const kind = err instanceof LLMError ? err.kind : 'unknown';
+    if (kind === 'cancelled') {
+      // Back to the form, which is pre-filled with the cancelled input
+      setAppState('input');
+      return;
+    }
+    setAppState('error');
+    setErrorKind(kind);
+    setErrorMsg(err.message || "Ocurrió un error inesperado al analizar el PRD.");
+  }, []);
+
+  const handleAnalyze = useCallback(async (text: string, metadata: ProjectMetadata, options: AnalysisOptions) => {
     setAppState('analyzing');
     setErrorMsg(null);
+    setAnalysisProgress(null);
+    setLastRequest({ text, metadata, options });
+    const controller = new AbortController();
+    analysisController.current = controller;
     
     try {
-      const data = await analyzePRD(text, metadata);
-      setResult(data);
+      const data = await analyzePRD(text, metadata, createProvider(providerConfig), options, setAnalysisProgress, controller.signal);
+      const project = revisionBase
+        ? {
+            projectId: revisionBase.projectId,
+            version: await nextVersion(revisionBase.projectId).catch(() => revisionBase.version + 1)
+          }
+        : undefined;
+      const estimate = buildEstimate(text, metadata, data, undefined, project);
+      setRevisionBase(null);
+      setLastRequest(null);
+      persistEstimate(estimate);
+      setCurrentEstimate(estimate);
       setAppState('result');
     } catch (err: any) {
-      console.error(err);
-      setAppState('error');
-      setErrorMsg(err.message || "Ocurrió un error inesperado al analizar el PRD.");
+      handleAnalysisError(err);
+    } finally {
+      analysisController.current = null;
+    }
+  }, [providerConfig, persistEstimate, revisionBase, handleAnalysisError]);
+
+  // Entry point of the input form: with `askClarifications` the model first
+  // lists the ambiguities of the PRD and the analysis waits for the answers
+  const handleStartAnalysis = useCallback(async (text: string, metadata: ProjectMetadata, options: AnalysisOptions) => {
+    if (!options.askClarifications || options.clarifications) {
+      return handleAnalyze(text, metadata, options);
+    }
+    setAppState('clarifying');
+    setErrorMsg(null);
+    setClarifyingQuestions(null);
+    setLastRequest({ text, metadata, options });
+    const controller = new AbortController();
+    analysisController.current = controller;
+
+    try {
+      const questions = await findClarifyingQuestions(text, metadata, createProvider(providerConfig), controller.signal);
+      analysisController.current = null;
+      if (questions.length === 0) {
+        return handleAnalyze(text, metadata, { ...options, clarifications: [] });
+      }
+      setClarifyingQuestions(questions);
+    } catch (err: any) {
+      analysisController.current = null;
+      handleAnalysisError(err);
+    }
+  }, [providerConfig, handleAnalyze, handleAnalysisError]);
+
+  const handleSubmitClarifications = useCallback((clarifications: Clarification[]) => {
+    if (!lastRequest) return;
+    handleAnalyze(lastRequest.text, lastRequest.metadata, { ...lastRequest.options, clarifications });
+  }, [lastRequest, handleAnalyze]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    analysisController.current?.abort();
+  }, []);
+
+  const handleRetryAnalysis = useCallback(() => {
+    if (!lastRequest) return;
+    handleStartAnalysis(lastRequest.text, lastRequest.metadata, lastRequest.options);
+  }, [lastRequest, handleStartAnalysis]);
+
+  // Dashboard edits arrive on every keystroke, so writes are debounced
+  const updateCurrentEstimate = useCallback((updated: SavedEstimate) => {
+    setCurrentEstimate(updated);
+    window.clearTimeout(saveTimer.current);
+    saveTimer.current = window.setTimeout(() => persistEstimate(updated), 500);
+  }, [persistEstimate]);
+
+  const handleEditsChange = useCallback((edits: EstimateEdits) => {
+    if (!currentEstimate) return;
+    updateCurrentEstimate({ ...currentEstimate, edits });
+  }, [currentEstimate, updateCurrentEstimate]);
+
+  const handleMetadataChange = useCallback((changes: Partial<ProjectMetadata>) => {
+    if (!currentEstimate) return;
+    updateCurrentEstimate({ ...currentEstimate, metadata: { ...currentEstimate.metadata, ...changes } });
+  }, [currentEstimate, updateCurrentEstimate]);
+
+  const handleOpenEstimate = useCallback((estimate: SavedEstimate) => {
+    setCurrentEstimate(estimate);
+    setErrorMsg(null);
+    setAppState('result');
+  }, []);
+
+  const handleImportFile = useCallback(async (file: File) => {
+    try {
+      handleOpenEstimate(await importEstimateFile(await file.text()));
+    } catch (error: any) {
+      console.error("Error importing estimate:", error);
+      window.alert(error.message || 'No se pudo importar la estimación.');
+    }
+  }, [handleOpenEstimate]);
+
+  const handleSaveVersion = useCallback(async () => {
+    if (!currentEstimate) return;
+    const label = window.prompt('Etiqueta de la nueva versión (opcional):', '');
+    if (label === null) return;
+    window.clearTimeout(saveTimer.current);
+    try {
+      // Flush pending edits on the current version before snapshotting it
+      await putEstimate(currentEstimate);
+      setCurrentEstimate(await saveAsNewVersion(currentEstimate, label.trim() || undefined));
+    } catch (error) {
+      console.error("Error saving version:", error);
+      window.alert('No se pudo guardar la versión en el historial local.');
+    }
+  }, [currentEstimate]);
+
+  // An accepted refinement becomes a new version; the phase and task edits
+  // are already part of the refined result, only the rate overrides carry over
+  const handleAcceptRefinement = useCallback(async (proposal: RefinementProposal) => {
+    if (!currentEstimate) return;
+    window.clearTimeout(saveTimer.current);
+    const label = proposal.instruction.length > 40 ? `${proposal.instruction.slice(0, 40)}…` : proposal.instruction;
+    try {
+      await putEstimate(currentEstimate);
+      setCurrentEstimate(await saveAsNewVersion({
+        ...currentEstimate,
+        result: proposal.result,
+        edits: { roleRates: currentEstimate.edits.roleRates },
+        refinements: [...(currentEstimate.refinements ?? []), refinementTurn(proposal, true)]
+      }, `Refinamiento: ${label}`));
+    } catch (error) {
+      console.error("Error saving refinement:", error);
+      window.alert('No se pudo guardar la versión refinada en el historial local.');
     }
+  }, [currentEstimate]);
+
+  const handleRejectRefinement = useCallback((proposal: RefinementProposal) => {
+    if (!currentEstimate) return;
+    updateCurrentEstimate({
+      ...currentEstimate,
+      refinements: [...(currentEstimate.refinements ?? []), refinementTurn(proposal, false)]
+    });
+  }, [currentEstimate, updateCurrentEstimate]);
+
+  const handleReviseVersion = useCallback(() => {
+    if (!currentEstimate) return;
+    setRevisionBase(currentEstimate);
+    setLastRequest(null);
+    setAppState('input');
+  }, [currentEstimate]);
+
+  // A pending save of the deleted estimate would write it back, so it is
+  // cancelled and the estimate is no longer the open one
+  const handleDeleteEstimate = useCallback((id: string) => {
+    if (currentEstimate?.id === id) {
+      window.clearTimeout(saveTimer.current);
+      setCurrentEstimate(null);
+    }
+    if (revisionBase?.id === id) setRevisionBase(null);
+  }, [currentEstimate, revisionBase]);
+
+  const handleCompare = useCallback((projectId: string, afterId?: string) => {
+    setCompareTarget({ projectId, afterId });
+    setAppState('compare');
+  }, []);
+
+  const handleSaveSettings = useCallback((config: LLMProviderConfig) => {
+    saveProviderConfig(config);
+    setProviderConfig(loadProviderConfig());
+    setIsSettingsOpen(false);
   }, []);
 
   const handleReset = useCallback(() => {
     setAppState('input');
-    setResult(null);
+    setCurrentEstimate(null);
+    setRevisionBase(null);
+    setLastRequest(null);
     setErrorMsg(null);
   }, []);
 
+  const revisionOf = revisionBase ? `${revisionBase.result.projectName} (${formatVersionName(revisionBase)})` : undefined;
+  const inputDraft = lastRequest
+    ? { ...lastRequest, revisionOf }
+    : revisionBase
+      ? { text: revisionBase.prdText, metadata: revisionBase.metadata, revisionOf }
+      : undefined;
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col font-sans">
-      <Navbar />
+      <Navbar onOpenSettings={() => setIsSettingsOpen(true)} onOpenHistory={() => setAppState('history')} onImportFile={handleImportFile} />
+
+      {isSettingsOpen && (
+        <ProviderSettings
+          config={providerConfig}
+          onSave={handleSaveSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
       
       <main className="flex-grow">
         {appState === 'input' && (
-          <InputSection onAnalyze={handleAnalyze} isAnalyzing={false} />
+          <InputSection onAnalyze={handleStartAnalysis} isAnalyzing={false} providerLabel={PROVIDER_LABELS[providerConfig.provider]} draft={inputDraft} />
         )}
         
+        {appState === 'clarifying' && (
+          <ClarificationForm
+            questions={clarifyingQuestions}
+            providerLabel={PROVIDER_LABELS[providerConfig.provider]}
+            onSubmit={handleSubmitClarifications}
+            onCancel={() => clarifyingQuestions ? setAppState('input') : handleCancelAnalysis()}
+          />
+        )}
+
         {appState === 'analyzing' && (
-          <InputSection onAnalyze={() => {}} isAnalyzing={true} />
+          <AnalysisProgressView progress={analysisProgress} providerLabel={PROVIDER_LABELS[providerConfig.provider]} onCancel={handleCancelAnalysis} />
+        )}
+
+        {appState === 'result' && currentEstimate && (
+          <ResultsDashboard
+            key={currentEstimate.id}
+            data={currentEstimate.result}
+            metadata={currentEstimate.metadata}
+            edits={currentEstimate.edits}
+            onEditsChange={handleEditsChange}
+            onMetadataChange={handleMetadataChange}
+            versionName={formatVersionName(currentEstimate)}
+            onSaveVersion={handleSaveVersion}
+            onReviseVersion={handleReviseVersion}
+            onCompareVersions={() => handleCompare(currentEstimate.projectId, currentEstimate.id)}
+            onExportFile={() => downloadEstimateFile(currentEstimate)}
+            refinements={currentEstimate.refinements ?? []}
+            onAcceptRefinement={handleAcceptRefinement}
+            onRejectRefinement={handleRejectRefinement}
+            onReset={handleReset}
+          />
+        )}
+
+        {appState === 'history' && (
+          <HistoryView
+            onOpen={handleOpenEstimate}
+            onCompare={(projectId) => handleCompare(projectId)}
+            onDelete={handleDeleteEstimate}
+            onBack={() => setAppState(currentEstimate ? 'result' : 'input')}
+          />
         )}
 
-        {appState === 'result' && result && (
-          <ResultsDashboard data={result} onReset={handleReset} />
+        {appState === 'compare' && compareTarget && (
+          <VersionCompare
+            projectId={compareTarget.projectId}
+            initialAfterId={compareTarget.afterId}
+            onBack={() => setAppState(currentEstimate ? 'result' : 'history')}
+          />
         )}
 
         {appState === 'error' && (
@@ -58,16 +351,35 @@ const App: React.FC = () => {
                   </svg>
                 </div>
                 <div className="ml-4">
-                  <h3 className="text-lg leading-6 font-medium text-red-800">Error al analizar</h3>
+                  <h3 className="text-lg leading-6 font-medium text-red-800">{ERROR_TITLES[errorKind]}</h3>
                   <p className="mt-2 text-sm text-red-700">
                     {errorMsg}
                   </p>
-                  <div className="mt-4">
+                  {ERROR_HINTS[errorKind] && (
+                    <p className="mt-1 text-sm text-red-600">{ERROR_HINTS[errorKind]}</p>
+                  )}
+                  <div className="mt-4 flex flex-wrap gap-4">
+                    {lastRequest && (
+                      <button
+                        onClick={handleRetryAnalysis}
+                        className="text-sm font-medium text-red-700 hover:text-red-600 underline"
+                      >
+                        Reintentar
+                      </button>
+                    )}
+                    {SETTINGS_ERRORS.includes(errorKind) && (
+                      <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="text-sm font-medium text-red-700 hover:text-red-600 underline"
+                      >
+                        Configurar proveedor
+                      </button>
+                    )}
                     <button
-                      onClick={handleReset}
+                      onClick={() => setAppState('input')}
                       className="text-sm font-medium text-red-700 hover:text-red-600 underline"
                     >
-                      Intentar de nuevo
+                      Editar PRD
                     </button>
                   </div>
                 </div>
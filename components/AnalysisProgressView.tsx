@@ -0,0 +1,163 @@
+import React from 'react';
+import { Loader2, CheckCircle2, Circle, Layers, AlertTriangle, FileText, RotateCcw, X } from 'lucide-react';
+import { AnalysisProgress, AnalysisStage } from '../types';
+
+interface AnalysisProgressViewProps {
+  progress: AnalysisProgress | null;
+  providerLabel: string;
+  onCancel: () => void;
+}
+
+const STEPS: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'connecting', label: 'Conectando' },
+  { stage: 'overview', label: 'Resumen' },
+  { stage: 'roadmap', label: 'Roadmap' },
+  { stage: 'phases', label: 'Fases y tareas' },
+  { stage: 'risks', label: 'Riesgos' },
+  { stage: 'validating', label: 'Validación' }
+];
+
+const STAGE_MESSAGES: Record<AnalysisStage, string> = {
+  connecting: 'Enviando el PRD al modelo...',
+  overview: 'Redactando el resumen y los totales...',
+  roadmap: 'Planificando el roadmap...',
+  phases: 'Desglosando fases y tareas...',
+  risks: 'Identificando riesgos...',
+  merging: 'Combinando las estimaciones de cada sección...',
+  validating: 'Validando la consistencia de la estimación...',
+  repairing: 'Pidiendo a la IA que corrija las inconsistencias...'
+};
+
+/**
+ * Live view of a streamed analysis: the current stage and every phase, task
+ * and risk as soon as the model has written it.
+ */
+const AnalysisProgressView: React.FC<AnalysisProgressViewProps> = ({ progress, providerLabel, onCancel }) => {
+  const stage = progress?.stage ?? 'connecting';
+  // Merging the parts of a long PRD and the repair are part of the validation step
+  const currentStep = STEPS.findIndex(step => step.stage === (stage === 'repairing' || stage === 'merging' ? 'validating' : stage));
+  const partial = progress?.partial ?? {};
+  const phases = partial.phases ?? [];
+  const risks = partial.risks ?? [];
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 mb-6">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <Loader2 size={24} className="animate-spin text-indigo-600" />
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">Analizando PRD</h2>
+              <p className="text-sm text-slate-500">
+                {progress?.chunk && `Sección ${progress.chunk.index} de ${progress.chunk.count} (${progress.chunk.title}): `}
+                {STAGE_MESSAGES[stage]}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right text-xs text-slate-400">
+              <div>{providerLabel}</div>
+              {progress && progress.receivedChars > 0 && <div>{(progress.receivedChars / 1024).toFixed(1)} KB recibidos</div>}
+            </div>
+            <button
+              onClick={onCancel}
+              className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+            >
+              <X size={16} />
+              Cancelar
+            </button>
+          </div>
+        </div>
+
+        {progress?.retry && (
+          <div className="flex items-start gap-2 p-3 mb-6 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+            <RotateCcw size={16} className="mt-0.5 flex-shrink-0" />
+            <span>Reintentando (intento {progress.retry.attempt}): {progress.retry.reason}</span>
+          </div>
+        )}
+
+        <ol className="flex items-center gap-2">
+          {STEPS.map((step, idx) => (
+            <li key={step.stage} className="flex-1 min-w-0">
+              <div className={`h-1.5 rounded-full mb-2 ${idx < currentStep ? 'bg-indigo-600' : idx === currentStep ? 'bg-indigo-300 animate-pulse' : 'bg-slate-200'}`} />
+              <div className={`flex items-center gap-1 text-xs truncate ${idx <= currentStep ? 'text-slate-800 font-medium' : 'text-slate-400'}`}>
+                {idx < currentStep
+                  ? <CheckCircle2 size={12} className="text-indigo-600 flex-shrink-0" />
+                  : idx === currentStep
+                    ? <Loader2 size={12} className="animate-spin text-indigo-600 flex-shrink-0" />
+                    : <Circle size={12} className="flex-shrink-0" />}
+                {step.label}
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {(partial.projectName || partial.executiveSummary) && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
+          <h3 className="text-base font-semibold text-slate-900 mb-2 flex items-center gap-2">
+            <FileText size={18} className="text-slate-400" />
+            {partial.projectName || 'Resumen'}
+          </h3>
+          {partial.executiveSummary && <p className="text-sm text-slate-600 whitespace-pre-line">{partial.executiveSummary}</p>}
+        </div>
+      )}
+
+      {phases.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 mb-6">
+          <h3 className="text-base font-semibold text-slate-900 mb-4 flex items-center gap-2">
+            <Layers size={18} className="text-slate-400" />
+            Fases ({phases.length})
+          </h3>
+          <ul className="space-y-4">
+            {phases.map((phase, idx) => (
+              <li key={idx} className="border-l-2 border-indigo-200 pl-4">
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  <span className="font-medium text-slate-900">{phase.name || '...'}</span>
+                  <span className="text-xs text-slate-500 whitespace-nowrap">
+                    {phase.assignedRole && `${phase.assignedRole} · `}
+                    {phase.estimatedHours !== undefined && `${phase.estimatedHours} h`}
+                  </span>
+                </div>
+                {(phase.tasks ?? []).length > 0 && (
+                  <ul className="mt-1 space-y-0.5">
+                    {phase.tasks.map((task, taskIdx) => (
+                      <li key={taskIdx} className="flex items-center justify-between gap-4 text-xs text-slate-600">
+                        <span className="truncate">{task.name || '...'}</span>
+                        {task.hours !== undefined && <span className="text-slate-400 whitespace-nowrap">{task.hours} h</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {risks.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+          <h3 className="text-base font-semibold text-slate-900 mb-4 flex items-center gap-2">
+            <AlertTriangle size={18} className="text-slate-400" />
+            Riesgos ({risks.length})
+          </h3>
+          <ul className="space-y-2">
+            {risks.map((risk, idx) => (
+              <li key={idx} className="flex items-start justify-between gap-4 text-sm text-slate-700">
+                <span>{risk.risk || '...'}</span>
+                {risk.impact && (
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded-full whitespace-nowrap
+                    ${risk.impact === 'Alto' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'}`}>
+                    {risk.impact}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisProgressView;
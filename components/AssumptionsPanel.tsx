@@ -0,0 +1,119 @@
+import React from 'react';
+import { ListChecks, Ban, Plus, Trash2 } from 'lucide-react';
+import { Assumption, Exclusion } from '../types';
+
+interface AssumptionsPanelProps {
+  assumptions: Assumption[];
+  exclusions: Exclusion[];
+  onAssumptionsChange: (assumptions: Assumption[]) => void;
+  onExclusionsChange: (exclusions: Exclusion[]) => void;
+}
+
+const editableClassName = "w-full border border-transparent hover:border-slate-300 focus:border-indigo-500 bg-transparent focus:bg-white rounded px-2 py-1 outline-none transition-all";
+
+interface EditableListProps<T> {
+  items: T[];
+  // The main text and the detail line of each item
+  fields: [keyof T & string, keyof T & string];
+  placeholders: [string, string];
+  detailLabel: string;
+  emptyItem: T;
+  addLabel: string;
+  emptyText: string;
+  onChange: (items: T[]) => void;
+}
+
+const EditableList = <T extends object>({ items, fields, placeholders, detailLabel, emptyItem, addLabel, emptyText, onChange }: EditableListProps<T>) => {
+  const [main, detail] = fields;
+  const update = (idx: number, changes: Partial<T>) => onChange(items.map((item, i) => i === idx ? { ...item, ...changes } : item));
+
+  return (
+    <>
+      {items.length === 0 && <p className="text-sm text-slate-400 italic mb-2">{emptyText}</p>}
+      <ul className="space-y-2">
+        {items.map((item, idx) => (
+          <li key={idx} className="group flex items-start gap-2 p-2 rounded-lg border border-slate-100 bg-slate-50">
+            <div className="flex-1 min-w-0">
+              <input
+                type="text"
+                value={String(item[main] ?? '')}
+                onChange={(e) => update(idx, { [main]: e.target.value } as Partial<T>)}
+                placeholder={placeholders[0]}
+                className={`${editableClassName} text-sm font-medium text-slate-800`}
+              />
+              <div className="flex items-center gap-1 text-xs text-slate-500">
+                <span className="pl-2 whitespace-nowrap font-semibold">{detailLabel}:</span>
+                <input
+                  type="text"
+                  value={String(item[detail] ?? '')}
+                  onChange={(e) => update(idx, { [detail]: e.target.value } as Partial<T>)}
+                  placeholder={placeholders[1]}
+                  className={`${editableClassName} text-xs`}
+                />
+              </div>
+            </div>
+            <button
+              onClick={() => onChange(items.filter((_, i) => i !== idx))}
+              title="Eliminar"
+              className="p-1 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity no-print"
+            >
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => onChange([...items, { ...emptyItem }])}
+        className="mt-3 flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 no-print"
+      >
+        <Plus size={14} /> {addLabel}
+      </button>
+    </>
+  );
+};
+
+/**
+ * The "assumptions" and "out of scope" lists every quote carries. The model
+ * proposes both; the user edits, adds or deletes items like any other part
+ * of the estimate.
+ */
+const AssumptionsPanel: React.FC<AssumptionsPanelProps> = ({ assumptions, exclusions, onAssumptionsChange, onExclusionsChange }) => (
+  <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 mb-8 page-break-inside-avoid">
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+          <ListChecks size={20} className="text-slate-400" />
+          Supuestos
+        </h3>
+        <EditableList
+          items={assumptions}
+          fields={['description', 'impactIfFalse']}
+          placeholders={['Ej.: El cliente provee los textos e imágenes', 'Qué cambia en la estimación']}
+          detailLabel="Si no se cumple"
+          emptyItem={{ description: '', impactIfFalse: '' }}
+          addLabel="Agregar supuesto"
+          emptyText="Sin supuestos registrados."
+          onChange={onAssumptionsChange}
+        />
+      </div>
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+          <Ban size={20} className="text-slate-400" />
+          Fuera de alcance
+        </h3>
+        <EditableList
+          items={exclusions}
+          fields={['description', 'reason']}
+          placeholders={['Ej.: Migración de datos del sistema actual', 'Por qué no se incluye']}
+          detailLabel="Motivo"
+          emptyItem={{ description: '', reason: '' }}
+          addLabel="Agregar exclusión"
+          emptyText="Sin exclusiones registradas."
+          onChange={onExclusionsChange}
+        />
+      </div>
+    </div>
+  </div>
+);
+
+export default AssumptionsPanel;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { WorkCalendar } from '../types';
+import { COUNTRY_HOLIDAYS, WEEKDAY_LABELS, weeklyHours } from '../services/workCalendar';
+
+interface CalendarEditorProps {
+  calendar: WorkCalendar;
+  onChange: (calendar: WorkCalendar) => void;
+  disabled?: boolean;
+}
+
+// Monday first, as the team reads a week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const CalendarEditor: React.FC<CalendarEditorProps> = ({ calendar, onChange, disabled }) => {
+  const toggleDay = (day: number) => {
+    const workingDays = calendar.workingDays.includes(day)
+      ? calendar.workingDays.filter(d => d !== day)
+      : [...calendar.workingDays, day];
+    onChange({ ...calendar, workingDays });
+  };
+
+  const handleHoursChange = (value: string) => {
+    const numValue = parseFloat(value);
+    onChange({ ...calendar, hoursPerDay: isNaN(numValue) ? 0 : numValue });
+  };
+
+  const updateHoliday = (index: number, field: 'date' | 'name', value: string) => {
+    onChange({
+      ...calendar,
+      customHolidays: calendar.customHolidays.map((h, idx) => idx === index ? { ...h, [field]: value } : h)
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-slate-500 mb-1">Días laborables</label>
+          <div className="flex flex-wrap gap-1">
+            {WEEK_ORDER.map(day => (
+              <button
+                key={day}
+                onClick={() => toggleDay(day)}
+                title={WEEKDAY_LABELS[day]}
+                className={`w-10 py-1.5 rounded-md text-xs font-medium border transition-colors disabled:opacity-50 ${
+                  calendar.workingDays.includes(day)
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : 'bg-white text-slate-500 border-slate-300 hover:bg-slate-50'
+                }`}
+                disabled={disabled}
+              >
+                {WEEKDAY_LABELS[day].slice(0, 2)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Horas productivas por día</label>
+          <input
+            type="number"
+            min="1"
+            max="24"
+            value={calendar.hoursPerDay}
+            onChange={(e) => handleHoursChange(e.target.value)}
+            className="block w-full rounded-md border-slate-300 border px-3 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            disabled={disabled}
+          />
+          <p className="text-[10px] text-slate-400 mt-1">{weeklyHours(calendar)} horas por semana y recurso</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-500 mb-1">Feriados nacionales</label>
+        <select
+          value={calendar.country}
+          onChange={(e) => onChange({ ...calendar, country: e.target.value })}
+          className="block w-full md:w-1/3 rounded-md border-slate-300 border px-3 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          disabled={disabled}
+        >
+          <option value="">Sin feriados nacionales</option>
+          {Object.entries(COUNTRY_HOLIDAYS).map(([code, { label }]) => (
+            <option key={code} value={code}>{label}</option>
+          ))}
+        </select>
+        <p className="text-[10px] text-slate-400 mt-1">
+          Solo incluye feriados de fecha fija. Agrega los móviles (Carnaval, Semana Santa, puentes) como feriados adicionales.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-xs font-medium text-slate-500">Feriados adicionales</label>
+        {calendar.customHolidays.map((holiday, idx) => (
+          <div key={idx} className="flex gap-2 items-center">
+            <input
+              type="date"
+              value={holiday.date}
+              onChange={(e) => updateHoliday(idx, 'date', e.target.value)}
+              className="rounded-md border-slate-300 border px-3 py-1.5 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              disabled={disabled}
+            />
+            <input
+              type="text"
+              value={holiday.name}
+              onChange={(e) => updateHoliday(idx, 'name', e.target.value)}
+              placeholder="Ej: Carnaval"
+              className="flex-grow rounded-md border-slate-300 border px-3 py-1.5 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              disabled={disabled}
+            />
+            <button
+              onClick={() => onChange({ ...calendar, customHolidays: calendar.customHolidays.filter((_, i) => i !== idx) })}
+              title="Quitar feriado"
+              className="p-2 rounded text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-50"
+              disabled={disabled}
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ ...calendar, customHolidays: [...calendar.customHolidays, { date: '', name: '' }] })}
+          className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-lg text-xs font-medium text-slate-700 hover:bg-slate-100 bg-white transition-colors disabled:opacity-50"
+          disabled={disabled}
+        >
+          <Plus size={14} /> Agregar feriado
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarEditor;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { HelpCircle, Loader2, Play, X, ArrowLeft, SkipForward } from 'lucide-react';
+import { Clarification, ClarifyingQuestion } from '../types';
+import { CLARIFICATION_TOPIC_LABELS } from '../services/clarifications';
+
+interface ClarificationFormProps {
+  // Null while the model is still reading the PRD
+  questions: ClarifyingQuestion[] | null;
+  providerLabel: string;
+  onSubmit: (clarifications: Clarification[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pre-analysis step: the ambiguities the model found in the PRD, each one to
+ * answer or skip. Answers go into the estimation prompt as assumptions.
+ */
+const ClarificationForm: React.FC<ClarificationFormProps> = ({ questions, providerLabel, onSubmit, onCancel }) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [skipped, setSkipped] = useState<Record<string, boolean>>({});
+
+  if (!questions) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Loader2 size={24} className="animate-spin text-indigo-600" />
+            <div>
+              <h2 className="text-lg font-semibold text-slate-900">Revisando el PRD</h2>
+              <p className="text-sm text-slate-500">Buscando información faltante o ambigua antes de estimar... ({providerLabel})</p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <X size={16} />
+            Cancelar
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const answerOf = (q: ClarifyingQuestion) => skipped[q.id] ? '' : (answers[q.id] ?? '').trim();
+  const answeredCount = questions.filter(q => answerOf(q)).length;
+
+  const toClarifications = (withAnswers: boolean): Clarification[] => questions.map(q => ({
+    topic: q.topic,
+    question: q.question,
+    answer: withAnswers ? answerOf(q) || undefined : undefined
+  }));
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="text-center mb-8">
+        <h2 className="text-2xl font-bold text-slate-900">Antes de estimar</h2>
+        <p className="mt-2 text-slate-600">
+          La IA encontró {questions.length} {questions.length === 1 ? 'punto' : 'puntos'} del PRD que cambian la estimación. Responde los que conozcas; las respuestas quedan registradas como supuestos en el reporte.
+        </p>
+      </div>
+
+      <div className="space-y-4 mb-8">
+        {questions.map((q, idx) => (
+          <div key={q.id} className={`bg-white rounded-xl shadow-sm border border-slate-200 p-5 transition-opacity ${skipped[q.id] ? 'opacity-60' : ''}`}>
+            <div className="flex items-start justify-between gap-4 mb-2">
+              <div className="flex items-start gap-2">
+                <HelpCircle size={18} className="text-indigo-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <span className="inline-block text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 border border-indigo-100 mb-1">
+                    {CLARIFICATION_TOPIC_LABELS[q.topic]}
+                  </span>
+                  <p className="text-sm font-medium text-slate-900">{idx + 1}. {q.question}</p>
+                  {q.reason && <p className="text-xs text-slate-500 mt-0.5">{q.reason}</p>}
+                </div>
+              </div>
+              <button
+                onClick={() => setSkipped({ ...skipped, [q.id]: !skipped[q.id] })}
+                className="text-xs font-medium text-slate-500 hover:text-slate-800 whitespace-nowrap"
+              >
+                {skipped[q.id] ? 'Responder' : 'Omitir'}
+              </button>
+            </div>
+
+            {!skipped[q.id] && (
+              <div className="ml-6">
+                {q.suggestedAnswers.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {q.suggestedAnswers.map(suggestion => (
+                      <button
+                        key={suggestion}
+                        onClick={() => setAnswers({ ...answers, [q.id]: suggestion })}
+                        className={`text-xs px-2 py-1 rounded-full border transition-colors
+                          ${answers[q.id] === suggestion ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <input
+                  type="text"
+                  value={answers[q.id] ?? ''}
+                  onChange={(e) => setAnswers({ ...answers, [q.id]: e.target.value })}
+                  placeholder="Tu respuesta"
+                  className="block w-full rounded-lg border-slate-300 border p-2.5 bg-slate-50 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 justify-end items-center">
+        <button
+          onClick={onCancel}
+          className="sm:mr-auto flex items-center gap-2 px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900"
+        >
+          <ArrowLeft size={16} />
+          Volver al PRD
+        </button>
+        <span className="text-xs text-slate-500">{answeredCount} de {questions.length} respondidas</span>
+        <button
+          onClick={() => onSubmit(toClarifications(false))}
+          className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+        >
+          <SkipForward size={16} />
+          Omitir todas
+        </button>
+        <button
+          onClick={() => onSubmit(toClarifications(true))}
+          className="inline-flex items-center justify-center px-6 py-2.5 border border-transparent text-sm font-medium rounded-full shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 transition-colors"
+        >
+          <Play size={16} className="mr-2 fill-current" />
+          Obtener Estimación
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClarificationForm;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
+import { Target, Loader2 } from 'lucide-react';
+import { Percentiles, SimulationResult } from '../services/monteCarlo';
+import { formatCurrency } from '../services/estimationMath';
+
+interface ConfidencePanelProps {
+  simulation: SimulationResult | null;
+  currency: string;
+  // Most likely figures shown in the KPI cards
+  baseCost: number;
+  baseWeeks: number;
+}
+
+const LEVELS: { key: keyof Percentiles; label: string; color: string }[] = [
+  { key: 'p50', label: 'P50', color: '#22c55e' },
+  { key: 'p80', label: 'P80', color: '#f97316' },
+  { key: 'p90', label: 'P90', color: '#ef4444' }
+];
+
+const ConfidencePanel: React.FC<ConfidencePanelProps> = ({ simulation, currency, baseCost, baseWeeks }) => {
+  const money = (value: number) => formatCurrency(value, currency);
+
+  if (!simulation) {
+    return (
+      <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 mb-8 flex items-center gap-2 text-sm text-slate-500 no-print">
+        <Loader2 size={16} className="animate-spin" />
+        Simulando niveles de confianza...
+      </div>
+    );
+  }
+
+  const costData = simulation.costBins.map(bin => ({ label: Math.round((bin.from + bin.to) / 2), count: bin.count }));
+  const weeksData = simulation.weeksBins.map(bin => ({ label: bin.from, count: bin.count }));
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 mb-8 page-break-inside-avoid">
+      <h3 className="text-lg font-semibold text-slate-900 mb-1 flex items-center gap-2">
+        <Target size={20} className="text-slate-400" />
+        Niveles de Confianza
+      </h3>
+      <p className="text-xs text-slate-500 mb-6">
+        Simulación Monte Carlo de {simulation.iterations} escenarios sobre las horas optimistas, probables y pesimistas de cada tarea.
+        El costo más probable ({money(baseCost)}) se cumple en el {Math.round(simulation.baseCostConfidence * 100)}% de los escenarios
+        y la duración de {baseWeeks} semanas en el {Math.round(simulation.baseWeeksConfidence * 100)}%.
+        {simulation.unfinishedIterations > 0 && ` ${simulation.unfinishedIterations} escenarios no terminan dentro del horizonte de planificación y quedan fuera de las semanas.`}
+      </p>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div>
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {LEVELS.map(level => (
+              <div key={level.key} className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+                <div className="text-[10px] font-bold uppercase tracking-wide" style={{ color: level.color }}>Costo {level.label}</div>
+                <div className="text-lg font-bold text-slate-900">{money(simulation.cost[level.key])}</div>
+              </div>
+            ))}
+          </div>
+          <div className="h-48" data-pdf-chart="confidenceCost">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={costData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} tickFormatter={(v: number) => money(v)} minTickGap={30} />
+                <YAxis tick={{ fontSize: 10, fill: '#64748b' }} width={30} allowDecimals={false} />
+                <RechartsTooltip
+                  formatter={(value: number) => [`${value} escenarios`, 'Frecuencia']}
+                  labelFormatter={(label) => `≈ ${money(Number(label))}`}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="count" fill="#4f46e5" radius={[2, 2, 0, 0]} />
+                {LEVELS.map(level => {
+                  // Reference lines need a category of the axis: the bin containing the percentile
+                  const bin = simulation.costBins.find(b => simulation.cost[level.key] <= b.to) ?? simulation.costBins[simulation.costBins.length - 1];
+                  return <ReferenceLine key={level.key} x={Math.round((bin.from + bin.to) / 2)} stroke={level.color} strokeDasharray="4 2" label={{ value: level.label, fontSize: 10, fill: level.color, position: 'top' }} />;
+                })}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div>
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            {LEVELS.map(level => (
+              <div key={level.key} className="rounded-lg border border-slate-200 bg-slate-50 p-3">
+                <div className="text-[10px] font-bold uppercase tracking-wide" style={{ color: level.color }}>Duración {level.label}</div>
+                <div className="text-lg font-bold text-slate-900">{simulation.weeks[level.key]} semanas</div>
+              </div>
+            ))}
+          </div>
+          <div className="h-48" data-pdf-chart="confidenceWeeks">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weeksData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} tickFormatter={(v: number) => `Sem ${v}`} />
+                <YAxis tick={{ fontSize: 10, fill: '#64748b' }} width={30} allowDecimals={false} />
+                <RechartsTooltip
+                  formatter={(value: number) => [`${value} escenarios`, 'Frecuencia']}
+                  labelFormatter={(label) => `${label} semanas`}
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                />
+                <Bar dataKey="count" fill="#3b82f6" radius={[2, 2, 0, 0]} />
+                {LEVELS.map(level => (
+                  <ReferenceLine key={level.key} x={simulation.weeks[level.key]} stroke={level.color} strokeDasharray="4 2" label={{ value: level.label, fontSize: 10, fill: level.color, position: 'top' }} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfidencePanel;
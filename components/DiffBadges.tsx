@@ -0,0 +1,22 @@
+import React from 'react';
+import { Plus, Minus, Pencil } from 'lucide-react';
+import { ChangeKind } from '../types';
+
+const KIND_STYLES: Record<ChangeKind, { className: string; icon: React.ReactNode; label: string }> = {
+  added: { className: 'bg-emerald-50 text-emerald-700 border-emerald-100', icon: <Plus size={12} />, label: 'Agregada' },
+  removed: { className: 'bg-red-50 text-red-700 border-red-100', icon: <Minus size={12} />, label: 'Eliminada' },
+  changed: { className: 'bg-amber-50 text-amber-700 border-amber-100', icon: <Pencil size={12} />, label: 'Modificada' }
+};
+
+export const KindBadge: React.FC<{ kind: ChangeKind }> = ({ kind }) => (
+  <span className={`inline-flex items-center gap-1 text-[10px] uppercase font-bold px-1.5 py-0.5 rounded border flex-shrink-0 ${KIND_STYLES[kind].className}`}>
+    {KIND_STYLES[kind].icon}
+    {KIND_STYLES[kind].label}
+  </span>
+);
+
+export const Delta: React.FC<{ value: number; format?: (v: number) => string }> = ({ value, format = String }) => (
+  <span className={value > 0 ? 'text-red-600' : value < 0 ? 'text-emerald-600' : 'text-slate-400'}>
+    {value > 0 ? '+' : value < 0 ? '-' : '±'}{format(Math.abs(value))}
+  </span>
+);
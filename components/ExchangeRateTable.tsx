@@ -0,0 +1,40 @@
+import React from 'react';
+import { BASE_CURRENCY, CURRENCIES, CURRENCY_CODES } from '../services/currency';
+
+interface ExchangeRateTableProps {
+  rates: Record<string, number>;
+  onChange: (rates: Record<string, number>) => void;
+  // Currencies used by the roster or the billing currency, highlighted in the table
+  inUse: string[];
+  disabled?: boolean;
+}
+
+const ExchangeRateTable: React.FC<ExchangeRateTableProps> = ({ rates, onChange, inUse, disabled }) => {
+  const handleChange = (currency: string, value: string) => {
+    const numValue = parseFloat(value);
+    onChange({ ...rates, [currency]: isNaN(numValue) ? 0 : numValue });
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {CURRENCY_CODES.filter(code => code !== BASE_CURRENCY).map(code => (
+        <div key={code}>
+          <label className={`block text-xs font-medium mb-1 ${inUse.includes(code) ? 'text-indigo-700' : 'text-slate-500'}`} title={CURRENCIES[code].label}>
+            1 {BASE_CURRENCY} = {code}
+          </label>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={rates[code] ?? ''}
+            onChange={(e) => handleChange(code, e.target.value)}
+            className="block w-full rounded-md border-slate-300 border px-3 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ExchangeRateTable;
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import { UploadCloud, FileText, X, ChevronDown, ChevronUp, AlertTriangle, Loader2 } from 'lucide-react';
+import { UploadedDocument } from '../types';
+import { ACCEPTED_FILE_TYPES, parseDocument } from '../services/documentParser';
+
+interface FileUploaderProps {
+  documents: UploadedDocument[];
+  onChange: (documents: UploadedDocument[]) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<UploadedDocument['format'], string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  markdown: 'Markdown',
+  text: 'Texto'
+};
+
+const FileUploader: React.FC<FileUploaderProps> = ({ documents, onChange, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setIsParsing(true);
+    setErrors([]);
+
+    const parsed: UploadedDocument[] = [];
+    const newErrors: string[] = [];
+    for (const file of Array.from(fileList)) {
+      try {
+        parsed.push(await parseDocument(file));
+      } catch (err: any) {
+        newErrors.push(err.message);
+      }
+    }
+
+    // Re-uploading the same file replaces the previous copy
+    const parsedIds = new Set(parsed.map(d => d.id));
+    onChange([...documents.filter(d => !parsedIds.has(d.id)), ...parsed]);
+    setErrors(newErrors);
+    setIsParsing(false);
+    if (parsed.length === 1) setExpandedId(parsed[0].id);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) handleFiles(e.dataTransfer.files);
+  };
+
+  const handleContentChange = (id: string, content: string) => {
+    onChange(documents.map(d => d.id === id ? { ...d, content } : d));
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(documents.filter(d => d.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(e) => { e.preventDefault(); if (!disabled) setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && inputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-lg text-center transition-colors
+          ${disabled ? 'cursor-not-allowed opacity-60 border-slate-200 bg-slate-50' : 'cursor-pointer'}
+          ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-slate-300 bg-slate-50 hover:border-indigo-400 hover:bg-indigo-50/40'}`}
+      >
+        {isParsing ? (
+          <Loader2 size={28} className="text-indigo-500 animate-spin" />
+        ) : (
+          <UploadCloud size={28} className="text-indigo-500" />
+        )}
+        <p className="text-sm font-medium text-slate-700">
+          {isParsing ? 'Extrayendo texto...' : 'Arrastra tus archivos aquí o haz clic para seleccionarlos'}
+        </p>
+        <p className="text-xs text-slate-400">PDF, DOCX, Markdown o TXT. Puedes subir varios (ej. PRD + anexos).</p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_FILE_TYPES}
+          className="hidden"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+          disabled={disabled}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-100 rounded-md text-red-700 text-xs space-y-1">
+          {errors.map((msg, idx) => <div key={idx}>{msg}</div>)}
+        </div>
+      )}
+
+      {documents.map(doc => {
+        const isExpanded = expandedId === doc.id;
+        return (
+          <div key={doc.id} className="border border-slate-200 rounded-lg bg-white overflow-hidden">
+            <div className="flex items-center gap-3 px-4 py-2">
+              <FileText size={16} className="text-indigo-500 flex-shrink-0" />
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : doc.id)}
+                className="flex-grow flex items-center gap-2 text-left min-w-0"
+              >
+                <span className="text-sm font-medium text-slate-800 truncate">{doc.fileName}</span>
+                <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 flex-shrink-0">
+                  {FORMAT_LABELS[doc.format]}
+                </span>
+                <span className="text-xs text-slate-400 flex-shrink-0">{doc.content.length} caracteres</span>
+                {isExpanded ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+              </button>
+              <button
+                onClick={() => handleRemove(doc.id)}
+                disabled={disabled}
+                className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                title="Quitar archivo"
+              >
+                <X size={16} />
+              </button>
+            </div>
+
+            {doc.warnings.length > 0 && (
+              <div className="px-4 pb-2 flex items-start gap-1 text-xs text-amber-700">
+                <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+                <span>{doc.warnings.join(' ')}</span>
+              </div>
+            )}
+
+            {isExpanded && (
+              <div className="px-4 pb-4">
+                <p className="text-xs text-slate-500 mb-2">Vista previa del texto extraído. Puedes corregirlo antes de analizar.</p>
+                <textarea
+                  rows={10}
+                  value={doc.content}
+                  onChange={(e) => handleContentChange(doc.id, e.target.value)}
+                  disabled={disabled}
+                  className="block w-full rounded-lg border-slate-300 border p-3 bg-slate-50 font-mono text-xs focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FileUploader;
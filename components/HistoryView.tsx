@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Search, FolderOpen, Copy, Trash2, ArrowLeft, GitCompare } from 'lucide-react';
+import { SavedEstimate } from '../types';
+import { deleteEstimate, duplicateEstimate, formatVersionName, listEstimates, searchEstimates } from '../services/historyStore';
+
+interface HistoryViewProps {
+  onOpen: (estimate: SavedEstimate) => void;
+  onCompare: (projectId: string) => void;
+  // Called right before an estimate is deleted, so nothing saves it again afterwards
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('es-ES', { dateStyle: 'medium', timeStyle: 'short' });
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, onCompare, onDelete, onBack }) => {
+  const [estimates, setEstimates] = useState<SavedEstimate[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEstimates(await listEstimates());
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('No se pudo leer el historial local.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const filtered = useMemo(() => searchEstimates(estimates, query), [estimates, query]);
+
+  const versionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    estimates.forEach(e => { counts[e.projectId] = (counts[e.projectId] ?? 0) + 1; });
+    return counts;
+  }, [estimates]);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateEstimate(id);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (estimate: SavedEstimate) => {
+    if (!window.confirm(`¿Eliminar la estimación "${estimate.result.projectName}"? Esta acción no se puede deshacer.`)) return;
+    onDelete(estimate.id);
+    try {
+      await deleteEstimate(estimate.id);
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12 sm:px-6 lg:px-8">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-2">
+            <History size={28} className="text-indigo-600" />
+            Historial de Estimaciones
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">Guardadas localmente en este navegador.</p>
+        </div>
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+        >
+          <ArrowLeft size={16} />
+          Volver
+        </button>
+      </div>
+
+      <div className="relative mb-6">
+        <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
+          <Search size={16} className="text-slate-400" />
+        </div>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar por proyecto, solicitante o contenido del PRD..."
+          className="block w-full rounded-lg border-slate-300 border pl-9 p-2.5 bg-white focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 mb-4 bg-red-50 border border-red-100 rounded-md text-red-700 text-sm">{error}</div>
+      )}
+
+      {isLoading ? (
+        <p className="text-center text-sm text-slate-400 py-12">Cargando...</p>
+      ) : filtered.length === 0 ? (
+        <p className="text-center text-sm text-slate-400 italic py-12">
+          {estimates.length === 0 ? 'Todavía no hay estimaciones guardadas.' : 'Ninguna estimación coincide con la búsqueda.'}
+        </p>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md border border-slate-200 divide-y divide-slate-100">
+          {filtered.map(estimate => (
+            <div key={estimate.id} className="p-4 flex flex-col md:flex-row md:items-center gap-4 hover:bg-slate-50">
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-slate-900 truncate">{estimate.result.projectName}</span>
+                  <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700 border border-indigo-100 flex-shrink-0">
+                    {formatVersionName(estimate)}
+                  </span>
+                </div>
+                <div className="text-xs text-slate-500 mt-0.5">
+                  Solicitante: {estimate.metadata.requesterName || '-'} | Fecha: {estimate.metadata.date} | Actualizada: {formatDateTime(estimate.updatedAt)}
+                </div>
+                <p className="text-sm text-slate-500 mt-1 line-clamp-1">{estimate.result.executiveSummary}</p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => onOpen(estimate)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-xs font-medium hover:bg-indigo-700 transition-colors"
+                >
+                  <FolderOpen size={14} /> Abrir
+                </button>
+                {versionCounts[estimate.projectId] > 1 && (
+                  <button
+                    onClick={() => onCompare(estimate.projectId)}
+                    className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-lg text-xs font-medium text-slate-700 hover:bg-slate-100 bg-white transition-colors"
+                  >
+                    <GitCompare size={14} /> Comparar
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDuplicate(estimate.id)}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-lg text-xs font-medium text-slate-700 hover:bg-slate-100 bg-white transition-colors"
+                >
+                  <Copy size={14} /> Duplicar
+                </button>
+                <button
+                  onClick={() => handleDelete(estimate)}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-red-200 rounded-lg text-xs font-medium text-red-700 hover:bg-red-50 bg-white transition-colors"
+                >
+                  <Trash2 size={14} /> Eliminar
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -1,40 +1,54 @@
-import React, { useState } from 'react';
-import { UploadCloud, FileText, Play, AlertCircle, User, Calendar, Type, DollarSign, Users } from 'lucide-react';
-import { ProjectMetadata, FIXED_ROLES, FixedRole } from '../types';
+import React, { useMemo, useState } from 'react';
+import { UploadCloud, FileText, Play, AlertCircle, User, Calendar, Type, DollarSign, Users, GitBranch, Repeat, CalendarDays } from 'lucide-react';
+import { AnalysisOptions, ProjectMetadata, TeamRole, UploadedDocument, WorkCalendar } from '../types';
+import { composePRDText } from '../services/documentParser';
+import { loadRoster, saveRoster, validateRoster } from '../services/teamRoster';
+import { CURRENCIES, CURRENCY_CODES, loadExchangeRates, saveExchangeRates, validateExchangeRates } from '../services/currency';
+import { defaultStartDate, loadCalendar, saveCalendar, validateCalendar } from '../services/workCalendar';
+import FileUploader from './FileUploader';
+import RosterEditor from './RosterEditor';
+import ExchangeRateTable from './ExchangeRateTable';
+import CalendarEditor from './CalendarEditor';
+import PRDQualityPanel from './PRDQualityPanel';
+import { assessPRD } from '../services/prdQuality';
 
 interface InputSectionProps {
-  onAnalyze: (text: string, metadata: ProjectMetadata) => void;
+  onAnalyze: (text: string, metadata: ProjectMetadata, options: AnalysisOptions) => void;
   isAnalyzing: boolean;
+  providerLabel: string;
+  /** Pre-fills the form, e.g. with a revised PRD for a new version or after a failed analysis */
+  draft?: { text: string; metadata: ProjectMetadata; options?: AnalysisOptions; revisionOf?: string };
 }
 
-const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, isAnalyzing }) => {
-  const [text, setText] = useState('');
+const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, isAnalyzing, providerLabel, draft }) => {
+  const [text, setText] = useState(draft?.text ?? '');
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
   const [error, setError] = useState('');
+  const [repromptOnViolations, setRepromptOnViolations] = useState(draft?.options?.repromptOnViolations ?? false);
+  const [askClarifications, setAskClarifications] = useState(draft?.options?.askClarifications ?? false);
   
   // Form State
-  const [projectName, setProjectName] = useState('');
-  const [requesterName, setRequesterName] = useState('');
+  const [projectName, setProjectName] = useState(draft?.metadata.projectName ?? '');
+  const [requesterName, setRequesterName] = useState(draft?.metadata.requesterName ?? '');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [startDate, setStartDate] = useState(draft?.metadata.startDate ?? defaultStartDate());
 
-  // Rates State
-  const [rates, setRates] = useState<Record<FixedRole, number>>({
-    'Product Owner': 60,
-    'Back-end Developer': 55,
-    'Front-end Developer': 50,
-    'UI/UX Designer': 45,
-    'QA Engineer': 40
-  });
-
-  const handleRateChange = (role: FixedRole, value: string) => {
-    const numValue = parseFloat(value);
-    setRates(prev => ({
-      ...prev,
-      [role]: isNaN(numValue) ? 0 : numValue
-    }));
-  };
+  // Team roster: a revision keeps the team it was estimated with
+  const [roster, setRoster] = useState<TeamRole[]>(draft?.metadata.roster ?? loadRoster);
+  const [currency, setCurrency] = useState(draft?.metadata.currency ?? 'USD');
+  const [exchangeRates, setExchangeRates] = useState<Record<string, number>>(
+    () => ({ ...loadExchangeRates(), ...draft?.metadata.exchangeRates })
+  );
+
+  const [calendar, setCalendar] = useState<WorkCalendar>(draft?.metadata.calendar ?? loadCalendar);
+
+  const currenciesInUse = Array.from(new Set([currency, ...roster.map(r => r.currency)]));
+
+  const prdText = useMemo(() => composePRDText(text, documents), [text, documents]);
+  const prdQuality = useMemo(() => assessPRD(prdText), [prdText]);
 
   const handleSubmit = () => {
-    if (text.length < 50) {
+    if (prdText.length < 50) {
       setError('Por favor, ingresa más detalles sobre tu proyecto (mínimo 50 caracteres) para obtener una estimación precisa.');
       return;
     }
@@ -42,21 +56,48 @@ const InputSection: React.FC<InputSectionProps> = ({ onAnalyze, isAnalyzing }) =
       setError('Por favor completa el nombre del proyecto y del solicitante.');
       return;
     }
+    if (!startDate) {
+      setError('Por favor indica la fecha de inicio del proyecto.');
+      return;
+    }
+
+    const rosterError = validateRoster(roster);
+    if (rosterError) {
+      setError(rosterError);
+      return;
+    }
+
+    const ratesError = validateExchangeRates(currenciesInUse, exchangeRates);
+    if (ratesError) {
+      setError(ratesError);
+      return;
+    }
 
-    // Validate rates
-    const hasInvalidRate = Object.values(rates).some(r => (r as number) <= 0);
-    if (hasInvalidRate) {
-      setError('Por favor define un valor hora mayor a 0 para todos los roles.');
+    // Rows added but never filled in are ignored
+    const cleanCalendar = { ...calendar, customHolidays: calendar.customHolidays.filter(h => h.date || h.name.trim()) };
+    const calendarError = validateCalendar(cleanCalendar);
+    if (calendarError) {
+      setError(calendarError);
       return;
     }
 
+    const cleanRoster = roster.map(r => ({ ...r, name: r.name.trim(), description: r.description.trim() }));
+    // The last team used becomes the default for the next estimate
+    saveRoster(cleanRoster);
+    saveExchangeRates(exchangeRates);
+    saveCalendar(cleanCalendar);
+
     setError('');
-    onAnalyze(text, {
+    onAnalyze(prdText, {
       projectName,
       requesterName,
       date,
-      userRates: rates
-    });
+      startDate,
+      roster: cleanRoster,
+      currency,
+      exchangeRates,
+      calendar: cleanCalendar
+    }, { repromptOnViolations, askClarifications });
   };
 
   const handleExample = () => {
@@ -87,7 +128,7 @@ Diseño: Moderno y amigable.`;
           Estimaciones impulsadas por IA
         </h1>
         <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-          powered by Google Gemini
+          powered by {providerLabel}
         </p>
       </div>
 
@@ -95,9 +136,16 @@ Diseño: Moderno y amigable.`;
         <div className="p-1 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
         
         <div className="p-6 sm:p-8 space-y-8">
-          
+
+          {draft?.revisionOf && (
+            <div className="p-3 bg-indigo-50 border border-indigo-100 rounded-md flex items-start gap-2 text-indigo-800 text-sm">
+              <GitBranch size={18} className="mt-0.5 flex-shrink-0" />
+              <span>Nueva versión de <b>{draft.revisionOf}</b>. Edita el PRD revisado; el resultado se guardará como la siguiente versión del proyecto.</span>
+            </div>
+          )}
+
           {/* Metadata Form */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center gap-1">
                 <Type size={14} /> Nombre del Proyecto
@@ -136,6 +184,33 @@ Diseño: Moderno y amigable.`;
                 disabled={isAnalyzing}
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center gap-1">
+                <CalendarDays size={14} /> Inicio del Proyecto
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="block w-full rounded-lg border-slate-300 border p-2.5 bg-slate-50 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                disabled={isAnalyzing}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1 flex items-center gap-1">
+                <DollarSign size={14} /> Moneda de facturación
+              </label>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="block w-full rounded-lg border-slate-300 border p-2.5 bg-slate-50 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                disabled={isAnalyzing}
+              >
+                {CURRENCY_CODES.map(code => (
+                  <option key={code} value={code}>{code} · {CURRENCIES[code].label}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           <div className="border-t border-slate-100"></div>
@@ -144,43 +219,47 @@ Diseño: Moderno y amigable.`;
           <div>
             <h3 className="text-sm font-bold text-slate-900 mb-4 flex items-center gap-2">
               <Users size={16} className="text-indigo-600" />
-              Configuración del Equipo y Tarifas (USD/Hora)
+              Configuración del Equipo y Tarifas
             </h3>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
-              {FIXED_ROLES.map((role) => (
-                <div key={role} className="relative">
-                  <label className="block text-xs font-medium text-slate-500 mb-1 truncate" title={role}>
-                    {role}
-                  </label>
-                  <div className="relative rounded-md shadow-sm">
-                    <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
-                      <span className="text-slate-500 sm:text-sm">$</span>
-                    </div>
-                    <input
-                      type="number"
-                      min="1"
-                      value={rates[role]}
-                      onChange={(e) => handleRateChange(role, e.target.value)}
-                      className="block w-full rounded-md border-slate-300 pl-7 pr-3 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                      placeholder="0.00"
-                      disabled={isAnalyzing}
-                    />
-                  </div>
-                </div>
-              ))}
-            </div>
+            <RosterEditor roster={roster} onChange={setRoster} disabled={isAnalyzing} />
+
+            <h4 className="text-xs font-bold text-slate-700 mt-6 mb-3 flex items-center gap-2">
+              <Repeat size={14} className="text-indigo-600" />
+              Tipos de cambio
+            </h4>
+            <ExchangeRateTable rates={exchangeRates} onChange={setExchangeRates} inUse={currenciesInUse} disabled={isAnalyzing} />
             <p className="text-xs text-slate-400 mt-2">
-              * El <b>Product Owner</b> será responsable de crear y administrar historias de usuario.
+              * Las tarifas se convierten a {currency} con esta tabla antes de estimar.
             </p>
           </div>
 
           <div className="border-t border-slate-100"></div>
 
+          {/* Working Calendar */}
+          <div>
+            <h3 className="text-sm font-bold text-slate-900 mb-4 flex items-center gap-2">
+              <CalendarDays size={16} className="text-indigo-600" />
+              Calendario Laboral
+            </h3>
+            <CalendarEditor calendar={calendar} onChange={setCalendar} disabled={isAnalyzing} />
+          </div>
+
+          <div className="border-t border-slate-100"></div>
+
+          {/* File Upload */}
+          <div>
+            <h3 className="text-sm font-medium text-slate-700 mb-4 flex items-center gap-2">
+              <UploadCloud size={16} className="text-indigo-600" />
+              Documentos del PRD
+            </h3>
+            <FileUploader documents={documents} onChange={setDocuments} disabled={isAnalyzing} />
+          </div>
+
           {/* Text Area */}
           <div>
             <div className="mb-4 flex justify-between items-center">
               <label htmlFor="prd-input" className="block text-sm font-medium text-slate-700">
-                Detalles del PRD / Requerimientos
+                {documents.length > 0 ? 'Notas adicionales' : 'Detalles del PRD / Requerimientos'}
               </label>
               <button 
                 onClick={handleExample}
@@ -206,6 +285,8 @@ Diseño: Moderno y amigable.`;
             </div>
           </div>
 
+          {prdText.trim() && <PRDQualityPanel quality={prdQuality} />}
+
           {error && (
             <div className="p-3 bg-red-50 border border-red-100 rounded-md flex items-start gap-2 text-red-700 text-sm">
               <AlertCircle size={18} className="mt-0.5 flex-shrink-0" />
@@ -214,6 +295,28 @@ Diseño: Moderno y amigable.`;
           )}
 
           <div className="flex flex-col sm:flex-row gap-4 justify-end items-center">
+            <div className="flex flex-col gap-2 sm:mr-auto">
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={askClarifications}
+                  onChange={(e) => setAskClarifications(e.target.checked)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  disabled={isAnalyzing}
+                />
+                Revisar ambigüedades del PRD y responder preguntas antes de estimar
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={repromptOnViolations}
+                  onChange={(e) => setRepromptOnViolations(e.target.checked)}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  disabled={isAnalyzing}
+                />
+                Pedir a la IA que corrija inconsistencias detectadas (más lento)
+              </label>
+            </div>
             <span className="text-xs text-slate-500 hidden sm:block">
                Se utilizarán las tarifas configuradas para calcular el costo total.
             </span>
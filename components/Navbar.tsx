@@ -1,7 +1,22 @@
-import React from 'react';
-import { Calculator, Menu } from 'lucide-react';
+import React, { useRef } from 'react';
+import { Calculator, History, Menu, Upload } from 'lucide-react';
+
+interface NavbarProps {
+  onOpenSettings: () => void;
+  onOpenHistory: () => void;
+  onImportFile: (file: File) => void;
+}
+
+const Navbar: React.FC<NavbarProps> = ({ onOpenSettings, onOpenHistory, onImportFile }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires a change
+    e.target.value = '';
+    if (file) onImportFile(file);
+  };
 
-const Navbar: React.FC = () => {
   return (
     <nav className="bg-white shadow-sm border-b border-slate-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -12,8 +27,29 @@ const Navbar: React.FC = () => {
               <span className="font-bold text-xl tracking-tight text-slate-900">EstimIA</span>
             </div>
           </div>
-          <div className="flex items-center">
-             <button className="p-2 rounded-md text-slate-400 hover:text-slate-500 focus:outline-none">
+          <div className="flex items-center gap-1">
+             <input ref={fileInput} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+             <button
+               onClick={() => fileInput.current?.click()}
+               title="Abrir una estimación exportada en JSON"
+               className="flex items-center gap-1.5 px-3 py-2 rounded-md text-sm font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-50 focus:outline-none no-print"
+             >
+               <Upload size={20} />
+               <span className="hidden sm:inline">Importar</span>
+             </button>
+             <button
+               onClick={onOpenHistory}
+               title="Historial"
+               className="flex items-center gap-1.5 px-3 py-2 rounded-md text-sm font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-50 focus:outline-none no-print"
+             >
+               <History size={20} />
+               <span className="hidden sm:inline">Historial</span>
+             </button>
+             <button
+               onClick={onOpenSettings}
+               title="Configuración"
+               className="p-2 rounded-md text-slate-400 hover:text-slate-500 focus:outline-none no-print"
+             >
                <Menu size={24} />
              </button>
           </div>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { CheckCircle2, AlertTriangle, ClipboardCheck } from 'lucide-react';
+import { PRDConfidence, PRDQuality } from '../types';
+import { PRD_CHECKS, PRD_CONFIDENCE_LABELS } from '../services/prdQuality';
+
+interface PRDQualityPanelProps {
+  quality: PRDQuality;
+}
+
+const CONFIDENCE_STYLES: Record<PRDConfidence, { bar: string; badge: string }> = {
+  high: { bar: 'bg-emerald-500', badge: 'bg-emerald-100 text-emerald-800' },
+  medium: { bar: 'bg-amber-400', badge: 'bg-amber-100 text-amber-800' },
+  low: { bar: 'bg-red-500', badge: 'bg-red-100 text-red-800' }
+};
+
+export const ConfidenceBadge: React.FC<{ quality: PRDQuality }> = ({ quality }) => (
+  <span
+    title={`Completitud del PRD: ${quality.score}/100`}
+    className={`inline-flex items-center text-xs font-bold px-2 py-0.5 rounded-full whitespace-nowrap ${CONFIDENCE_STYLES[quality.confidence].badge}`}
+  >
+    Confianza {PRD_CONFIDENCE_LABELS[quality.confidence].toLowerCase()} · PRD {quality.score}/100
+  </span>
+);
+
+/**
+ * Checklist of the topics an estimate depends on, with the ones the PRD does
+ * not cover highlighted, so they can be added before sending it.
+ */
+const PRDQualityPanel: React.FC<PRDQualityPanelProps> = ({ quality }) => (
+  <div className="rounded-lg border border-slate-200 bg-white p-4">
+    <div className="flex items-center justify-between gap-4 mb-2">
+      <h4 className="text-sm font-medium text-slate-700 flex items-center gap-2">
+        <ClipboardCheck size={16} className="text-indigo-600" />
+        Completitud del PRD
+      </h4>
+      <ConfidenceBadge quality={quality} />
+    </div>
+    <div className="h-1.5 rounded-full bg-slate-100 mb-4 overflow-hidden">
+      <div className={`h-full rounded-full transition-all ${CONFIDENCE_STYLES[quality.confidence].bar}`} style={{ width: `${quality.score}%` }} />
+    </div>
+    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+      {PRD_CHECKS.map(check => {
+        const missing = quality.missing.includes(check.id);
+        return (
+          <li key={check.id} className="flex items-start gap-2 text-xs">
+            {missing
+              ? <AlertTriangle size={14} className="text-amber-500 mt-0.5 flex-shrink-0" />
+              : <CheckCircle2 size={14} className="text-emerald-600 mt-0.5 flex-shrink-0" />}
+            <div>
+              <span className={missing ? 'font-medium text-slate-900' : 'text-slate-500'}>{check.label}</span>
+              {missing && <div className="text-slate-500">{check.hint}</div>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+    {quality.confidence !== 'high' && (
+      <p className="mt-3 text-xs text-slate-500">
+        Completar lo que falta (o responder las preguntas aclaratorias) reduce la incertidumbre de la estimación.
+      </p>
+    )}
+  </div>
+);
+
+export default PRDQualityPanel;
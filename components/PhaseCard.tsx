@@ -0,0 +1,437 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, CheckCircle2, GitBranch, Plus, Trash2, X } from 'lucide-react';
+import { Complexity, Dependency, PhaseEstimate, PhaseTask } from '../types';
+import { formatCurrency, resolveRate } from '../services/estimationMath';
+import { LeveledPhase } from '../services/resourceLeveling';
+
+interface PhaseCardProps {
+  phase: PhaseEstimate;
+  currency: string;
+  roleRates: Record<string, string | number>;
+  roleOptions: string[];
+  rateForRole: (role: string) => number;
+  // Candidates for the phase dependencies
+  otherPhaseNames: string[];
+  schedule?: LeveledPhase;
+  onChange: (phase: PhaseEstimate) => void;
+  onDelete: () => void;
+}
+
+const editableClassName = "w-full border border-transparent hover:border-slate-300 focus:border-indigo-500 bg-transparent focus:bg-white rounded px-2 py-1 outline-none transition-all";
+
+// Keeps optimistic <= hours <= pessimistic when the point estimate changes,
+// scaling the range with it so its relative width is preserved
+const rescaledRange = (task: PhaseTask, hours: number): Partial<PhaseTask> => {
+  if (task.optimisticHours === undefined && task.pessimisticHours === undefined) return {};
+  const optimistic = task.optimisticHours ?? task.hours;
+  const pessimistic = task.pessimisticHours ?? task.hours;
+  if (task.hours > 0) {
+    // Rounded to the half-hour step of the inputs
+    const scale = (value: number) => Math.round(value * hours / task.hours * 2) / 2;
+    return { optimisticHours: Math.min(scale(optimistic), hours), pessimisticHours: Math.max(scale(pessimistic), hours) };
+  }
+  return { optimisticHours: Math.min(optimistic, hours), pessimisticHours: Math.max(pessimistic, hours) };
+};
+
+const nameKey = (value: string) => value.trim().toLowerCase();
+
+// Dependencies refer to tasks by name, so new tasks must not repeat one
+const newTaskName = (tasks: PhaseTask[]) => {
+  const names = new Set(tasks.map(t => nameKey(t.name)));
+  let name = 'Nueva tarea';
+  for (let n = 2; names.has(nameKey(name)); n++) name = `Nueva tarea ${n}`;
+  return name;
+};
+
+interface NameInputProps {
+  value: string;
+  // Names of the siblings, which this one must not repeat
+  takenNames: string[];
+  takenMessage: string;
+  className: string;
+  onCommit: (name: string) => void;
+}
+
+// Dependencies, the roadmap and the exports match by name, so a rename is
+// only applied on blur and only when it is neither empty nor taken
+const NameInput: React.FC<NameInputProps> = ({ value, takenNames, takenMessage, className, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const text = draft ?? value;
+  const error = !text.trim()
+    ? 'El nombre no puede quedar vacío.'
+    : takenNames.some(name => nameKey(name) === nameKey(text)) ? takenMessage : null;
+
+  const commit = () => {
+    if (draft !== null && !error && draft.trim() !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className={error ? `${className} !border-red-400` : className}
+      />
+      {error && <div className="px-2 pt-0.5 text-[10px] text-red-600 no-print">{error}</div>}
+    </>
+  );
+};
+
+const PhaseCard: React.FC<PhaseCardProps> = ({ phase, currency, roleRates, roleOptions, rateForRole, otherPhaseNames, schedule, onChange, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Tasks carry no id; these row keys follow them through additions and deletions
+  const keyCounter = useRef(0);
+  const taskKeys = useRef<number[]>([]);
+  if (taskKeys.current.length !== phase.tasks.length) {
+    taskKeys.current = phase.tasks.map(() => keyCounter.current++);
+  }
+
+  // Recalculate phase specific costs based on dynamic rates
+  const dynamicTasks = phase.tasks.map(task => {
+    const rate = resolveRate(roleRates, task);
+
+    return {
+      ...task,
+      hourlyRate: rate,
+      cost: task.hours * rate
+    };
+  });
+
+  const dynamicPhaseCost = dynamicTasks.reduce((acc, t) => acc + t.cost, 0);
+
+  // Every task edit goes through here so the phase totals never drift
+  const updateTasks = (tasks: PhaseTask[]) => {
+    onChange({
+      ...phase,
+      tasks,
+      estimatedHours: tasks.reduce((acc, t) => acc + t.hours, 0),
+      estimatedCost: tasks.reduce((acc, t) => acc + t.hours * resolveRate(roleRates, t), 0)
+    });
+  };
+
+  const updateTask = (index: number, changes: Partial<PhaseTask>) => {
+    const previousName = phase.tasks[index].name;
+    updateTasks(phase.tasks.map((task, idx) => {
+      if (idx !== index) {
+        // Sibling dependencies follow the task when it is renamed
+        if (changes.name === undefined || !task.dependsOn) return task;
+        return { ...task, dependsOn: task.dependsOn.map(d => d.name === previousName ? { ...d, name: changes.name! } : d) };
+      }
+      const updated = { ...task, ...changes };
+      if (changes.assignedRole !== undefined) updated.hourlyRate = rateForRole(changes.assignedRole);
+      updated.cost = updated.hours * updated.hourlyRate;
+      return updated;
+    }));
+  };
+
+  const handleHoursChange = (index: number, value: string, field: 'hours' | 'optimisticHours' | 'pessimisticHours' = 'hours') => {
+    const parsed = parseFloat(value);
+    const hours = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+    updateTask(index, field === 'hours' ? { hours, ...rescaledRange(phase.tasks[index], hours) } : { [field]: hours });
+  };
+
+  // The range bounds are clamped once the user leaves the field, not while typing
+  const handleRangeBlur = (index: number) => {
+    const task = phase.tasks[index];
+    const optimisticHours = Math.min(task.optimisticHours ?? task.hours, task.hours);
+    const pessimisticHours = Math.max(task.pessimisticHours ?? task.hours, task.hours);
+    if (optimisticHours !== task.optimisticHours || pessimisticHours !== task.pessimisticHours) {
+      updateTask(index, { optimisticHours, pessimisticHours });
+    }
+  };
+
+  const handleAddTask = () => {
+    const hourlyRate = rateForRole(phase.assignedRole);
+    taskKeys.current = [...taskKeys.current, keyCounter.current++];
+    updateTasks([...phase.tasks, { name: newTaskName(phase.tasks), hours: 8, cost: 8 * hourlyRate, assignedRole: phase.assignedRole, hourlyRate }]);
+  };
+
+  const handleDeleteTask = (index: number) => {
+    const removed = phase.tasks[index].name;
+    taskKeys.current = taskKeys.current.filter((_, idx) => idx !== index);
+    updateTasks(phase.tasks
+      .filter((_, idx) => idx !== index)
+      .map(task => task.dependsOn ? { ...task, dependsOn: task.dependsOn.filter(d => d.name !== removed) } : task));
+  };
+
+  const togglePhaseDependency = (name: string) => {
+    const current = phase.dependsOn ?? [];
+    const dependsOn = current.some(d => d.name === name)
+      ? current.filter(d => d.name !== name)
+      : [...current, { name }];
+    onChange({ ...phase, dependsOn });
+  };
+
+  const handleLagChange = (name: string, value: string) => {
+    const lagDays = parseInt(value, 10);
+    onChange({
+      ...phase,
+      dependsOn: (phase.dependsOn ?? []).map(d => d.name === name ? { name, ...(lagDays > 0 ? { lagDays } : {}) } : d)
+    });
+  };
+
+  const setTaskDependencies = (index: number, dependsOn: Dependency[]) => {
+    updateTasks(phase.tasks.map((task, idx) => idx === index ? { ...task, dependsOn } : task));
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden transition-all duration-200 hover:shadow-md bg-white">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full text-left p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-white hover:bg-slate-50 transition-colors"
+      >
+        <div className="flex-grow">
+          <div className="flex items-center gap-3 mb-2">
+             {isOpen ? <ChevronUp className="text-indigo-500" size={20} /> : <ChevronDown className="text-slate-400" size={20} />}
+             <h4 className="font-bold text-slate-900 text-lg">{phase.name}</h4>
+             <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border ${
+                phase.complexity === 'Alta' ? 'bg-red-50 text-red-700 border-red-100' :
+                phase.complexity === 'Media' ? 'bg-orange-50 text-orange-700 border-orange-100' :
+                'bg-emerald-50 text-emerald-700 border-emerald-100'
+             }`}>
+               Complejidad: {phase.complexity}
+             </span>
+             {schedule && (
+               <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border ${
+                  schedule.critical ? 'bg-red-600 text-white border-red-600' : 'bg-slate-50 text-slate-600 border-slate-200'
+               }`}>
+                 {schedule.critical ? 'Ruta crítica' : `Holgura: ${schedule.slack} días`}
+               </span>
+             )}
+          </div>
+          <p className="text-sm text-slate-500 line-clamp-1">{phase.description}</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm flex-shrink-0">
+            <div className="flex flex-col items-end">
+              <span className="font-bold text-slate-900">{formatCurrency(dynamicPhaseCost, currency)}</span>
+              <span className="text-xs text-slate-500">
+                {phase.estimatedHours} hs{schedule && ` · Sem ${schedule.startWeek}-${schedule.endWeek}`}
+              </span>
+            </div>
+        </div>
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6 pt-2 bg-slate-50 border-t border-slate-100">
+          <div className="flex flex-col md:flex-row gap-3 mb-4 no-print">
+            <div className="flex-grow">
+              <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1">Nombre de la fase</label>
+              <NameInput
+                value={phase.name}
+                takenNames={otherPhaseNames}
+                takenMessage="Ya existe otra fase con ese nombre."
+                onCommit={(name) => onChange({ ...phase, name })}
+                className="block w-full rounded-md border border-slate-300 px-2 py-1.5 text-sm bg-white focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wide mb-1">Complejidad</label>
+              <select
+                value={phase.complexity}
+                onChange={(e) => onChange({ ...phase, complexity: e.target.value as Complexity })}
+                className="block rounded-md border border-slate-300 px-2 py-1.5 text-sm bg-white focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                {Object.values(Complexity).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div className="flex items-end">
+              <button
+                onClick={onDelete}
+                className="flex items-center gap-1 px-3 py-1.5 border border-red-200 rounded-md text-xs font-medium text-red-700 hover:bg-red-50 bg-white transition-colors"
+              >
+                <Trash2 size={14} /> Eliminar fase
+              </button>
+            </div>
+          </div>
+
+          <p className="text-sm text-slate-700 mb-4 leading-relaxed p-3 bg-white rounded border border-slate-200">
+            {phase.description}
+          </p>
+
+          {otherPhaseNames.length > 0 && (
+            <div className="mb-4 no-print">
+              <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2 flex items-center gap-2">
+                <GitBranch size={14} />
+                Comienza después de
+              </h5>
+              <div className="flex flex-wrap gap-2">
+                {otherPhaseNames.map(name => {
+                  const dependency = phase.dependsOn?.find(d => d.name === name);
+                  return (
+                    <div
+                      key={name}
+                      className={`flex items-center gap-1 rounded-full border text-xs ${
+                        dependency ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-500'
+                      }`}
+                    >
+                      <button onClick={() => togglePhaseDependency(name)} className="px-2.5 py-1 font-medium">
+                        {name}
+                      </button>
+                      {dependency && (
+                        <label className="flex items-center gap-1 pr-2" title="Días hábiles de espera tras finalizar la fase">
+                          +
+                          <input
+                            type="number"
+                            min="0"
+                            value={dependency.lagDays ?? 0}
+                            onChange={(e) => handleLagChange(name, e.target.value)}
+                            className="w-10 rounded border border-indigo-200 px-1 py-0.5 text-right bg-white"
+                          />
+                          d
+                        </label>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-3 flex items-center gap-2">
+            <CheckCircle2 size={14} />
+            Detalle de Tareas
+          </h5>
+          <div className="overflow-x-auto border border-slate-200 rounded-lg bg-white">
+            <table className="min-w-full text-sm">
+              <thead className="bg-slate-100 text-slate-600 font-medium text-xs uppercase">
+                <tr>
+                  <th className="px-4 py-2 text-left">Tarea / Actividad</th>
+                  <th className="px-4 py-2 text-left">Rol Ejecutor</th>
+                  <th className="px-4 py-2 text-right">Valor Hora</th>
+                  <th className="px-4 py-2 text-right w-24">Horas</th>
+                  <th className="px-4 py-2 text-center w-36" title="Horas optimistas y pesimistas, usadas en la simulación de confianza">Rango (O – P)</th>
+                  <th className="px-4 py-2 text-right w-32">Costo Total</th>
+                  <th className="px-4 py-2 text-left">Depende de</th>
+                  <th className="px-2 py-2 w-10 no-print"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {dynamicTasks.length > 0 ? (
+                  dynamicTasks.map((task, idx) => (
+                    <tr key={taskKeys.current[idx]} className="hover:bg-slate-50">
+                      <td className="px-2 py-1 text-slate-700">
+                        <NameInput
+                          value={task.name}
+                          takenNames={phase.tasks.filter((_, i) => i !== idx).map(t => t.name)}
+                          takenMessage="Ya existe otra tarea con ese nombre en la fase."
+                          onCommit={(name) => updateTask(idx, { name })}
+                          className={editableClassName}
+                        />
+                        {task.sourceSections && task.sourceSections.length > 0 && (
+                          <div className="px-2 text-[10px] text-slate-400 truncate" title={task.sourceSections.join('\n')}>
+                            {task.sourceSections.length === 1 ? 'Sección' : 'Secciones'}: {task.sourceSections.join(', ')}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-2 py-1 text-slate-600 text-xs font-medium">
+                        <select
+                          value={task.assignedRole}
+                          onChange={(e) => updateTask(idx, { assignedRole: e.target.value })}
+                          className="px-2 py-1 bg-slate-100 rounded border border-transparent hover:border-slate-300 focus:border-indigo-500 outline-none"
+                        >
+                          {roleOptions.includes(task.assignedRole) ? null : <option value={task.assignedRole}>{task.assignedRole}</option>}
+                          {roleOptions.map(role => <option key={role} value={role}>{role}</option>)}
+                        </select>
+                      </td>
+                      <td className="px-4 py-2 text-right text-slate-500 text-xs">{formatCurrency(task.hourlyRate, currency)}</td>
+                      <td className="px-2 py-1 text-right text-slate-500">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={task.hours}
+                          onChange={(e) => handleHoursChange(idx, e.target.value)}
+                          className={`${editableClassName} text-right`}
+                        />
+                      </td>
+                      <td className="px-2 py-1 text-slate-400 text-xs">
+                        <div className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={task.optimisticHours ?? task.hours}
+                            onChange={(e) => handleHoursChange(idx, e.target.value, 'optimisticHours')}
+                            onBlur={() => handleRangeBlur(idx)}
+                            className={`${editableClassName} text-right`}
+                            title="Optimista"
+                          />
+                          –
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            value={task.pessimisticHours ?? task.hours}
+                            onChange={(e) => handleHoursChange(idx, e.target.value, 'pessimisticHours')}
+                            onBlur={() => handleRangeBlur(idx)}
+                            className={`${editableClassName} text-right`}
+                            title="Pesimista"
+                          />
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-right text-slate-900 font-medium">{formatCurrency(task.cost, currency)}</td>
+                      <td className="px-2 py-1 text-xs">
+                        <div className="flex flex-wrap items-center gap-1">
+                          {(task.dependsOn ?? []).map(dependency => (
+                            <span key={dependency.name} className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-700">
+                              {dependency.name}{dependency.lagDays ? ` +${dependency.lagDays}d` : ''}
+                              <button
+                                onClick={() => setTaskDependencies(idx, (task.dependsOn ?? []).filter(d => d.name !== dependency.name))}
+                                title="Quitar dependencia"
+                                className="no-print hover:text-red-600"
+                              >
+                                <X size={10} />
+                              </button>
+                            </span>
+                          ))}
+                          {phase.tasks.some((t, i) => i !== idx && !task.dependsOn?.some(d => d.name === t.name)) && (
+                            <select
+                              value=""
+                              onChange={(e) => e.target.value && setTaskDependencies(idx, [...(task.dependsOn ?? []), { name: e.target.value }])}
+                              className="no-print max-w-[7rem] px-1 py-0.5 bg-slate-100 rounded border border-transparent hover:border-slate-300 focus:border-indigo-500 outline-none text-slate-500"
+                            >
+                              <option value="">+ Agregar</option>
+                              {phase.tasks
+                                .filter((t, i) => i !== idx && !task.dependsOn?.some(d => d.name === t.name))
+                                .map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+                            </select>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-2 py-1 text-center no-print">
+                        <button
+                          onClick={() => handleDeleteTask(idx)}
+                          title="Eliminar tarea"
+                          className="p-1 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                   <tr>
+                      <td colSpan={8} className="px-4 py-4 text-center text-slate-400 italic">No hay desglose de tareas disponible.</td>
+                   </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <button
+            onClick={handleAddTask}
+            className="mt-3 flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-800 no-print"
+          >
+            <Plus size={14} /> Agregar tarea
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhaseCard;
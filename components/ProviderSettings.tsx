@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { X, Cpu } from 'lucide-react';
+import { LLMProviderConfig, LLMProviderId } from '../types';
+import { PROVIDER_DEFAULTS, PROVIDER_LABELS } from '../services/llm';
+
+interface ProviderSettingsProps {
+  config: LLMProviderConfig;
+  onSave: (config: LLMProviderConfig) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "block w-full rounded-lg border-slate-300 border p-2.5 bg-slate-50 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LLMProviderConfig>(config);
+
+  const handleProviderChange = (provider: LLMProviderId) => {
+    setDraft({ provider, ...PROVIDER_DEFAULTS[provider], apiKey: '' });
+  };
+
+  const update = (field: 'model' | 'baseUrl' | 'apiKey', value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateNumber = (field: 'timeoutSeconds' | 'maxRetries', value: string, min: number, max = Infinity) => {
+    setDraft(prev => ({ ...prev, [field]: Math.min(max, Math.max(min, Math.round(Number(value) || 0))) }));
+  };
+
+  const needsBaseUrl = draft.provider === 'openai' || draft.provider === 'ollama';
+  const needsApiKey = draft.provider === 'gemini' || draft.provider === 'openai';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 px-4 no-print">
+      <div className="bg-white rounded-xl shadow-xl border border-slate-200 w-full max-w-lg">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h3 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <Cpu size={20} className="text-indigo-600" />
+            Proveedor de IA
+          </h3>
+          <button onClick={onClose} className="p-1 rounded text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Proveedor</label>
+            <select
+              value={draft.provider}
+              onChange={(e) => handleProviderChange(e.target.value as LLMProviderId)}
+              className={inputClassName}
+            >
+              {(Object.keys(PROVIDER_LABELS) as LLMProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Modelo</label>
+            <input
+              type="text"
+              value={draft.model}
+              onChange={(e) => update('model', e.target.value)}
+              className={inputClassName}
+              disabled={draft.provider === 'mock'}
+            />
+          </div>
+
+          {needsBaseUrl && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">URL base</label>
+              <input
+                type="text"
+                value={draft.baseUrl}
+                onChange={(e) => update('baseUrl', e.target.value)}
+                className={inputClassName}
+                placeholder={PROVIDER_DEFAULTS[draft.provider].baseUrl}
+              />
+              {draft.provider === 'openai' && (
+                <p className="text-xs text-slate-400 mt-1">Sirve para OpenAI, Azure, vLLM o un servidor llama.cpp (ej. http://localhost:8080/v1).</p>
+              )}
+            </div>
+          )}
+
+          {needsApiKey && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">API Key</label>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => update('apiKey', e.target.value)}
+                className={inputClassName}
+                placeholder="Vacío = usar la clave configurada en el entorno"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Tiempo de espera (s)</label>
+              <input
+                type="number"
+                min={5}
+                value={draft.timeoutSeconds}
+                onChange={(e) => updateNumber('timeoutSeconds', e.target.value, 5)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Reintentos</label>
+              <input
+                type="number"
+                min={0}
+                max={5}
+                value={draft.maxRetries}
+                onChange={(e) => updateNumber('maxRetries', e.target.value, 0, 5)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-slate-400 -mt-2">
+            Se cancela un intento si el proveedor no envía nada durante ese tiempo. Los errores de red, de cuota o de formato se reintentan automáticamente.
+          </p>
+
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-slate-500">
+              El proveedor simulado genera respuestas deterministas sin conexión. Útil para demos y pruebas, no para estimaciones reales.
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-100 bg-slate-50 rounded-b-xl">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm"
+          >
+            Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,279 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { MessageSquare, Send, Loader2, Check, X, ChevronDown, ChevronUp, Sparkles } from 'lucide-react';
+import { EstimateEdits, EstimationResult, ProjectMetadata, RefinementTurn } from '../types';
+import { refineEstimate, RefinementProposal } from '../services/estimationService';
+import { diffEstimates, isEmptyDiff } from '../services/estimationDiff';
+import { formatCurrency } from '../services/estimationMath';
+import { LLMError } from '../services/llm';
+import { Delta, KindBadge } from './DiffBadges';
+
+interface RefinementChatProps {
+  // Estimate as the dashboard shows it, with the user's edits applied
+  current: EstimationResult;
+  metadata: ProjectMetadata;
+  edits: EstimateEdits;
+  refinements: RefinementTurn[];
+  onAccept: (proposal: RefinementProposal) => void;
+  onReject: (proposal: RefinementProposal) => void;
+}
+
+const EXAMPLES = [
+  'Quita el panel de administración',
+  'Usa React Native en lugar de Swift y Kotlin',
+  'Agrega inicio de sesión único (SSO)'
+];
+
+/**
+ * Chat to change an estimate with plain instructions. Each answer is a
+ * proposal shown as a diff against the current estimate, which the user
+ * accepts (as a new version) or discards.
+ */
+const RefinementChat: React.FC<RefinementChatProps> = ({ current, metadata, edits, refinements, onAccept, onReject }) => {
+  const [isOpen, setIsOpen] = useState(refinements.length > 0);
+  const [instruction, setInstruction] = useState('');
+  const [proposal, setProposal] = useState<RefinementProposal | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [error, setError] = useState('');
+  const controller = useRef<AbortController | null>(null);
+
+  const currency = metadata.currency;
+  const money = (value: number) => formatCurrency(value, currency);
+
+  // Rate overrides stay in place after accepting, so both sides use them
+  const diff = useMemo(() => proposal && diffEstimates(
+    { result: current, edits: { roleRates: edits.roleRates }, metadata },
+    { result: proposal.result, edits: { roleRates: edits.roleRates }, metadata }
+  ), [proposal, current, edits.roleRates, metadata]);
+
+  const handleSend = async () => {
+    const text = instruction.trim();
+    if (!text || isRefining) return;
+    setError('');
+    setIsRefining(true);
+    controller.current = new AbortController();
+    try {
+      setProposal(await refineEstimate(current, metadata, text, refinements, undefined, controller.current.signal));
+      setInstruction('');
+    } catch (err: any) {
+      if (!(err instanceof LLMError && err.kind === 'cancelled')) {
+        console.error("Error refining estimate:", err);
+        setError(err.message || 'No se pudo aplicar la instrucción.');
+      }
+    } finally {
+      setIsRefining(false);
+      controller.current = null;
+    }
+  };
+
+  const handleAccept = () => {
+    if (!proposal) return;
+    onAccept(proposal);
+    setProposal(null);
+  };
+
+  const handleReject = () => {
+    if (!proposal) return;
+    onReject(proposal);
+    setProposal(null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md border border-slate-200 mb-8 no-print">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-2 p-6 text-left"
+      >
+        <span className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+          <MessageSquare size={20} className="text-slate-400" />
+          Refinar con IA
+          {refinements.length > 0 && <span className="text-xs font-medium text-slate-400">({refinements.length})</span>}
+        </span>
+        {isOpen ? <ChevronUp size={18} className="text-slate-400" /> : <ChevronDown size={18} className="text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-6 pb-6">
+          <p className="text-sm text-slate-500 mb-4">
+            Pide cambios concretos sobre esta estimación; la IA conserva todo lo demás y te muestra las diferencias antes de aplicarlas. Al aceptar se guarda una nueva versión.
+          </p>
+
+          {refinements.length > 0 && (
+            <ul className="space-y-3 mb-4">
+              {refinements.map((turn, idx) => (
+                <li key={idx} className="space-y-1">
+                  <div className="ml-auto max-w-[80%] w-fit bg-indigo-600 text-white text-sm rounded-lg rounded-br-none px-3 py-2">
+                    {turn.instruction}
+                  </div>
+                  <div className="max-w-[80%] w-fit bg-slate-100 text-slate-700 text-sm rounded-lg rounded-bl-none px-3 py-2">
+                    <span className={`inline-block mb-1 text-[10px] uppercase font-bold ${turn.accepted ? 'text-emerald-700' : 'text-slate-400'}`}>
+                      {turn.accepted ? 'Aplicado' : 'Descartado'}
+                    </span>
+                    <p className="whitespace-pre-line">{turn.summary}</p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {proposal && diff && (
+            <div className="border border-indigo-100 bg-indigo-50/50 rounded-lg p-4 mb-4">
+              <div className="flex items-start gap-2 mb-3">
+                <Sparkles size={16} className="text-indigo-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <div className="text-xs text-slate-500 mb-1">"{proposal.instruction}"</div>
+                  <p className="text-sm text-slate-800 whitespace-pre-line">{proposal.summary}</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3 mb-3 text-xs">
+                {[
+                  { label: 'Costo', before: diff.totals.costBefore, after: diff.totals.costAfter, format: money },
+                  { label: 'Horas', before: diff.totals.hoursBefore, after: diff.totals.hoursAfter, format: (v: number) => `${v} h` },
+                  { label: 'Semanas', before: diff.totals.weeksBefore, after: diff.totals.weeksAfter, format: (v: number) => `${v} sem` }
+                ].map(kpi => (
+                  <div key={kpi.label} className="bg-white rounded border border-slate-200 p-2">
+                    <div className="font-bold uppercase text-slate-500">{kpi.label}</div>
+                    <div className="text-sm font-semibold text-slate-900">{kpi.format(kpi.after)}</div>
+                    <Delta value={kpi.after - kpi.before} format={kpi.format} />
+                  </div>
+                ))}
+              </div>
+
+              {isEmptyDiff(diff) ? (
+                <p className="text-xs text-slate-500 italic mb-3">La propuesta no cambia la estimación.</p>
+              ) : (
+                <ul className="space-y-2 mb-3 max-h-72 overflow-y-auto">
+                  {diff.phases.map((phase, idx) => (
+                    <li key={`phase-${idx}`} className="text-xs">
+                      <div className="flex items-center gap-2 text-slate-800 font-medium">
+                        <KindBadge kind={phase.kind} />
+                        <span className="truncate">{phase.name}</span>
+                      </div>
+                      {phase.taskChanges.length > 0 && (
+                        <ul className="ml-4 mt-1 space-y-0.5">
+                          {phase.taskChanges.map((task, tIdx) => (
+                            <li key={tIdx} className="flex items-center gap-2 text-slate-600">
+                              <KindBadge kind={task.kind} />
+                              <span className="truncate">{task.name}</span>
+                              <span className="ml-auto flex-shrink-0 text-slate-500">
+                                {task.kind === 'changed'
+                                  ? `${task.before!.hours} → ${task.after!.hours} h`
+                                  : `${(task.after ?? task.before)!.hours} h`}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                  {diff.risks.map((change, idx) => (
+                    <li key={`risk-${idx}`} className="flex items-start gap-2 text-xs text-slate-600">
+                      <KindBadge kind={change.kind} />
+                      <span>Riesgo: {change.risk.risk}</span>
+                    </li>
+                  ))}
+                  {diff.techStack.map((change, idx) => (
+                    <li key={`tech-${idx}`} className="flex items-start gap-2 text-xs text-slate-600">
+                      <KindBadge kind={change.kind} />
+                      <span>Tecnología: {change.technology}</span>
+                    </li>
+                  ))}
+                  {diff.assumptions.map((change, idx) => (
+                    <li key={`assumption-${idx}`} className="flex items-start gap-2 text-xs text-slate-600">
+                      <KindBadge kind={change.kind} />
+                      <span>Supuesto: {change.assumption.description}</span>
+                    </li>
+                  ))}
+                  {diff.exclusions.map((change, idx) => (
+                    <li key={`exclusion-${idx}`} className="flex items-start gap-2 text-xs text-slate-600">
+                      <KindBadge kind={change.kind} />
+                      <span>Fuera de alcance: {change.exclusion.description}</span>
+                    </li>
+                  ))}
+                  {diff.summary && (
+                    <li className="text-xs text-slate-600">
+                      <div className="flex items-center gap-2 mb-1">
+                        <KindBadge kind="changed" />
+                        <span>Resumen ejecutivo</span>
+                      </div>
+                      <p className="ml-4 line-through text-slate-400">{diff.summary.before}</p>
+                      <p className="ml-4 text-slate-700">{diff.summary.after}</p>
+                    </li>
+                  )}
+                </ul>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={handleReject}
+                  className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+                >
+                  <X size={16} />
+                  Descartar
+                </button>
+                <button
+                  onClick={handleAccept}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm"
+                >
+                  <Check size={16} />
+                  Aceptar cambios
+                </button>
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+          {!proposal && (
+            <>
+              {refinements.length === 0 && !isRefining && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {EXAMPLES.map(example => (
+                    <button
+                      key={example}
+                      onClick={() => setInstruction(example)}
+                      className="text-xs px-2 py-1 rounded-full border border-slate-200 text-slate-600 hover:bg-slate-50"
+                    >
+                      {example}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+                  disabled={isRefining}
+                  placeholder="Ej.: Quita el módulo de reportes y agrega pagos con Stripe"
+                  className="flex-1 rounded-lg border-slate-300 border p-2.5 bg-slate-50 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm disabled:opacity-50"
+                />
+                {isRefining ? (
+                  <button
+                    onClick={() => controller.current?.abort()}
+                    className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+                  >
+                    <Loader2 size={16} className="animate-spin" />
+                    Cancelar
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleSend}
+                    disabled={!instruction.trim()}
+                    className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors shadow-sm disabled:opacity-50"
+                  >
+                    <Send size={16} />
+                    Enviar
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RefinementChat;
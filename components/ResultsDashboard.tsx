@@ -1,134 +1,82 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { EstimationResult, PhaseEstimate, PhaseTask } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Complexity, Dependency, EstimateEdits, EstimationResult, PhaseEstimate, ProjectMetadata, RefinementTurn, TeamRole } from '../types';
 import { 
   PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip,
   BarChart, Bar, XAxis, YAxis, CartesianGrid 
 } from 'recharts';
-import { Clock, DollarSign, Users, AlertTriangle, Layers, Download, FileCode, UserCircle, Calendar, Briefcase, Activity, ChevronDown, ChevronUp, CheckCircle2, Edit2 } from 'lucide-react';
+import { Clock, DollarSign, Users, AlertTriangle, Layers, Download, FileCode, FileSpreadsheet, FileJson, UserCircle, ChevronDown, KanbanSquare, Calendar, Briefcase, Activity, Edit2, GitBranch, GitCompare, Plus, Save, Table, Loader2, HelpCircle } from 'lucide-react';
+import ValidationPanel from './ValidationPanel';
+import PhaseCard from './PhaseCard';
+import ConfidencePanel from './ConfidencePanel';
+import RefinementChat from './RefinementChat';
+import AssumptionsPanel from './AssumptionsPanel';
+import { RefinementProposal } from '../services/estimationService';
+import { CLARIFICATION_TOPIC_LABELS } from '../services/clarifications';
+import { prdCheckLabel } from '../services/prdQuality';
+import { ConfidenceBadge } from './PRDQualityPanel';
+import { applyEdits, applyRoleRates, formatCurrency, resolveRate, sanitizeRole } from '../services/estimationMath';
+import { buildWorkWeeks, COUNTRY_HOLIDAYS, describeWorkingDays, formatShortDate, parseISODate, roadmapItemDates, weeklyHours } from '../services/workCalendar';
+import { hasDependencies, inferPhaseDependencies, scheduleToRoadmap } from '../services/scheduler';
+import { levelResources, roleWeeklyCapacity } from '../services/resourceLeveling';
+import { simulateEstimate, SimulationResult } from '../services/monteCarlo';
+import { downloadTasksCSV, downloadXLSX, SpreadsheetContext } from '../services/spreadsheetExport';
+import { downloadPdfReport } from '../services/pdfReport';
+import { downloadHtmlReport } from '../services/htmlReport';
+import { captureCharts, captureChartSvgs } from '../services/chartCapture';
+import { downloadAzureBoardsCSV, downloadJiraCSV, downloadMSProjectXML, TrackerExportContext } from '../services/trackerExport';
 
 interface ResultsDashboardProps {
   data: EstimationResult;
+  metadata: ProjectMetadata;
+  edits: EstimateEdits;
+  onEditsChange: (edits: EstimateEdits) => void;
+  onMetadataChange: (changes: Partial<ProjectMetadata>) => void;
+  versionName: string;
+  onSaveVersion: () => void;
+  onReviseVersion: () => void;
+  onCompareVersions: () => void;
+  // Downloads the estimate with its edits as JSON, to reopen it with Importar
+  onExportFile: () => void;
+  // Instructions already sent to the refinement chat for this version
+  refinements: RefinementTurn[];
+  onAcceptRefinement: (proposal: RefinementProposal) => void;
+  onRejectRefinement: (proposal: RefinementProposal) => void;
   onReset: () => void;
 }
 
 const COLORS = ['#4f46e5', '#8b5cf6', '#ec4899', '#f43f5e', '#f97316', '#eab308', '#22c55e', '#06b6d4'];
 
-const formatCurrency = (value: number, currency: string) => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    maximumFractionDigits: 0
-  }).format(value);
-};
-
-// Helper to create a safe ID for roles to use as keys
-const sanitizeRole = (role: string) => role.replace(/\s+/g, '_').toLowerCase();
-
-const PhaseCard: React.FC<{ 
-  phase: PhaseEstimate; 
-  currency: string;
-  roleRates: Record<string, string | number>;
-}> = ({ phase, currency, roleRates }) => {
-  const [isOpen, setIsOpen] = useState(false);
-
-  // Recalculate phase specific costs based on dynamic rates
-  const dynamicTasks = phase.tasks.map(task => {
-    const rawRate = roleRates[sanitizeRole(task.assignedRole)];
-    // Use dynamic rate if available (even if 0), otherwise fallback to task rate. 
-    // If rawRate is an empty string (user cleared input), treat as 0.
-    const rate = rawRate !== undefined && rawRate !== '' ? Number(rawRate) : (rawRate === '' ? 0 : task.hourlyRate);
-    
-    return {
-      ...task,
-      hourlyRate: rate,
-      cost: task.hours * rate
-    };
-  });
+const TRACKER_EXPORTS: { label: string; hint: string; download: (context: TrackerExportContext) => void }[] = [
+  { label: 'Jira (CSV)', hint: 'Fases como épicas y tareas como historias', download: downloadJiraCSV },
+  { label: 'Azure Boards (CSV)', hint: 'Fases como features y tareas como tasks', download: downloadAzureBoardsCSV },
+  { label: 'MS Project (XML)', hint: 'Plan con fechas, dependencias y recursos', download: downloadMSProjectXML }
+];
+
+const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, metadata, edits, onEditsChange, onMetadataChange, versionName, onSaveVersion, onReviseVersion, onCompareVersions, onExportFile, refinements, onAcceptRefinement, onRejectRefinement, onReset }) => {
+  const { calendar } = metadata;
+  const hoursPerWeek = weeklyHours(calendar);
+
+  // Phase and roadmap edits replace the model output as a whole. Estimates
+  // saved before dependencies existed get them from their roadmap, so that
+  // editing one phase does not drop the order of the others.
+  const roadmap = edits.roadmap ?? data.roadmap;
+  const phases = useMemo(() => {
+    const current = edits.phases ?? data.phases;
+    return hasDependencies(current) ? current : inferPhaseDependencies(current, roadmap, calendar);
+  }, [edits.phases, data.phases, roadmap, calendar]);
+  const assumptions = edits.assumptions ?? data.assumptions;
+  const exclusions = edits.exclusions ?? data.exclusions;
+
+  // What the refinement chat sends to the model: the estimate as shown here
+  const editedData = useMemo(() => applyEdits(data, edits, metadata), [data, edits, metadata]);
 
-  const dynamicPhaseCost = dynamicTasks.reduce((acc, t) => acc + t.cost, 0);
-
-  return (
-    <div className="border border-slate-200 rounded-lg overflow-hidden transition-all duration-200 hover:shadow-md bg-white">
-      <button 
-        onClick={() => setIsOpen(!isOpen)}
-        className="w-full text-left p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-white hover:bg-slate-50 transition-colors"
-      >
-        <div className="flex-grow">
-          <div className="flex items-center gap-3 mb-2">
-             {isOpen ? <ChevronUp className="text-indigo-500" size={20} /> : <ChevronDown className="text-slate-400" size={20} />}
-             <h4 className="font-bold text-slate-900 text-lg">{phase.name}</h4>
-             <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded-full border ${
-                phase.complexity === 'Alta' ? 'bg-red-50 text-red-700 border-red-100' : 
-                phase.complexity === 'Media' ? 'bg-orange-50 text-orange-700 border-orange-100' : 
-                'bg-emerald-50 text-emerald-700 border-emerald-100'
-             }`}>
-               Complejidad: {phase.complexity}
-             </span>
-          </div>
-          <p className="text-sm text-slate-500 line-clamp-1">{phase.description}</p>
-        </div>
-
-        <div className="flex flex-wrap items-center gap-4 text-sm flex-shrink-0">
-            <div className="flex flex-col items-end">
-              <span className="font-bold text-slate-900">{formatCurrency(dynamicPhaseCost, currency)}</span>
-              <span className="text-xs text-slate-500">{phase.estimatedHours} hs</span>
-            </div>
-        </div>
-      </button>
-
-      {isOpen && (
-        <div className="px-6 pb-6 pt-2 bg-slate-50 border-t border-slate-100">
-          <p className="text-sm text-slate-700 mb-4 leading-relaxed p-3 bg-white rounded border border-slate-200">
-            {phase.description}
-          </p>
-          
-          <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-3 flex items-center gap-2">
-            <CheckCircle2 size={14} />
-            Detalle de Tareas
-          </h5>
-          <div className="overflow-x-auto border border-slate-200 rounded-lg bg-white">
-            <table className="min-w-full text-sm">
-              <thead className="bg-slate-100 text-slate-600 font-medium text-xs uppercase">
-                <tr>
-                  <th className="px-4 py-2 text-left">Tarea / Actividad</th>
-                  <th className="px-4 py-2 text-left">Rol Ejecutor</th>
-                  <th className="px-4 py-2 text-right">Valor Hora</th>
-                  <th className="px-4 py-2 text-right w-24">Horas</th>
-                  <th className="px-4 py-2 text-right w-32">Costo Total</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-100">
-                {dynamicTasks.length > 0 ? (
-                  dynamicTasks.map((task, idx) => (
-                    <tr key={idx} className="hover:bg-slate-50">
-                      <td className="px-4 py-2 text-slate-700">{task.name}</td>
-                      <td className="px-4 py-2 text-slate-600 text-xs font-medium">
-                        <span className="px-2 py-0.5 bg-slate-100 rounded">{task.assignedRole}</span>
-                      </td>
-                      <td className="px-4 py-2 text-right text-slate-500 text-xs">{formatCurrency(task.hourlyRate, currency)}</td>
-                      <td className="px-4 py-2 text-right text-slate-500">{task.hours}</td>
-                      <td className="px-4 py-2 text-right text-slate-900 font-medium">{formatCurrency(task.cost, currency)}</td>
-                    </tr>
-                  ))
-                ) : (
-                   <tr>
-                      <td colSpan={5} className="px-4 py-4 text-center text-slate-400 italic">No hay desglose de tareas disponible.</td>
-                   </tr>
-                )}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      )}
-    </div>
-  );
-};
-
-const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) => {
   // State to manage editable rates. Stores string | number to allow flexible editing (e.g. empty string or decimals)
   const [roleRates, setRoleRates] = useState<Record<string, string | number>>({});
+  const [showTrackerMenu, setShowTrackerMenu] = useState(false);
+  const [isExportingPDF, setIsExportingPDF] = useState(false);
+  const dashboardRef = useRef<HTMLDivElement>(null);
 
-  // Initialize rates from the API data ONCE
+  // Initialize rates from the API data ONCE, then re-apply any saved edits
   useEffect(() => {
     const initialRates: Record<string, number> = {};
     // Prioritize rates from costBreakdown if available, otherwise extract from tasks
@@ -137,7 +85,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
     });
     
     // Fallback: Scan tasks to ensure we catch all roles
-    data.phases.forEach(phase => {
+    phases.forEach(phase => {
         phase.tasks.forEach(task => {
             const key = sanitizeRole(task.assignedRole);
             if (!initialRates[key]) {
@@ -145,7 +93,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
             }
         });
     });
-    setRoleRates(initialRates);
+    setRoleRates({ ...initialRates, ...edits.roleRates });
   }, [data]);
 
   // Core Calculation Logic: Derived from Tasks to ensure consistency
@@ -154,18 +102,18 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
     let totalCost = 0;
     let totalHours = 0;
     
-    const processedPhases = data.phases.map(phase => {
+    const processedPhases = phases.map(phase => {
       let phaseCost = 0;
+      let phaseHours = 0;
       phase.tasks.forEach(task => {
           const roleKey = sanitizeRole(task.assignedRole);
-          const rawRate = roleRates[roleKey];
-          // Use edited rate if it exists, else task rate. Handle empty string as 0.
-          const rate = rawRate !== undefined && rawRate !== '' ? Number(rawRate) : (rawRate === '' ? 0 : task.hourlyRate);
-          
+          const rate = resolveRate(roleRates, task);
+
           const taskCost = task.hours * rate;
           
           // Aggregate for Phase
           phaseCost += taskCost;
+          phaseHours += task.hours;
 
           // Aggregate for Breakdown
           if (!breakdownMap[roleKey]) {
@@ -178,7 +126,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
           totalHours += task.hours;
           totalCost += taskCost;
       });
-      return { ...phase, estimatedCost: phaseCost }; // Return phase with recalculated cost
+      return { ...phase, estimatedCost: phaseCost, estimatedHours: phaseHours }; // Return phase with recalculated totals
     });
 
     const breakdownList = Object.values(breakdownMap).map(item => ({
@@ -207,171 +155,196 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
         timelineData: timeline,
         phasesWithDynamicCost: processedPhases
     };
-  }, [data, roleRates]);
+  }, [phases, roleRates]);
+
+  // Critical path over task hours and dependencies, then leveled to the
+  // people of each role; the roadmap, slack and critical phases all come
+  // from the leveled plan
+  const leveled = useMemo(() => levelResources(phases, calendar, metadata.roster), [phases, calendar, metadata.roster]);
+  const scheduledRoadmap = useMemo(() => scheduleToRoadmap(leveled, roadmap), [leveled, roadmap]);
+  const phaseSchedules = new Map(leveled.phases.map(p => [p.name, p]));
+  const calculatedWeeks = leveled.durationWeeks;
+
+  // The simulation levels hundreds of plans, so it waits for edits to settle
+  // and a newer edit cancels the run in progress
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      simulateEstimate(phases, { calendar, roster: metadata.roster, rateOf: task => resolveRate(roleRates, task) }, controller.signal)
+        .then(setSimulation)
+        .catch(err => {
+          if (!controller.signal.aborted) console.error("Error simulating estimate:", err);
+        });
+    }, 400);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [phases, calendar, metadata.roster, roleRates]);
+
+  // "What if" on the team size only changes the plan of this estimate
+  const handleCapacityChange = (roleName: string, changes: Partial<TeamRole>) => {
+    onMetadataChange({ roster: metadata.roster.map(role => role.name === roleName ? { ...role, ...changes } : role) });
+  };
 
   const handleRateChange = (role: string, newRate: string) => {
     // Allow empty string for clearing or valid number format
     if (newRate === '' || /^\d*\.?\d*$/.test(newRate)) {
-        setRoleRates(prev => ({
-            ...prev,
-            [sanitizeRole(role)]: newRate
-        }));
+        const nextRates = { ...roleRates, [sanitizeRole(role)]: newRate };
+        setRoleRates(nextRates);
+        onEditsChange({ ...edits, roleRates: nextRates });
     }
   };
 
-  // Calculate weeks based on Roadmap (Critical Path), fallback to hours/24 if roadmap empty
-  const calculatedWeeks = data.roadmap && data.roadmap.length > 0 
-    ? Math.max(...data.roadmap.map(r => r.endWeek))
-    : Math.ceil(totalCalculatedHours / 24);
+  // Rate for a role as currently shown: edited rate, then the model's rate, then 0
+  const rateForRole = (role: string): number => {
+    const edited = roleRates[sanitizeRole(role)];
+    if (edited !== undefined) return edited === '' ? 0 : Number(edited);
+    return data.hourlyRates.find(r => r.role === role)?.rate ?? 0;
+  };
+
+  const roleOptions = useMemo(
+    () => Array.from(new Set<string>([...data.hourlyRates.map(r => r.role), ...phases.flatMap(p => p.tasks.map(t => t.assignedRole))])),
+    [data, phases]
+  );
+
+  // Applies `update` to the dependency list of every phase that has one
+  const mapPhaseDependencies = (list: PhaseEstimate[], update: (dependsOn: Dependency[]) => Dependency[]) =>
+    list.map(phase => phase.dependsOn ? { ...phase, dependsOn: update(phase.dependsOn) } : phase);
+
+  // Phases carry no id; these card keys follow them through additions and
+  // deletions so each card keeps its own open state and task rows
+  const phaseKeyCounter = useRef(0);
+  const phaseKeys = useRef<number[]>([]);
+  if (phaseKeys.current.length !== phases.length) {
+    phaseKeys.current = phases.map(() => phaseKeyCounter.current++);
+  }
+
+  const handlePhaseChange = (index: number, updated: PhaseEstimate) => {
+    const previousName = phases[index].name;
+    let nextPhases = phases.map((phase, idx) => idx === index ? updated : phase);
+    if (previousName === updated.name) {
+      onEditsChange({ ...edits, phases: nextPhases, roadmap });
+      return;
+    }
+    // Keep the roadmap and the dependencies attached to the phase when it is renamed
+    nextPhases = mapPhaseDependencies(nextPhases, deps => deps.map(d => d.name === previousName ? { ...d, name: updated.name } : d));
+    const nextRoadmap = roadmap.map(item => item.phaseName === previousName ? { ...item, phaseName: updated.name } : item);
+    onEditsChange({ ...edits, phases: nextPhases, roadmap: nextRoadmap });
+  };
+
+  const handlePhaseDelete = (index: number) => {
+    const phase = phases[index];
+    if (!window.confirm(`¿Eliminar la fase "${phase.name}" y sus tareas?`)) return;
+    phaseKeys.current = phaseKeys.current.filter((_, idx) => idx !== index);
+    onEditsChange({
+      ...edits,
+      phases: mapPhaseDependencies(phases.filter((_, idx) => idx !== index), deps => deps.filter(d => d.name !== phase.name)),
+      roadmap: roadmap.filter(item => item.phaseName !== phase.name)
+    });
+  };
+
+  const handlePhaseAdd = () => {
+    const role = roleOptions[0] ?? 'Sin rol';
+    const hourlyRate = rateForRole(role);
+    const hours = 24;
+    // Dependencies and the roadmap refer to phases by name, so it must be new
+    const names = new Set(phases.map(p => p.name.trim().toLowerCase()));
+    let name = `Nueva fase ${phases.length + 1}`;
+    for (let n = phases.length + 2; names.has(name.toLowerCase()); n++) name = `Nueva fase ${n}`;
+    // New phases go after the ones that currently finish last
+    const lastFinish = Math.max(0, ...leveled.phases.map(p => p.finish));
+    const newPhase: PhaseEstimate = {
+      name,
+      description: '',
+      estimatedHours: hours,
+      estimatedCost: hours * hourlyRate,
+      complexity: Complexity.MEDIUM,
+      assignedRole: role,
+      tasks: [{ name: 'Nueva tarea', hours, cost: hours * hourlyRate, assignedRole: role, hourlyRate }],
+      dependsOn: leveled.phases.filter(p => lastFinish > 0 && p.finish === lastFinish).map(p => ({ name: p.name }))
+    };
+    phaseKeys.current = [...phaseKeys.current, phaseKeyCounter.current++];
+    onEditsChange({ ...edits, phases: [...phases, newPhase], roadmap });
+  };
 
   const currency = data.totalEstimatedCost.currency;
 
-  const handlePrintPDF = () => {
-    window.print();
+  // The estimate as shown: edited phases, leveled roadmap, edited rates and
+  // the assumptions and exclusions without the rows left blank
+  const exportEstimate = () => applyRoleRates({
+    ...data,
+    phases,
+    roadmap: scheduledRoadmap,
+    assumptions: assumptions.filter(a => a.description.trim()),
+    exclusions: exclusions.filter(e => e.description.trim())
+  }, roleRates);
+
+  const exportContext = (): SpreadsheetContext => ({
+    estimate: exportEstimate(),
+    metadata,
+    durationWeeks: calculatedWeeks,
+    workWeeks,
+    criticalPhases: leveled.phases.filter(p => p.critical).map(p => p.name),
+    simulation
+  });
+
+  // Built with jsPDF instead of window.print(), so the layout does not depend on the browser
+  const handleDownloadPDF = async () => {
+    if (!dashboardRef.current) return;
+    setIsExportingPDF(true);
+    try {
+      const charts = await captureCharts(dashboardRef.current);
+      downloadPdfReport({ ...exportContext(), versionName, charts, phaseColors: COLORS });
+    } catch (error) {
+      console.error("Error generating PDF:", error);
+      window.alert('No se pudo generar el PDF.');
+    } finally {
+      setIsExportingPDF(false);
+    }
   };
 
-  const handleDownloadHTML = () => {
-    // Re-construct HTML using the CALCULATED values, not the original raw data
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html lang="es">
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Estimación: ${data.projectName}</title>
-        <script src="https://cdn.tailwindcss.com"></script>
-        <style>body { font-family: system-ui, sans-serif; }</style>
-      </head>
-      <body class="bg-slate-50 text-slate-900 p-8">
-        <div class="max-w-4xl mx-auto bg-white p-8 rounded-xl shadow-lg">
-          <h1 class="text-3xl font-bold text-indigo-700 mb-2">${data.projectName}</h1>
-          <div class="flex justify-between text-sm text-slate-500 mb-6">
-            <span>Solicitado por: ${data.requesterName}</span>
-            <span>Fecha: ${data.requestDate}</span>
-          </div>
-          <div class="bg-slate-50 p-4 rounded-lg mb-6">
-            <h2 class="font-bold mb-2">Resumen Ejecutivo</h2>
-            <p>${data.executiveSummary}</p>
-          </div>
-          <div class="grid grid-cols-3 gap-4 mb-8">
-             <div class="p-4 bg-green-50 rounded-lg text-center">
-               <div class="text-green-800 font-bold text-xl">${formatCurrency(totalCalculatedCost, currency)}</div>
-               <div class="text-xs text-green-600">Costo Total Estimado</div>
-             </div>
-             <div class="p-4 bg-blue-50 rounded-lg text-center">
-               <div class="text-blue-800 font-bold text-xl">${calculatedWeeks} Semanas</div>
-               <div class="text-xs text-blue-600">Duración Estimada (Ruta Crítica)</div>
-             </div>
-             <div class="p-4 bg-indigo-50 rounded-lg text-center">
-               <div class="text-indigo-800 font-bold text-xl">${totalCalculatedHours} Hs</div>
-               <div class="text-xs text-indigo-600">Horas Totales</div>
-             </div>
-          </div>
+  const handleDownloadXLSX = () => {
+    downloadXLSX(exportContext());
+  };
 
-          <h2 class="text-xl font-bold mb-4">Desglose de Costos por Rol</h2>
-          <table class="w-full text-sm text-left text-slate-500 mb-8 border border-slate-200 rounded-lg overflow-hidden">
-             <thead class="text-xs text-slate-700 uppercase bg-slate-100">
-                <tr>
-                    <th class="px-4 py-2">Rol</th>
-                    <th class="px-4 py-2 text-right">Horas Totales</th>
-                    <th class="px-4 py-2 text-right">Tarifa/Hora</th>
-                    <th class="px-4 py-2 text-right">Subtotal</th>
-                </tr>
-             </thead>
-             <tbody>
-                ${calculatedBreakdown.map(r => `
-                  <tr class="bg-white border-b">
-                    <td class="px-4 py-2 font-medium text-slate-900">${r.role}</td>
-                    <td class="px-4 py-2 text-right">${r.totalHours} h</td>
-                    <td class="px-4 py-2 text-right">${formatCurrency(r.hourlyRate, currency)}</td>
-                    <td class="px-4 py-2 text-right font-bold text-slate-900">${formatCurrency(r.subtotalCost, currency)}</td>
-                  </tr>
-                `).join('')}
-                <tr class="bg-slate-100 font-bold text-slate-900">
-                  <td class="px-4 py-2">TOTAL</td>
-                  <td class="px-4 py-2 text-right">${totalCalculatedHours} h</td>
-                  <td class="px-4 py-2 text-right">-</td>
-                  <td class="px-4 py-2 text-right">${formatCurrency(totalCalculatedCost, currency)}</td>
-                </tr>
-             </tbody>
-          </table>
-
-          <h2 class="text-xl font-bold mb-4">Fases del Proyecto</h2>
-          <div class="space-y-6 mb-8">
-            ${phasesWithDynamicCost.map(p => `
-              <div class="border border-slate-200 rounded-lg overflow-hidden">
-                <div class="bg-slate-50 p-4 border-b border-slate-100">
-                    <div class="flex justify-between font-bold mb-1">
-                        <span>${p.name}</span>
-                        <span>${formatCurrency(p.estimatedCost, currency)}</span>
-                    </div>
-                    <div class="text-sm text-indigo-600">Responsable: ${p.assignedRole} | Esfuerzo: ${p.estimatedHours} hrs</div>
-                </div>
-                <div class="p-4">
-                    <p class="text-sm text-slate-600 mb-4">${p.description}</p>
-                    <table class="w-full text-xs text-left">
-                        <thead class="bg-slate-50 text-slate-500">
-                          <tr>
-                            <th class="p-2">Tarea</th>
-                            <th class="p-2">Rol</th>
-                            <th class="p-2 text-right">Tarifa</th>
-                            <th class="p-2 text-right">Hrs</th>
-                            <th class="p-2 text-right">Costo</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                        ${p.tasks ? p.tasks.map(t => {
-                           const rawRate = roleRates[sanitizeRole(t.assignedRole)];
-                           const tRate = rawRate !== undefined && rawRate !== '' ? Number(rawRate) : (rawRate === '' ? 0 : t.hourlyRate);
-                           
-                           return `
-                          <tr class="border-b border-slate-100">
-                            <td class="p-2">${t.name}</td>
-                            <td class="p-2 font-medium text-slate-600">${t.assignedRole}</td>
-                            <td class="p-2 text-right text-slate-400">${formatCurrency(tRate, currency)}</td>
-                            <td class="p-2 text-right">${t.hours}</td>
-                            <td class="p-2 text-right font-medium">${formatCurrency(t.hours * tRate, currency)}</td>
-                          </tr>`;
-                        }).join('') : '<tr><td colspan="5" class="p-2 italic">Ver detalle en app</td></tr>'}
-                        </tbody>
-                    </table>
-                </div>
-              </div>
-            `).join('')}
-          </div>
-          <div class="text-center text-xs text-slate-400 mt-10">Generado por PRD Estimator AI</div>
-        </div>
-      </body>
-      </html>
-    `;
-    const blob = new Blob([htmlContent], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `Estimacion-${data.projectName.replace(/\s+/g, '-')}.html`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleDownloadCSV = () => {
+    downloadTasksCSV(exportEstimate(), currency);
+  };
+
+  const handleTrackerExport = (download: (context: TrackerExportContext) => void) => {
+    setShowTrackerMenu(false);
+    download({ estimate: exportEstimate(), metadata, leveled });
+  };
+
+  // Inline styles and SVG charts, so the file opens offline and without the dashboard
+  const handleDownloadHTML = () => {
+    if (!dashboardRef.current) return;
+    downloadHtmlReport({
+      ...exportContext(),
+      versionName,
+      charts: captureChartSvgs(dashboardRef.current),
+      phaseColors: COLORS,
+      slackDays: Object.fromEntries(leveled.phases.map(p => [p.name, p.slack]))
+    });
   };
 
   // ---------------- ROADMAP LOGIC ----------------
 
-  // 1. Calculate Max Duration in Weeks
-  const maxDuration = Math.max(
-    data.totalEstimatedDurationWeeks.max, 
-    calculatedWeeks,
-    data.roadmap.length > 0 ? Math.max(...data.roadmap.map(r => r.endWeek)) : 0
-  );
+  // 1. Calculate Max Duration in Weeks (the critical path, at least one column)
+  const maxDuration = Math.max(1, calculatedWeeks);
   
-  // 2. Determine Project Start Date (1st of Next Month)
-  const projectStartDate = useMemo(() => {
-    const now = new Date();
-    // Month is 0-indexed. (now.getMonth() + 1) gets next month index.
-    return new Date(now.getFullYear(), now.getMonth() + 1, 1);
-  }, []);
+  // 2. Project Start Date, chosen by the user (week 1 starts on its first working day)
+  const projectStartDate = useMemo(() => parseISODate(metadata.startDate), [metadata.startDate]);
 
   // 3. Build Timeline Groups (Months -> Weeks)
+  // Project weeks follow the working calendar, so holidays push them later
+  const workWeeks = useMemo(
+    () => buildWorkWeeks(projectStartDate, maxDuration, calendar),
+    [projectStartDate, maxDuration, calendar]
+  );
+
   const timelineGroups = useMemo(() => {
     const groups: { monthLabel: string; weeks: number[] }[] = [];
     
@@ -383,13 +356,9 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
     let currentMonthLabel = '';
     let currentWeekList: number[] = [];
 
-    // Loop through every project week (1 to maxDuration)
-    for (let w = 1; w <= maxDuration; w++) {
-      // Calculate date for this week. (Week 1 starts on projectStartDate)
-      const weekStartDate = new Date(projectStartDate);
-      weekStartDate.setDate(projectStartDate.getDate() + (w - 1) * 7);
-      
-      const monthLabel = formatMonth(weekStartDate);
+    // Each project week belongs to the month of its first working day
+    workWeeks.forEach(week => {
+      const monthLabel = formatMonth(week.start);
 
       if (monthLabel !== currentMonthLabel) {
         // Push previous group if exists
@@ -398,25 +367,28 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
         }
         // Start new group
         currentMonthLabel = monthLabel;
-        currentWeekList = [w];
+        currentWeekList = [week.index];
       } else {
-        currentWeekList.push(w);
+        currentWeekList.push(week.index);
       }
-    }
+    });
     // Push final group
     if (currentWeekList.length > 0) {
       groups.push({ monthLabel: currentMonthLabel, weeks: currentWeekList });
     }
 
     return groups;
-  }, [maxDuration, projectStartDate]);
+  }, [workWeeks]);
 
   return (
-    <div className="w-full max-w-[95%] 2xl:max-w-[1800px] mx-auto px-4 py-8 sm:px-6 lg:px-8">
+    <div ref={dashboardRef} className="w-full max-w-[95%] 2xl:max-w-[1800px] mx-auto px-4 py-8 sm:px-6 lg:px-8">
       {/* Header Actions */}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4 no-print">
         <div>
-          <h2 className="text-3xl font-bold text-slate-900">Resultados de Estimación</h2>
+          <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-3">
+            Resultados de Estimación
+            <span className="text-xs font-bold px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 border border-indigo-100">{versionName}</span>
+          </h2>
           <p className="text-slate-500 text-sm mt-1">
             Proyecto: <span className="font-semibold text-slate-700">{data.projectName}</span> | 
             Solicitante: <span className="font-semibold text-slate-700">{data.requesterName}</span> | 
@@ -425,6 +397,29 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
         </div>
         
         <div className="flex gap-2 flex-wrap">
+          <button
+            onClick={onSaveVersion}
+            title="Guarda una copia de esta estimación, con tus ediciones, como nueva versión"
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <Save size={16} />
+            Guardar versión
+          </button>
+          <button
+            onClick={onReviseVersion}
+            title="Estima un PRD revisado como nueva versión de este proyecto"
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <GitBranch size={16} />
+            Re-estimar PRD
+          </button>
+          <button
+            onClick={onCompareVersions}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <GitCompare size={16} />
+            Comparar
+          </button>
            <button 
             onClick={handleDownloadHTML}
             className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
@@ -432,12 +427,62 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
             <FileCode size={16} />
             Descargar HTML
           </button>
-          <button 
-            onClick={handlePrintPDF}
+          <button
+            onClick={onExportFile}
+            title="Estimación completa con PRD y ediciones, para abrirla en otro equipo con Importar"
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <FileJson size={16} />
+            Exportar JSON
+          </button>
+          <button
+            onClick={handleDownloadXLSX}
+            title="Planilla con fórmulas: resumen, roles, fases, tareas, roadmap y riesgos"
             className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
           >
-            <Download size={16} />
-            Guardar PDF
+            <FileSpreadsheet size={16} />
+            Descargar XLSX
+          </button>
+          <button
+            onClick={handleDownloadCSV}
+            title="Lista plana de tareas"
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <Table size={16} />
+            CSV de tareas
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowTrackerMenu(open => !open)}
+              className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+            >
+              <KanbanSquare size={16} />
+              Exportar a gestor
+              <ChevronDown size={14} className="text-slate-400" />
+            </button>
+            {showTrackerMenu && (
+              <div className="absolute right-0 mt-2 w-64 bg-white border border-slate-200 rounded-lg shadow-lg z-20 py-1">
+                {TRACKER_EXPORTS.map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => handleTrackerExport(option.download)}
+                    className="w-full text-left px-4 py-2 hover:bg-slate-50"
+                  >
+                    <div className="text-sm font-medium text-slate-700">{option.label}</div>
+                    <div className="text-xs text-slate-400">{option.hint}</div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button 
+            onClick={handleDownloadPDF}
+            disabled={isExportingPDF}
+            title="Informe paginado con portada, índice, gráficos, cronograma, tareas y riesgos"
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors disabled:opacity-60"
+          >
+            {isExportingPDF ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {isExportingPDF ? 'Generando PDF...' : 'Descargar PDF'}
           </button>
           <button 
             onClick={onReset}
@@ -457,14 +502,51 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
         </div>
       </div>
 
+      {data.validationIssues && <ValidationPanel issues={data.validationIssues} />}
+
+      <RefinementChat
+        current={editedData}
+        metadata={metadata}
+        edits={edits}
+        refinements={refinements}
+        onAccept={onAcceptRefinement}
+        onReject={onRejectRefinement}
+      />
+
       {/* Executive Summary */}
       <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 mb-8 page-break-inside-avoid">
         <div className="flex flex-col xl:flex-row gap-8">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-3">
               <h3 className="text-xl font-semibold text-slate-900">Resumen Ejecutivo</h3>
+              {data.prdQuality && <ConfidenceBadge quality={data.prdQuality} />}
             </div>
+            {data.prdQuality && data.prdQuality.missing.length > 0 && (
+              <p className="text-xs text-slate-500 mb-3">
+                El PRD no cubre: {data.prdQuality.missing.map(prdCheckLabel).join(', ')}. La estimación asume lo más habitual en esos puntos.
+              </p>
+            )}
             <p className="text-slate-600 leading-relaxed text-justify mb-6">{data.executiveSummary}</p>
+
+            {data.clarifications && data.clarifications.length > 0 && (
+              <div className="rounded-lg p-4 border border-indigo-100 bg-indigo-50/40 mb-6">
+                <h4 className="text-sm font-bold text-slate-900 mb-3 flex items-center gap-2">
+                  <HelpCircle size={16} className="text-slate-500" />
+                  Aclaraciones del solicitante
+                </h4>
+                <ul className="space-y-2 text-xs">
+                  {data.clarifications.map((c, idx) => (
+                    <li key={idx}>
+                      <span className="font-bold uppercase text-[10px] text-indigo-700 mr-2">{CLARIFICATION_TOPIC_LABELS[c.topic]}</span>
+                      <span className="text-slate-700">{c.question}</span>
+                      <div className={c.answer ? 'text-slate-900 font-medium' : 'text-slate-400 italic'}>
+                        {c.answer ?? 'Sin respuesta: se asumió el escenario más habitual'}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
             <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
                 <h4 className="text-sm font-bold text-slate-900 mb-3 flex items-center gap-2">
@@ -539,6 +621,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
               </div>
               <div className="text-xs text-slate-500 mt-1">
                 Basado en {totalCalculatedHours} horas totales
+                {simulation && ` · P80: ${formatCurrency(simulation.cost.p80, currency)}`}
               </div>
             </div>
 
@@ -552,6 +635,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
               </div>
               <div className="text-xs text-slate-500 mt-1">
                 Rango inicial: {data.totalEstimatedHours.min} - {data.totalEstimatedHours.max} horas
+                {simulation && ` · P80: ${Math.round(simulation.hours.p80)} hs`}
               </div>
             </div>
 
@@ -564,7 +648,9 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
                 {calculatedWeeks} Semanas
               </div>
               <div className="text-xs text-slate-500 mt-1">
-                Basado en Roadmap (Ruta Crítica)
+                Ruta crítica nivelada según el equipo y el calendario
+                {leveled.unconstrained.durationWeeks !== calculatedWeeks && ` (${leveled.unconstrained.durationWeeks} sin límite de personas)`}
+                {simulation && ` · P80: ${simulation.weeks.p80} semanas`}
               </div>
             </div>
 
@@ -572,12 +658,89 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
         </div>
       </div>
 
+      <ConfidencePanel simulation={simulation} currency={currency} baseCost={totalCalculatedCost} baseWeeks={calculatedWeeks} />
+
       {/* Roadmap Visualization */}
       <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6 mb-8 page-break-inside-avoid">
-        <h3 className="text-lg font-semibold text-slate-900 mb-6 flex items-center gap-2">
-          <Calendar size={20} className="text-slate-400" />
-          Roadmap de Desarrollo
-        </h3>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+          <h3 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+            <Calendar size={20} className="text-slate-400" />
+            Roadmap de Desarrollo
+          </h3>
+          <label className="flex items-center gap-2 text-xs font-medium text-slate-500">
+            Inicio del proyecto
+            <input
+              type="date"
+              value={metadata.startDate}
+              onChange={(e) => e.target.value && onMetadataChange({ startDate: e.target.value })}
+              className="rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-700 bg-white focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </label>
+        </div>
+        <p className="text-xs text-slate-500 -mt-4 mb-2">
+          Semana laboral: {describeWorkingDays(calendar)} · {calendar.hoursPerDay} h/día ({hoursPerWeek} h/semana)
+          {calendar.country && ` · Feriados de ${COUNTRY_HOLIDAYS[calendar.country]?.label ?? calendar.country}`}
+          {calendar.customHolidays.length > 0 && ` + ${calendar.customHolidays.length} adicionales`}
+        </p>
+        <div className="flex flex-wrap items-center gap-4 text-[10px] text-slate-500 mb-6">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-500"></span> Ruta crítica (sin holgura)</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-indigo-500"></span> Con holgura</span>
+        </div>
+
+        <div className="mb-6 no-print">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2 flex items-center gap-2">
+            <Users size={14} />
+            Capacidad del equipo
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {metadata.roster.map(role => {
+              const overloaded = leveled.overloads.some(o => o.role === role.name);
+              return (
+                <div
+                  key={role.name}
+                  className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-xs ${overloaded ? 'border-amber-300 bg-amber-50' : 'border-slate-200 bg-slate-50'}`}
+                  title={`${roleWeeklyCapacity(role, calendar)} h disponibles por semana`}
+                >
+                  <span className="font-medium text-slate-700">{role.name}</span>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={role.headcount}
+                    onChange={(e) => {
+                      const headcount = parseInt(e.target.value, 10);
+                      if (headcount >= 1) handleCapacityChange(role.name, { headcount });
+                    }}
+                    className="w-12 rounded border border-slate-300 px-1 py-0.5 text-right bg-white"
+                    title="Personas"
+                  />
+                  <span className="text-slate-400">×</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max="100"
+                    step="5"
+                    value={role.allocation}
+                    onChange={(e) => {
+                      const allocation = parseInt(e.target.value, 10);
+                      if (allocation >= 1 && allocation <= 100) handleCapacityChange(role.name, { allocation });
+                    }}
+                    className="w-14 rounded border border-slate-300 px-1 py-0.5 text-right bg-white"
+                    title="Dedicación (%)"
+                  />
+                  <span className="text-slate-400">%</span>
+                </div>
+              );
+            })}
+          </div>
+          {leveled.warnings.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {leveled.warnings.map((warning, idx) => (
+                <li key={idx} className="flex items-start gap-1 text-[11px] text-amber-700"><AlertTriangle size={12} className="mt-0.5 flex-shrink-0" /> {warning}</li>
+              ))}
+            </ul>
+          )}
+        </div>
         
         <div className="relative overflow-x-auto">
           <div className="w-full min-w-[800px] md:min-w-0">
@@ -601,7 +764,11 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
                 <div className="flex-grow flex relative">
                    {/* We iterate 1..maxDuration to draw exactly one cell per week */}
                    {Array.from({ length: maxDuration }, (_, i) => i + 1).map(w => (
-                     <div key={w} className="flex-1 text-[10px] text-slate-400 text-center py-2 border-l border-slate-100">
+                     <div
+                       key={w}
+                       className="flex-1 text-[10px] text-slate-400 text-center py-2 border-l border-slate-100"
+                       title={workWeeks[w - 1] && `${workWeeks[w - 1].start.toLocaleDateString('es-ES')} - ${workWeeks[w - 1].end.toLocaleDateString('es-ES')}`}
+                     >
                         Sem {w}
                      </div>
                    ))}
@@ -617,7 +784,8 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
                     ))}
                  </div>
 
-                 {data.roadmap.map((item, idx) => {
+                 {scheduledRoadmap.map((item, idx) => {
+                   const phaseSchedule = phaseSchedules.get(item.phaseName);
                    // Defensive Calculation: Ensure startWeek is at least 1 (not 0)
                    const safeStart = Math.max(1, item.startWeek);
                    const safeEnd = Math.max(safeStart, item.endWeek);
@@ -626,23 +794,31 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
                    // Start Index (0-based) = safeStart - 1
                    const leftPercent = ((safeStart - 1) / maxDuration) * 100;
                    const widthPercent = ((safeEnd - safeStart + 1) / maxDuration) * 100;
+                   const dates = roadmapItemDates(item, workWeeks);
 
                    return (
-                    <div key={idx} className="flex items-center relative z-10 h-12 border-b border-slate-50 hover:bg-slate-50 transition-colors">
+                    <div key={idx} className="flex items-center relative z-10 h-14 border-b border-slate-50 hover:bg-slate-50 transition-colors">
                       <div className="w-64 flex-shrink-0 pr-4 pl-2 flex flex-col justify-center border-r border-slate-100 h-full">
                         <div className="text-sm font-medium text-slate-800 truncate" title={item.phaseName}>{item.phaseName}</div>
                         <div className="text-[10px] text-slate-500 truncate" title={item.milestone}>🚩 {item.milestone}</div>
+                        {dates && (
+                          <div className="text-[10px] text-indigo-600 truncate">{formatShortDate(dates.start)} → {formatShortDate(dates.end)}</div>
+                        )}
                       </div>
                       
                       {/* Bar Container */}
                       <div className="flex-grow relative h-full">
                         <div 
                           className={`absolute top-1/2 -translate-y-1/2 h-7 rounded shadow-sm flex items-center px-2 text-[10px] text-white font-medium whitespace-nowrap overflow-hidden transition-all duration-500
-                            ${idx % 2 === 0 ? 'bg-indigo-500' : 'bg-blue-500'}`}
+                            ${phaseSchedule?.critical ? 'bg-red-500 ring-2 ring-red-200' : idx % 2 === 0 ? 'bg-indigo-500' : 'bg-blue-500'}`}
                           style={{ 
                             left: `${leftPercent}%`, 
                             width: `${widthPercent}%` 
                           }}
+                          title={[
+                            dates && `${formatShortDate(dates.start)} - ${formatShortDate(dates.end)}`,
+                            phaseSchedule && (phaseSchedule.critical ? 'Ruta crítica' : `Holgura: ${phaseSchedule.slack} días hábiles`)
+                          ].filter(Boolean).join(' · ')}
                         >
                           {widthPercent > 5 && <span>Sem {safeStart}-{safeEnd}</span>}
                         </div>
@@ -663,7 +839,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
             Distribución de Presupuesto por Fase
           </h3>
           <div className="flex-grow flex flex-col md:flex-row items-center justify-center">
-            <div className="h-64 w-full md:w-2/3">
+            <div className="h-64 w-full md:w-2/3" data-pdf-chart="costByPhase">
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
                   <Pie
@@ -706,7 +882,7 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
             <Clock size={20} className="text-slate-400" />
             Esfuerzo Estimado por Fase
           </h3>
-          <div className="h-64">
+          <div className="h-64" data-pdf-chart="hoursByPhase">
              <ResponsiveContainer width="100%" height="100%">
               <BarChart data={timelineData} layout="vertical" margin={{ left: 0, right: 20 }}>
                 <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
@@ -740,6 +916,13 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
         </div>
       </div>
 
+      <AssumptionsPanel
+        assumptions={assumptions}
+        exclusions={exclusions}
+        onAssumptionsChange={(next) => onEditsChange({ ...edits, assumptions: next })}
+        onExclusionsChange={(next) => onEditsChange({ ...edits, exclusions: next })}
+      />
+
       {/* Detailed Breakdown Grid */}
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
         
@@ -751,8 +934,27 @@ const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, onReset }) =>
           </div>
           
           {phasesWithDynamicCost.map((phase, idx) => (
-            <PhaseCard key={idx} phase={phase} currency={currency} roleRates={roleRates} />
+            <PhaseCard
+              key={phaseKeys.current[idx]}
+              phase={phase}
+              currency={currency}
+              roleRates={roleRates}
+              roleOptions={roleOptions}
+              rateForRole={rateForRole}
+              otherPhaseNames={phases.filter((_, i) => i !== idx).map(p => p.name)}
+              schedule={leveled.phases[idx]}
+              onChange={(updated) => handlePhaseChange(idx, updated)}
+              onDelete={() => handlePhaseDelete(idx)}
+            />
           ))}
+
+          <button
+            onClick={handlePhaseAdd}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-slate-300 rounded-lg text-sm font-medium text-slate-500 hover:border-indigo-400 hover:text-indigo-600 bg-white transition-colors no-print"
+          >
+            <Plus size={16} />
+            Agregar fase
+          </button>
         </div>
 
         {/* Right Column: Team & Risks */}
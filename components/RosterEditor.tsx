@@ -0,0 +1,147 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { TeamRole } from '../types';
+import { DEFAULT_ROSTER, ROLE_PRESETS } from '../services/teamRoster';
+import { CURRENCY_CODES } from '../services/currency';
+
+interface RosterEditorProps {
+  roster: TeamRole[];
+  onChange: (roster: TeamRole[]) => void;
+  disabled?: boolean;
+}
+
+const RosterEditor: React.FC<RosterEditorProps> = ({ roster, onChange, disabled }) => {
+  const update = (index: number, changes: Partial<TeamRole>) => {
+    onChange(roster.map((role, idx) => idx === index ? { ...role, ...changes } : role));
+  };
+
+  const handleRateChange = (index: number, value: string) => {
+    const numValue = parseFloat(value);
+    update(index, { rate: isNaN(numValue) ? 0 : numValue });
+  };
+
+  const handleNumberChange = (index: number, field: 'headcount' | 'allocation', value: string) => {
+    const numValue = parseInt(value, 10);
+    update(index, { [field]: isNaN(numValue) ? 0 : numValue });
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(roster.filter((_, idx) => idx !== index));
+  };
+
+  const inRoster = new Set(roster.map(r => r.name.trim().toLowerCase()));
+  const availablePresets = ROLE_PRESETS.filter(p => !inRoster.has(p.name.toLowerCase()));
+
+  return (
+    <div className="space-y-3">
+      <div className="hidden md:grid grid-cols-12 gap-3 text-xs font-medium text-slate-500">
+        <span className="col-span-3">Rol</span>
+        <span className="col-span-3">Tarifa por hora</span>
+        <span className="col-span-1" title="Cantidad de personas en el rol">Personas</span>
+        <span className="col-span-1" title="Porcentaje de su jornada dedicado al proyecto">Dedicación</span>
+        <span className="col-span-3">Responsabilidades (se envían a la IA)</span>
+      </div>
+
+      {roster.map((role, idx) => (
+        <div key={idx} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-start">
+          <input
+            type="text"
+            value={role.name}
+            onChange={(e) => update(idx, { name: e.target.value })}
+            className="md:col-span-3 block w-full rounded-md border-slate-300 border px-3 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            placeholder="Nombre del rol"
+            disabled={disabled}
+          />
+          <div className="md:col-span-3 flex rounded-md shadow-sm">
+            <input
+              type="number"
+              min="1"
+              value={role.rate}
+              onChange={(e) => handleRateChange(idx, e.target.value)}
+              className="block w-full min-w-0 rounded-l-md border-slate-300 border px-3 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              placeholder="0.00"
+              disabled={disabled}
+            />
+            <select
+              value={role.currency}
+              onChange={(e) => update(idx, { currency: e.target.value })}
+              className="rounded-r-md border border-l-0 border-slate-300 px-2 py-2 bg-white text-slate-600 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              disabled={disabled}
+            >
+              {CURRENCY_CODES.map(code => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </div>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={role.headcount}
+            onChange={(e) => handleNumberChange(idx, 'headcount', e.target.value)}
+            className="md:col-span-1 block w-full rounded-md border-slate-300 border px-2 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            title="Personas"
+            disabled={disabled}
+          />
+          <div className="md:col-span-1 flex items-center gap-1">
+            <input
+              type="number"
+              min="1"
+              max="100"
+              step="5"
+              value={role.allocation}
+              onChange={(e) => handleNumberChange(idx, 'allocation', e.target.value)}
+              className="block w-full min-w-0 rounded-md border-slate-300 border px-2 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              title="Dedicación (%)"
+              disabled={disabled}
+            />
+            <span className="text-xs text-slate-400">%</span>
+          </div>
+          <input
+            type="text"
+            value={role.description}
+            onChange={(e) => update(idx, { description: e.target.value })}
+            className="md:col-span-3 block w-full rounded-md border-slate-300 border px-3 py-2 bg-slate-50 focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            placeholder="Ej: Infraestructura, CI/CD y despliegues"
+            disabled={disabled}
+          />
+          <button
+            onClick={() => handleRemove(idx)}
+            title="Quitar rol"
+            className="md:col-span-1 justify-self-end p-2 rounded text-slate-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-50"
+            disabled={disabled}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2 pt-1">
+        <button
+          onClick={() => onChange([...roster, { name: '', description: '', rate: 50, currency: 'USD', headcount: 1, allocation: 100 }])}
+          className="flex items-center gap-1 px-3 py-1.5 border border-slate-300 rounded-lg text-xs font-medium text-slate-700 hover:bg-slate-100 bg-white transition-colors disabled:opacity-50"
+          disabled={disabled}
+        >
+          <Plus size={14} /> Agregar rol
+        </button>
+        {availablePresets.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => onChange([...roster, preset])}
+            className="flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium bg-indigo-50 text-indigo-700 border border-indigo-100 hover:bg-indigo-100 transition-colors disabled:opacity-50"
+            disabled={disabled}
+          >
+            <Plus size={12} /> {preset.name}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange(DEFAULT_ROSTER)}
+          className="ml-auto flex items-center gap-1 text-xs text-slate-500 hover:text-slate-700 disabled:opacity-50"
+          disabled={disabled}
+        >
+          <RotateCcw size={12} /> Restablecer equipo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RosterEditor;
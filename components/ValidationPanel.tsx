@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { ShieldCheck, AlertTriangle, Wrench, ChevronDown, ChevronUp } from 'lucide-react';
+import { ValidationIssue } from '../types';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+}
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues }) => {
+  const warnings = issues.filter(i => i.severity === 'warning');
+  const corrections = issues.filter(i => i.severity === 'corrected');
+  const [isOpen, setIsOpen] = useState(warnings.length > 0);
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center gap-2 p-3 mb-8 rounded-lg border border-emerald-100 bg-emerald-50 text-sm text-emerald-800 no-print">
+        <ShieldCheck size={18} />
+        La estimación cumple todas las reglas de consistencia.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`mb-8 rounded-lg border no-print ${warnings.length > 0 ? 'border-amber-200 bg-amber-50' : 'border-blue-100 bg-blue-50'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between gap-2 p-3 text-left text-sm font-medium text-slate-800"
+      >
+        <span className="flex items-center gap-2">
+          {warnings.length > 0
+            ? <AlertTriangle size={18} className="text-amber-600" />
+            : <Wrench size={18} className="text-blue-600" />}
+          Validación: {corrections.length} {corrections.length === 1 ? 'corrección automática' : 'correcciones automáticas'}
+          {warnings.length > 0 && `, ${warnings.length} ${warnings.length === 1 ? 'advertencia' : 'advertencias'}`}
+        </span>
+        {isOpen ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+      </button>
+
+      {isOpen && (
+        <ul className="px-4 pb-4 space-y-1.5">
+          {[...warnings, ...corrections].map((issue, idx) => (
+            <li key={idx} className="flex items-start gap-2 text-xs text-slate-700">
+              {issue.severity === 'warning'
+                ? <AlertTriangle size={14} className="text-amber-600 mt-0.5 flex-shrink-0" />
+                : <Wrench size={14} className="text-blue-600 mt-0.5 flex-shrink-0" />}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,353 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, ArrowLeft, Download, Calendar, AlertTriangle, Users, Layers, Cpu, FileText, ListChecks, Ban } from 'lucide-react';
+import { SavedEstimate } from '../types';
+import { formatVersionName, listVersions } from '../services/historyStore';
+import { diffEstimates, diffToMarkdown, isEmptyDiff } from '../services/estimationDiff';
+import { formatCurrency } from '../services/estimationMath';
+import { downloadFile } from '../services/download';
+import { Delta, KindBadge } from './DiffBadges';
+
+interface VersionCompareProps {
+  projectId: string;
+  initialAfterId?: string;
+  onBack: () => void;
+}
+
+const VersionCompare: React.FC<VersionCompareProps> = ({ projectId, initialAfterId, onBack }) => {
+  const [versions, setVersions] = useState<SavedEstimate[]>([]);
+  const [beforeId, setBeforeId] = useState('');
+  const [afterId, setAfterId] = useState('');
+
+  useEffect(() => {
+    listVersions(projectId).then(list => {
+      setVersions(list);
+      const after = list.find(v => v.id === initialAfterId) ?? list[list.length - 1];
+      const afterIndex = list.indexOf(after);
+      // Default to the version right before `after` (or the next one if it is the first)
+      const before = list[afterIndex > 0 ? afterIndex - 1 : 1] ?? after;
+      setAfterId(after?.id ?? '');
+      setBeforeId(before?.id ?? '');
+    }).catch(error => console.error("Error loading versions:", error));
+  }, [projectId, initialAfterId]);
+
+  const before = versions.find(v => v.id === beforeId);
+  const after = versions.find(v => v.id === afterId);
+
+  const diff = useMemo(
+    () => before && after ? diffEstimates(before, after) : null,
+    [before, after]
+  );
+
+  const currency = after?.result.totalEstimatedCost.currency ?? 'USD';
+  const beforeCurrency = before?.result.totalEstimatedCost.currency ?? currency;
+  const money = (v: number) => formatCurrency(v, currency);
+
+  const handleExportMarkdown = () => {
+    if (!diff || !before || !after) return;
+    const content = diffToMarkdown(diff, formatVersionName(before), formatVersionName(after), currency);
+    downloadFile(content, `Comparacion-${after.result.projectName.replace(/\s+/g, '-')}-v${before.version}-v${after.version}.md`, 'text/markdown');
+  };
+
+  const handleExportJSON = () => {
+    if (!diff || !before || !after) return;
+    const content = JSON.stringify({ before: formatVersionName(before), after: formatVersionName(after), diff }, null, 2);
+    downloadFile(content, `Comparacion-${after.result.projectName.replace(/\s+/g, '-')}-v${before.version}-v${after.version}.json`, 'application/json');
+  };
+
+  const versionSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="rounded-lg border-slate-300 border p-2 bg-white focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+    >
+      {versions.map(v => (
+        <option key={v.id} value={v.id}>
+          {formatVersionName(v)} ({new Date(v.createdAt).toLocaleDateString('es-ES')})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-12 sm:px-6 lg:px-8">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-slate-900 flex items-center gap-2">
+            <GitCompare size={28} className="text-indigo-600" />
+            Comparar Versiones
+          </h2>
+          <p className="text-slate-500 text-sm mt-1">{after?.result.projectName}</p>
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          <button
+            onClick={handleExportMarkdown}
+            disabled={!diff}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <Download size={16} />
+            Markdown
+          </button>
+          <button
+            onClick={handleExportJSON}
+            disabled={!diff}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <Download size={16} />
+            JSON
+          </button>
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 bg-white transition-colors"
+          >
+            <ArrowLeft size={16} />
+            Volver
+          </button>
+        </div>
+      </div>
+
+      {versions.length < 2 ? (
+        <p className="text-center text-sm text-slate-400 italic py-12">
+          Este proyecto tiene una sola versión. Guarda una nueva versión desde el dashboard para poder comparar.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-6 text-sm text-slate-600">
+            Comparar {versionSelect(beforeId, setBeforeId)} con {versionSelect(afterId, setAfterId)}
+          </div>
+
+          {beforeCurrency !== currency && (
+            <div className="p-3 mb-6 bg-yellow-50 border border-yellow-100 rounded-md flex items-start gap-2 text-yellow-800 text-sm">
+              <AlertTriangle size={18} className="mt-0.5 flex-shrink-0" />
+              <span>Las versiones se facturan en monedas distintas ({beforeCurrency} y {currency}); las diferencias de costo no son comparables.</span>
+            </div>
+          )}
+
+          {diff && (
+            <div className="space-y-6">
+              {/* Totals */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {[
+                  { label: 'Costo', before: diff.totals.costBefore, after: diff.totals.costAfter, format: money },
+                  { label: 'Horas', before: diff.totals.hoursBefore, after: diff.totals.hoursAfter, format: (v: number) => `${v} hs` },
+                  { label: 'Semanas', before: diff.totals.weeksBefore, after: diff.totals.weeksAfter, format: (v: number) => `${v} sem` }
+                ].map(kpi => (
+                  <div key={kpi.label} className="bg-white p-5 rounded-lg border border-slate-200 shadow-sm">
+                    <div className="text-sm font-bold uppercase tracking-wide text-slate-500 mb-1">{kpi.label}</div>
+                    <div className="text-2xl font-bold text-slate-900">{kpi.format(kpi.after)}</div>
+                    <div className="text-xs text-slate-500 mt-1">
+                      Antes: {kpi.format(kpi.before)} (<Delta value={kpi.after - kpi.before} format={kpi.format} />)
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {isEmptyDiff(diff) && (
+                <p className="text-center text-sm text-slate-400 italic">Las versiones seleccionadas no tienen diferencias.</p>
+              )}
+
+              {/* Roles */}
+              <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                  <Users size={20} className="text-slate-400" />
+                  Horas y Costo por Rol
+                </h3>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-left text-xs text-slate-500 uppercase tracking-wide">
+                      <th className="pb-2 font-medium">Rol</th>
+                      <th className="pb-2 text-right">Horas</th>
+                      <th className="pb-2 text-right">Δ Horas</th>
+                      <th className="pb-2 text-right">Costo</th>
+                      <th className="pb-2 text-right">Δ Costo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {diff.roles.map(role => (
+                      <tr key={role.role}>
+                        <td className="py-2 font-medium text-slate-800">{role.role}</td>
+                        <td className="py-2 text-right text-slate-600">{role.hoursAfter} h</td>
+                        <td className="py-2 text-right"><Delta value={role.hoursAfter - role.hoursBefore} /></td>
+                        <td className="py-2 text-right text-slate-600">{money(role.costAfter)}</td>
+                        <td className="py-2 text-right"><Delta value={role.costAfter - role.costBefore} format={money} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Phases & tasks */}
+              <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                  <Layers size={20} className="text-slate-400" />
+                  Fases y Tareas
+                </h3>
+                {diff.phases.length === 0 ? (
+                  <p className="text-sm text-slate-400 italic">Sin cambios.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {diff.phases.map((phase, idx) => (
+                      <div key={idx} className="border border-slate-200 rounded-lg p-4">
+                        <div className="flex items-center gap-2 mb-2">
+                          <KindBadge kind={phase.kind} />
+                          <span className="font-semibold text-slate-900">{phase.name}</span>
+                          <span className="ml-auto text-xs text-slate-500">
+                            {phase.kind === 'changed'
+                              ? <>{phase.before!.estimatedHours} → {phase.after!.estimatedHours} hs | <Delta value={phase.after!.estimatedCost - phase.before!.estimatedCost} format={money} /></>
+                              : <>{(phase.after ?? phase.before)!.estimatedHours} hs | {money((phase.after ?? phase.before)!.estimatedCost)}</>}
+                          </span>
+                        </div>
+                        {phase.kind === 'changed' && phase.before!.complexity !== phase.after!.complexity && (
+                          <p className="text-xs text-slate-500 mb-2">Complejidad: {phase.before!.complexity} → {phase.after!.complexity}</p>
+                        )}
+                        {phase.taskChanges.length > 0 && (
+                          <ul className="space-y-1">
+                            {phase.taskChanges.map((task, tIdx) => (
+                              <li key={tIdx} className="flex items-center gap-2 text-xs text-slate-700">
+                                <KindBadge kind={task.kind} />
+                                <span className="truncate">{task.name}</span>
+                                <span className="ml-auto text-slate-500 flex-shrink-0">
+                                  {task.kind === 'changed'
+                                    ? <>{task.before!.hours} → {task.after!.hours} hs | <Delta value={task.after!.cost - task.before!.cost} format={money} />{task.before!.assignedRole !== task.after!.assignedRole && ` | ${task.before!.assignedRole} → ${task.after!.assignedRole}`}</>
+                                    : <>{(task.after ?? task.before)!.hours} hs | {(task.after ?? task.before)!.assignedRole}</>}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Roadmap */}
+                <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                    <Calendar size={20} className="text-slate-400" />
+                    Roadmap
+                  </h3>
+                  {diff.roadmap.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Sin cambios.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {diff.roadmap.map((item, idx) => (
+                        <li key={idx} className="flex items-center gap-2 text-sm text-slate-700">
+                          <KindBadge kind={item.kind} />
+                          <span className="truncate">{item.phaseName}</span>
+                          <span className="ml-auto text-xs text-slate-500 flex-shrink-0">
+                            {item.kind === 'changed'
+                              ? `Sem ${item.before!.startWeek}-${item.before!.endWeek} → Sem ${item.after!.startWeek}-${item.after!.endWeek}`
+                              : `Sem ${(item.after ?? item.before)!.startWeek}-${(item.after ?? item.before)!.endWeek}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Risks */}
+                <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                    <AlertTriangle size={20} className="text-slate-400" />
+                    Riesgos
+                  </h3>
+                  {diff.risks.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Sin cambios.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {diff.risks.map((change, idx) => (
+                        <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
+                          <KindBadge kind={change.kind} />
+                          <span>{change.risk.risk} <span className="text-xs text-slate-400">(impacto {change.risk.impact})</span></span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Summary */}
+                <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                    <FileText size={20} className="text-slate-400" />
+                    Resumen Ejecutivo
+                  </h3>
+                  {diff.summary ? (
+                    <div className="space-y-2 text-sm">
+                      <p className="text-slate-400 line-through">{diff.summary.before}</p>
+                      <p className="text-slate-700">{diff.summary.after}</p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-slate-400 italic">Sin cambios.</p>
+                  )}
+                </div>
+
+                {/* Tech stack */}
+                <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                    <Cpu size={20} className="text-slate-400" />
+                    Stack Tecnológico
+                  </h3>
+                  {diff.techStack.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Sin cambios.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {diff.techStack.map((change, idx) => (
+                        <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
+                          <KindBadge kind={change.kind} />
+                          <span>{change.technology}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Assumptions */}
+                <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                    <ListChecks size={20} className="text-slate-400" />
+                    Supuestos
+                  </h3>
+                  {diff.assumptions.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Sin cambios.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {diff.assumptions.map((change, idx) => (
+                        <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
+                          <KindBadge kind={change.kind} />
+                          <span>{change.assumption.description}{change.assumption.impactIfFalse && <span className="text-xs text-slate-400"> (si no se cumple: {change.assumption.impactIfFalse})</span>}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Exclusions */}
+                <div className="bg-white rounded-xl shadow-md border border-slate-200 p-6">
+                  <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                    <Ban size={20} className="text-slate-400" />
+                    Fuera de Alcance
+                  </h3>
+                  {diff.exclusions.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">Sin cambios.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {diff.exclusions.map((change, idx) => (
+                        <li key={idx} className="flex items-start gap-2 text-sm text-slate-700">
+                          <KindBadge kind={change.kind} />
+                          <span>{change.exclusion.description}{change.exclusion.reason && <span className="text-xs text-slate-400"> ({change.exclusion.reason})</span>}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VersionCompare;
@@ -0,0 +1,72 @@
+export type ChartId = 'costByPhase' | 'hoursByPhase' | 'confidenceCost' | 'confidenceWeeks';
+
+export interface ChartSvg {
+  // Standalone SVG markup, with the page font and explicit size
+  markup: string;
+  // Size on screen, in CSS pixels
+  width: number;
+  height: number;
+}
+
+export interface ChartImage {
+  dataUrl: string;
+  // Size on screen, in CSS pixels; only the aspect ratio is used
+  width: number;
+  height: number;
+}
+
+// Charts render at twice their screen size so they stay sharp when zoomed
+const CHART_SCALE = 2;
+
+const serialize = (svg: SVGSVGElement): ChartSvg => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  // A standalone SVG does not inherit the page font
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily;
+  return { markup: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+/**
+ * SVG of the recharts charts inside `root`. Each chart container is marked
+ * with `data-pdf-chart` set to its ChartId; charts that are not on screen
+ * (e.g. the simulation while it runs) are simply left out.
+ */
+export const captureChartSvgs = (root: HTMLElement): Partial<Record<ChartId, ChartSvg>> => {
+  const charts: Partial<Record<ChartId, ChartSvg>> = {};
+  root.querySelectorAll<HTMLElement>('[data-pdf-chart]').forEach(container => {
+    const svg = container.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!svg || svg.getBoundingClientRect().width === 0) return;
+    charts[container.dataset.pdfChart as ChartId] = serialize(svg);
+  });
+  return charts;
+};
+
+const rasterize = ({ markup, width, height }: ChartSvg): Promise<ChartImage> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * CHART_SCALE);
+      canvas.height = Math.round(height * CHART_SCALE);
+      const context = canvas.getContext('2d')!;
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL('image/png'), width, height });
+    };
+    image.onerror = () => reject(new Error("No se pudo convertir un gráfico en imagen."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+
+/** PNG images of the charts inside `root`, for formats that cannot embed SVG. */
+export const captureCharts = async (root: HTMLElement): Promise<Partial<Record<ChartId, ChartImage>>> => {
+  const charts: Partial<Record<ChartId, ChartImage>> = {};
+  for (const [id, svg] of Object.entries(captureChartSvgs(root)) as [ChartId, ChartSvg][]) {
+    charts[id] = await rasterize(svg);
+  }
+  return charts;
+};
@@ -0,0 +1,108 @@
+import { Clarification, ClarificationTopic, ClarifyingQuestion, ProjectMetadata } from "../types";
+import { createProvider, JsonSchema, LLMError, LLMProvider } from "./llm";
+import { SINGLE_REQUEST_MAX_CHARS } from "./prdChunker";
+
+export const CLARIFICATION_TOPIC_LABELS: Record<ClarificationTopic, string> = {
+  platforms: 'Plataformas',
+  users: 'Usuarios y volumen',
+  integrations: 'Integraciones',
+  compliance: 'Normativa y seguridad',
+  scope: 'Alcance',
+  other: 'Otros'
+};
+
+const TOPICS = Object.keys(CLARIFICATION_TOPIC_LABELS) as ClarificationTopic[];
+
+// More than this turns a quick check into a questionnaire nobody finishes
+const MAX_QUESTIONS = 8;
+const MAX_SUGGESTIONS = 4;
+
+const QUESTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string', enum: TOPICS },
+          question: { type: 'string', description: "Pregunta concreta para el solicitante" },
+          reason: { type: 'string', description: "Cómo cambia la estimación según la respuesta" },
+          suggestedAnswers: { type: 'array', items: { type: 'string' }, description: "Respuestas habituales, cortas" }
+        },
+        required: ['topic', 'question', 'reason', 'suggestedAnswers']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+const SYSTEM_PROMPT = `
+    Eres un Arquitecto de Soluciones Senior que revisa un PRD antes de estimarlo.
+    Tu objetivo es detectar la información faltante o ambigua que cambiaría de forma significativa las horas, el equipo o el costo del proyecto.
+    Devuelve la respuesta estrictamente en formato JSON.
+  `;
+
+/**
+ * Asks the model which ambiguities of the PRD (platforms, user volume,
+ * integrations, compliance...) would change the estimate the most. An empty
+ * list means the PRD is clear enough to estimate as it is.
+ */
+export const findClarifyingQuestions = async (
+  prdContent: string,
+  metadata: ProjectMetadata,
+  provider: LLMProvider = createProvider(),
+  signal?: AbortSignal
+): Promise<ClarifyingQuestion[]> => {
+  // The gaps of a long PRD show up in its first pages as well
+  const truncated = prdContent.length > SINGLE_REQUEST_MAX_CHARS;
+  const userPrompt = `
+    Proyecto: ${metadata.projectName || "Sin nombre"}
+
+    Lista como máximo ${MAX_QUESTIONS} preguntas para el solicitante, ordenadas de mayor a menor impacto en la estimación:
+    - Pregunta solo por lo que el PRD no define o deja ambiguo (plataformas, volumen de usuarios, integraciones, normativa, alcance, etc.). No preguntes lo que ya está respondido.
+    - Cada pregunta debe poder responderse en una línea; sugiere respuestas habituales cuando existan.
+    - Si el PRD es lo bastante claro para estimarlo, devuelve una lista vacía.
+
+    Contenido del PRD${truncated ? ' (primeras secciones)' : ''}:
+    ${truncated ? prdContent.slice(0, SINGLE_REQUEST_MAX_CHARS) : prdContent}
+  `;
+
+  const responseText = await provider.generateJSON({ systemPrompt: SYSTEM_PROMPT, userPrompt, schema: QUESTIONS_SCHEMA, signal });
+
+  let response: { questions?: Partial<ClarifyingQuestion>[] };
+  try {
+    response = JSON.parse(responseText);
+  } catch (error) {
+    console.error("Error parsing clarifying questions:", error);
+    throw new LLMError('malformed', "Error al procesar la respuesta de la IA.");
+  }
+
+  return (Array.isArray(response.questions) ? response.questions : [])
+    .filter(q => typeof q?.question === 'string' && q.question.trim())
+    .slice(0, MAX_QUESTIONS)
+    .map((q, idx) => ({
+      id: `q${idx + 1}`,
+      topic: TOPICS.includes(q.topic as ClarificationTopic) ? q.topic as ClarificationTopic : 'other',
+      question: q.question!.trim(),
+      reason: (q.reason ?? '').trim(),
+      suggestedAnswers: (Array.isArray(q.suggestedAnswers) ? q.suggestedAnswers : [])
+        .filter((answer): answer is string => typeof answer === 'string' && answer.trim() !== '')
+        .slice(0, MAX_SUGGESTIONS)
+    }));
+};
+
+/** Block of the estimation prompt with the answers given before the analysis. */
+export const buildClarificationsPrompt = (clarifications: Clarification[] = []): string => {
+  if (clarifications.length === 0) return '';
+  const line = (c: Clarification) => `- [${CLARIFICATION_TOPIC_LABELS[c.topic]}] ${c.question}`;
+  const answered = clarifications.filter(c => c.answer);
+  const skipped = clarifications.filter(c => !c.answer);
+  return `
+    ACLARACIONES DEL SOLICITANTE (tómalas como supuestos de la estimación; prevalecen sobre el PRD):
+    ${answered.map(c => `${line(c)} → ${c.answer}`).join('\n    ') || '- Ninguna'}
+    ${skipped.length > 0 ? `
+    Preguntas sin respuesta (asume el escenario más habitual y refleja la incertidumbre en los riesgos y en el rango pesimista):
+    ${skipped.map(line).join('\n    ')}
+    ` : ''}`;
+};
@@ -0,0 +1,63 @@
+import { ProjectMetadata, TeamRole } from "../types";
+
+const STORAGE_KEY = 'estimia.exchangeRates';
+
+// Exchange rates are expressed as units of each currency per 1 USD
+export const BASE_CURRENCY = 'USD';
+
+export const CURRENCIES: Record<string, { label: string; locale: string }> = {
+  USD: { label: 'Dólar estadounidense', locale: 'en-US' },
+  EUR: { label: 'Euro', locale: 'es-ES' },
+  ARS: { label: 'Peso argentino', locale: 'es-AR' },
+  MXN: { label: 'Peso mexicano', locale: 'es-MX' },
+  CLP: { label: 'Peso chileno', locale: 'es-CL' }
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES);
+
+// Reference values only; users are expected to keep them up to date
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  ARS: 1150,
+  MXN: 18.5,
+  CLP: 940
+};
+
+export const currencyLocale = (currency: string) => CURRENCIES[currency]?.locale ?? 'en-US';
+
+export const loadExchangeRates = (): Record<string, number> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && typeof stored === 'object') {
+      return { ...DEFAULT_EXCHANGE_RATES, ...stored, [BASE_CURRENCY]: 1 };
+    }
+  } catch (error) {
+    console.error("Error reading exchange rates:", error);
+  }
+  return DEFAULT_EXCHANGE_RATES;
+};
+
+export const saveExchangeRates = (rates: Record<string, number>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rates));
+};
+
+export const convertAmount = (amount: number, from: string, to: string, rates: Record<string, number>): number => {
+  if (from === to) return amount;
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+  if (!(fromRate > 0) || !(toRate > 0)) {
+    throw new Error(`No hay tipo de cambio configurado para convertir ${from} a ${to}.`);
+  }
+  return (amount / fromRate) * toRate;
+};
+
+// Hourly rate of a role expressed in the estimate's billing currency
+export const billingRate = (role: TeamRole, metadata: ProjectMetadata): number =>
+  Math.round(convertAmount(role.rate, role.currency, metadata.currency, metadata.exchangeRates) * 100) / 100;
+
+/** Returns a message naming the first currency in use without a usable rate, or null. */
+export const validateExchangeRates = (currencies: string[], rates: Record<string, number>): string | null => {
+  const missing = currencies.find(c => c !== BASE_CURRENCY && !(rates[c] > 0));
+  return missing ? `Define el tipo de cambio de ${missing} (unidades por 1 ${BASE_CURRENCY}).` : null;
+};
@@ -0,0 +1,202 @@
+import { DocumentFormat, UploadedDocument } from "../types";
+
+export const ACCEPTED_FILE_TYPES = '.pdf,.docx,.md,.markdown,.txt';
+
+const EXTENSION_FORMATS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text'
+};
+
+export const detectFormat = (fileName: string): DocumentFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return EXTENSION_FORMATS[extension] ?? null;
+};
+
+// ---------------- DOCX ----------------
+
+// Converts the HTML produced by mammoth into markdown-like text so headings,
+// numbered lists and tables survive as structure the model can read.
+const htmlToStructuredText = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocks: string[] = [];
+
+  const inlineText = (node: Node): string => (node.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const walkList = (list: Element, depth: number) => {
+    const ordered = list.tagName === 'OL';
+    let index = 1;
+    Array.from(list.children).forEach(item => {
+      if (item.tagName !== 'LI') return;
+      // Text of the item itself, excluding nested lists
+      const ownText = Array.from(item.childNodes)
+        .filter(child => !(child instanceof Element && (child.tagName === 'UL' || child.tagName === 'OL')))
+        .map(inlineText)
+        .join(' ')
+        .trim();
+      const bullet = ordered ? `${index++}.` : '-';
+      blocks.push(`${'  '.repeat(depth)}${bullet} ${ownText}`);
+      Array.from(item.children)
+        .filter(child => child.tagName === 'UL' || child.tagName === 'OL')
+        .forEach(nested => walkList(nested, depth + 1));
+    });
+  };
+
+  const walkTable = (table: Element) => {
+    const rows = Array.from(table.querySelectorAll('tr')).map(row =>
+      Array.from(row.children).map(cell => inlineText(cell).replace(/\|/g, '/'))
+    );
+    if (rows.length === 0) return;
+    const columns = Math.max(...rows.map(r => r.length));
+    const pad = (row: string[]) => [...row, ...Array(columns - row.length).fill('')];
+    const lines = [
+      `| ${pad(rows[0]).join(' | ')} |`,
+      `| ${Array(columns).fill('---').join(' | ')} |`,
+      ...rows.slice(1).map(row => `| ${pad(row).join(' | ')} |`)
+    ];
+    blocks.push(lines.join('\n'));
+  };
+
+  Array.from(doc.body.children).forEach(element => {
+    const tag = element.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      blocks.push(`${'#'.repeat(Number(tag[1]))} ${inlineText(element)}`);
+    } else if (tag === 'UL' || tag === 'OL') {
+      walkList(element, 0);
+    } else if (tag === 'TABLE') {
+      walkTable(element);
+    } else {
+      const text = inlineText(element);
+      if (text) blocks.push(text);
+    }
+  });
+
+  return blocks.join('\n\n');
+};
+
+const parseDocx = async (file: File): Promise<{ content: string; warnings: string[] }> => {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.convertToHtml({ arrayBuffer: await file.arrayBuffer() });
+  return {
+    content: htmlToStructuredText(result.value),
+    warnings: result.messages.map(m => m.message)
+  };
+};
+
+// ---------------- PDF ----------------
+
+interface PdfLine {
+  y: number;
+  height: number;
+  parts: { x: number; width: number; text: string }[];
+}
+
+const parsePdf = async (file: File): Promise<{ content: string; warnings: string[] }> => {
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: PdfLine[][] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const textContent = await page.getTextContent();
+    const lines: PdfLine[] = [];
+
+    textContent.items.forEach(item => {
+      if (!('str' in item) || !item.str.trim()) return;
+      const x = item.transform[4];
+      const y = item.transform[5];
+      const height = item.height || Math.abs(item.transform[3]);
+      // Items whose baseline is within half a glyph belong to the same visual line
+      const line = lines.find(l => Math.abs(l.y - y) < Math.max(2, height / 2));
+      if (line) {
+        line.parts.push({ x, width: item.width, text: item.str });
+        line.height = Math.max(line.height, height);
+      } else {
+        lines.push({ y, height, parts: [{ x, width: item.width, text: item.str }] });
+      }
+    });
+
+    // PDF coordinates grow upwards, so sort top to bottom
+    lines.sort((a, b) => b.y - a.y);
+    pages.push(lines);
+  }
+
+  const allHeights = pages.flat().map(l => l.height).sort((a, b) => a - b);
+  const bodyHeight = allHeights.length > 0 ? allHeights[Math.floor(allHeights.length / 2)] : 0;
+
+  const renderLine = (line: PdfLine): string => {
+    const parts = [...line.parts].sort((a, b) => a.x - b.x);
+    let text = '';
+    parts.forEach((part, idx) => {
+      if (idx > 0) {
+        const previous = parts[idx - 1];
+        const gap = part.x - (previous.x + previous.width);
+        // Wide horizontal gaps usually separate table columns
+        text += gap > line.height * 2 ? ' | ' : (gap > 1 ? ' ' : '');
+      }
+      text += part.text;
+    });
+    text = text.replace(/\s+/g, ' ').trim();
+    if (bodyHeight > 0 && line.height >= bodyHeight * 1.6) return `# ${text}`;
+    if (bodyHeight > 0 && line.height >= bodyHeight * 1.25) return `## ${text}`;
+    return text;
+  };
+
+  const content = pages
+    .map(lines => lines.map(renderLine).filter(Boolean).join('\n'))
+    .join('\n\n');
+
+  const warnings = content.trim().length === 0
+    ? ['No se encontró texto seleccionable. Si el PDF es un escaneo, necesitarás copiar el texto manualmente.']
+    : [];
+
+  return { content, warnings };
+};
+
+// ---------------- PUBLIC API ----------------
+
+export const parseDocument = async (file: File): Promise<UploadedDocument> => {
+  const format = detectFormat(file.name);
+  if (!format) {
+    throw new Error(`Formato no soportado: ${file.name}. Usa PDF, DOCX, Markdown o texto plano.`);
+  }
+
+  let parsed: { content: string; warnings: string[] };
+  try {
+    if (format === 'pdf') {
+      parsed = await parsePdf(file);
+    } else if (format === 'docx') {
+      parsed = await parseDocx(file);
+    } else {
+      parsed = { content: await file.text(), warnings: [] };
+    }
+  } catch (error) {
+    console.error(`Error parsing ${file.name}:`, error);
+    throw new Error(`No se pudo leer el archivo ${file.name}.`);
+  }
+
+  return {
+    id: `${file.name}-${file.lastModified}-${file.size}`,
+    fileName: file.name,
+    format,
+    content: parsed.content.trim(),
+    warnings: parsed.warnings
+  };
+};
+
+// Joins the free-text notes and every uploaded document into a single PRD body,
+// labelling each document so the model can tell the PRD from its annexes.
+export const composePRDText = (notes: string, documents: UploadedDocument[]): string => {
+  const sections = documents
+    .filter(doc => doc.content.trim())
+    .map(doc => `=== Documento: ${doc.fileName} ===\n${doc.content.trim()}`);
+  if (notes.trim()) {
+    sections.push(documents.length > 0 ? `=== Notas adicionales ===\n${notes.trim()}` : notes.trim());
+  }
+  return sections.join('\n\n');
+};
@@ -0,0 +1,360 @@
+import { EstimateEdits, EstimationResult, ProjectMetadata, SavedEstimate } from "../types";
+import { JsonSchema } from "./llm";
+import { buildEstimate, nextVersion, normalizeEstimate, putEstimate } from "./historyStore";
+import { exportFileName } from "./spreadsheetExport";
+import { downloadFile } from "./download";
+import { rosterFromRates } from "./teamRoster";
+import { DEFAULT_CALENDAR, validateCalendar } from "./workCalendar";
+
+export const ESTIMATE_FILE_FORMAT = 'estimia-estimate';
+export const ESTIMATE_FILE_VERSION = 1;
+
+/** Portable copy of a saved estimate, with everything needed to reopen it elsewhere. */
+export interface EstimateFile {
+  format: typeof ESTIMATE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { projectId: string; version: number; versionLabel?: string };
+  prdText: string;
+  metadata: ProjectMetadata;
+  result: EstimationResult;
+  edits: EstimateEdits;
+}
+
+// ---------------- SCHEMA ----------------
+
+const numbers = (required: string[]): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(required.map(name => [name, { type: 'number' } as JsonSchema])),
+  required
+});
+
+const strings: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const PHASE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    estimatedHours: { type: 'number' },
+    estimatedCost: { type: 'number' },
+    assignedRole: { type: 'string' },
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          hours: { type: 'number' },
+          cost: { type: 'number' },
+          assignedRole: { type: 'string' },
+          hourlyRate: { type: 'number' }
+        },
+        required: ['name', 'hours', 'cost', 'assignedRole', 'hourlyRate']
+      }
+    }
+  },
+  required: ['name', 'estimatedHours', 'estimatedCost', 'assignedRole', 'tasks']
+};
+
+const ROADMAP_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { phaseName: { type: 'string' }, startWeek: { type: 'number' }, endWeek: { type: 'number' } },
+  required: ['phaseName', 'startWeek', 'endWeek']
+};
+
+const ASSUMPTIONS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { description: { type: 'string' }, impactIfFalse: { type: 'string' } },
+    required: ['description', 'impactIfFalse']
+  }
+};
+
+const EXCLUSIONS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: { description: { type: 'string' }, reason: { type: 'string' } },
+    required: ['description', 'reason']
+  }
+};
+
+// The rest of the calendar is checked by validateCalendar once the shape is known
+const CALENDAR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    workingDays: { type: 'array', items: { type: 'integer' } },
+    hoursPerDay: { type: 'number' },
+    country: { type: 'string' },
+    customHolidays: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { date: { type: 'string' }, name: { type: 'string' } },
+        required: ['date', 'name']
+      }
+    }
+  },
+  required: ['workingDays', 'hoursPerDay']
+};
+
+// What the dashboard reads; lists added to the format later may be absent and
+// are backfilled by normalizeEstimate, and role or currency names are free
+// since the roster may have changed after the estimate was made
+const FILE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string' },
+    version: { type: 'integer' },
+    project: {
+      type: 'object',
+      properties: { projectId: { type: 'string' }, version: { type: 'integer' } },
+      required: ['projectId', 'version']
+    },
+    prdText: { type: 'string' },
+    metadata: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string' },
+        requesterName: { type: 'string' },
+        date: { type: 'string' },
+        roster: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string' }, rate: { type: 'number' } },
+            required: ['name', 'rate']
+          }
+        },
+        calendar: CALENDAR_SCHEMA
+      },
+      required: ['projectName', 'requesterName', 'date']
+    },
+    result: {
+      type: 'object',
+      properties: {
+        projectName: { type: 'string' },
+        executiveSummary: { type: 'string' },
+        totalEstimatedCost: {
+          type: 'object',
+          properties: { min: { type: 'number' }, max: { type: 'number' }, currency: { type: 'string' } },
+          required: ['min', 'max', 'currency']
+        },
+        totalEstimatedDurationWeeks: numbers(['min', 'max']),
+        totalEstimatedHours: numbers(['min', 'max']),
+        hourlyRates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { role: { type: 'string' }, rate: { type: 'number' }, currency: { type: 'string' } },
+            required: ['role', 'rate']
+          }
+        },
+        costBreakdown: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { role: { type: 'string' }, totalHours: { type: 'number' }, hourlyRate: { type: 'number' }, subtotalCost: { type: 'number' } },
+            required: ['role', 'totalHours', 'hourlyRate', 'subtotalCost']
+          }
+        },
+        phases: { type: 'array', items: PHASE_SCHEMA },
+        roadmap: { type: 'array', items: ROADMAP_ITEM_SCHEMA },
+        risks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { risk: { type: 'string' }, mitigation: { type: 'string' }, impact: { type: 'string' } },
+            required: ['risk', 'mitigation', 'impact']
+          }
+        },
+        recommendedTechStack: strings,
+        assumptions: ASSUMPTIONS_SCHEMA,
+        exclusions: EXCLUSIONS_SCHEMA,
+        teamComposition: strings
+      },
+      required: ['projectName', 'executiveSummary', 'totalEstimatedCost', 'totalEstimatedDurationWeeks', 'totalEstimatedHours', 'costBreakdown', 'phases', 'roadmap', 'risks']
+    },
+    edits: {
+      type: 'object',
+      properties: {
+        roleRates: { type: 'object' },
+        phases: { type: 'array', items: PHASE_SCHEMA },
+        roadmap: { type: 'array', items: ROADMAP_ITEM_SCHEMA },
+        assumptions: ASSUMPTIONS_SCHEMA,
+        exclusions: EXCLUSIONS_SCHEMA
+      },
+      required: ['roleRates']
+    }
+  },
+  required: ['format', 'version', 'project', 'prdText', 'metadata', 'result', 'edits']
+};
+
+const typeMatches = (value: unknown, type: JsonSchema['type']) => {
+  switch (type) {
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+};
+
+// First mismatch between `value` and `schema`, as a readable path
+const schemaError = (value: unknown, schema: JsonSchema, path: string): string | null => {
+  if (!typeMatches(value, schema.type)) return `"${path}" debería ser de tipo ${schema.type}`;
+  if (schema.type === 'array' && schema.items) {
+    for (let idx = 0; idx < (value as unknown[]).length; idx++) {
+      const error = schemaError((value as unknown[])[idx], schema.items, `${path}[${idx}]`);
+      if (error) return error;
+    }
+  }
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const missing = (schema.required ?? []).find(name => record[name] === undefined);
+    if (missing) return `falta "${path ? `${path}.` : ''}${missing}"`;
+    for (const [name, property] of Object.entries(schema.properties ?? {})) {
+      if (record[name] === undefined) continue;
+      const error = schemaError(record[name], property, path ? `${path}.${name}` : name);
+      if (error) return error;
+    }
+  }
+  return null;
+};
+
+// ---------------- MIGRATIONS ----------------
+
+type Migration = (document: unknown) => unknown;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringOr = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+
+// Each entry upgrades a document from version N to N + 1; add one (and bump
+// ESTIMATE_FILE_VERSION) whenever the format changes
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 0: documents without the envelope, either a record of the local
+  // history or the bare EstimationResult returned by the model
+  0: (document) => {
+    if (!isObject(document)) {
+      throw new Error("El archivo no contiene una estimación.");
+    }
+    const saved = isObject(document.result) ? document : null;
+    const result = saved ? saved.result as Record<string, unknown> : document;
+    const total = isObject(result.totalEstimatedCost) ? result.totalEstimatedCost : {};
+    const rates = (Array.isArray(result.costBreakdown) ? result.costBreakdown : [])
+      .filter(isObject)
+      .filter(c => typeof c.role === 'string' && typeof c.hourlyRate === 'number')
+      .map(c => [c.role as string, c.hourlyRate as number]);
+    const fallbackMetadata = {
+      projectName: stringOr(result.projectName, ''),
+      requesterName: stringOr(result.requesterName, ''),
+      date: stringOr(result.requestDate, ''),
+      // The rates of the breakdown are already in the billing currency
+      roster: rosterFromRates(Object.fromEntries(rates))
+        .map(role => ({ ...role, currency: stringOr(total.currency, role.currency) }))
+    };
+    return {
+      format: ESTIMATE_FILE_FORMAT,
+      version: 1,
+      exportedAt: stringOr(saved?.updatedAt, new Date().toISOString()),
+      project: {
+        projectId: stringOr(saved?.projectId, stringOr(saved?.id, '')),
+        version: typeof saved?.version === 'number' ? saved.version : 1,
+        versionLabel: typeof saved?.versionLabel === 'string' ? saved.versionLabel : undefined
+      },
+      prdText: stringOr(saved?.prdText, ''),
+      metadata: isObject(saved?.metadata) ? saved.metadata : fallbackMetadata,
+      result,
+      edits: isObject(saved?.edits) ? saved.edits : { roleRates: {} }
+    };
+  }
+};
+
+const documentVersion = (document: unknown): number => {
+  if (!isObject(document)) {
+    throw new Error("El archivo no contiene una estimación.");
+  }
+  if (document.format === ESTIMATE_FILE_FORMAT) {
+    const version = document.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new Error("El archivo no indica una versión de formato válida.");
+    }
+    return version;
+  }
+  const looksLikeEstimate = (value: unknown) => isObject(value) && Array.isArray(value.phases) && typeof value.projectName === 'string';
+  if (looksLikeEstimate(document) || looksLikeEstimate(document.result)) return 0;
+  throw new Error("El archivo no es una estimación exportada desde EstimIA.");
+};
+
+// ---------------- IMPORT / EXPORT ----------------
+
+export const toEstimateFile = (estimate: SavedEstimate): EstimateFile => ({
+  format: ESTIMATE_FILE_FORMAT,
+  version: ESTIMATE_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: { projectId: estimate.projectId, version: estimate.version, versionLabel: estimate.versionLabel },
+  prdText: estimate.prdText,
+  metadata: estimate.metadata,
+  result: estimate.result,
+  edits: estimate.edits
+});
+
+export const downloadEstimateFile = (estimate: SavedEstimate) => {
+  downloadFile(JSON.stringify(toEstimateFile(estimate), null, 2), exportFileName(estimate.result, 'json'), 'application/json');
+};
+
+/**
+ * Reads an exported estimate, upgrading older versions of the format and
+ * checking its shape. Throws with a message for the user when the file
+ * cannot be opened.
+ */
+export const parseEstimateFile = (text: string): EstimateFile => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    console.error("Error parsing estimate file:", error);
+    throw new Error("El archivo no es un JSON válido.");
+  }
+
+  let version = documentVersion(document);
+  if (version > ESTIMATE_FILE_VERSION) {
+    throw new Error(`El archivo usa el formato v${version}, más nuevo que el que soporta esta versión de EstimIA (v${ESTIMATE_FILE_VERSION}).`);
+  }
+  while (version < ESTIMATE_FILE_VERSION) {
+    document = MIGRATIONS[version](document);
+    version++;
+  }
+
+  const error = schemaError(document, FILE_SCHEMA, '');
+  if (error) {
+    throw new Error(`El archivo no es una estimación válida: ${error}.`);
+  }
+  const file = document as EstimateFile;
+  const calendarError = file.metadata.calendar && validateCalendar({ ...DEFAULT_CALENDAR, ...file.metadata.calendar });
+  if (calendarError) {
+    throw new Error(`El calendario laboral del archivo no es válido: ${calendarError}`);
+  }
+  return file;
+};
+
+/**
+ * Stores an exported estimate in the local history without calling the
+ * model. It joins its project when that project exists here, as the next
+ * version, and never overwrites an existing estimate.
+ */
+export const importEstimateFile = async (text: string): Promise<SavedEstimate> => {
+  const file = parseEstimateFile(text);
+  const imported = buildEstimate(file.prdText, file.metadata, file.result, file.edits);
+  const projectId = file.project.projectId || imported.projectId;
+  const version = Math.max(file.project.version, await nextVersion(projectId));
+  return putEstimate(normalizeEstimate({
+    ...imported,
+    projectId,
+    version,
+    versionLabel: file.project.versionLabel
+  }));
+};
@@ -0,0 +1,226 @@
+import {
+  AssumptionChange, EstimationDiff, EstimationResult, ExclusionChange, PhaseChange, PhaseEstimate, RiskChange, RoadmapChange, RoleDelta,
+  SavedEstimate, TaskChange, TechChange
+} from "../types";
+import { applyEdits, formatCurrency } from "./estimationMath";
+
+const key = (value: string) => value.trim().toLowerCase();
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+const durationWeeks = (data: EstimationResult) =>
+  data.roadmap.length > 0 ? Math.max(...data.roadmap.map(r => r.endWeek)) : data.totalEstimatedDurationWeeks.max;
+
+// Pairs up items from both sides by name, keeping the order of `after`
+// followed by the items that only exist in `before`.
+const matchByName = <T,>(before: T[], after: T[], nameOf: (item: T) => string) => {
+  const beforeMap = new Map(before.map(item => [key(nameOf(item)), item]));
+  const afterKeys = new Set(after.map(item => key(nameOf(item))));
+  return [
+    ...after.map(item => ({ before: beforeMap.get(key(nameOf(item))), after: item as T | undefined })),
+    ...before.filter(item => !afterKeys.has(key(nameOf(item)))).map(item => ({ before: item as T | undefined, after: undefined }))
+  ];
+};
+
+// Items that only exist on one side; lists without an identity of their own
+// are compared by content, so a reworded item shows as removed and added
+const addedAndRemoved = <T,>(before: T[], after: T[], keyOf: (item: T) => string) => {
+  const beforeKeys = new Set(before.map(keyOf));
+  const afterKeys = new Set(after.map(keyOf));
+  return [
+    ...after.filter(item => !beforeKeys.has(keyOf(item))).map(item => ({ kind: 'added' as const, item })),
+    ...before.filter(item => !afterKeys.has(keyOf(item))).map(item => ({ kind: 'removed' as const, item }))
+  ];
+};
+
+const diffTasks = (before: PhaseEstimate | undefined, after: PhaseEstimate | undefined): TaskChange[] =>
+  matchByName(before?.tasks ?? [], after?.tasks ?? [], t => t.name).flatMap(({ before: b, after: a }): TaskChange[] => {
+    if (!b && a) return [{ kind: 'added', name: a.name, after: a }];
+    if (b && !a) return [{ kind: 'removed', name: b.name, before: b }];
+    if (b && a && (
+      b.hours !== a.hours ||
+      b.optimisticHours !== a.optimisticHours ||
+      b.pessimisticHours !== a.pessimisticHours ||
+      b.assignedRole !== a.assignedRole ||
+      b.cost !== a.cost
+    )) {
+      return [{ kind: 'changed', name: a.name, before: b, after: a }];
+    }
+    return [];
+  });
+
+type ComparedVersion = Pick<SavedEstimate, 'result' | 'edits' | 'metadata'>;
+
+/**
+ * Compares two versions of an estimate. Each side includes its dashboard
+ * edits (rates, phases, tasks) and is rescheduled with its own team and
+ * calendar, so the diff matches what the dashboard shows.
+ */
+export const diffEstimates = (beforeVersion: ComparedVersion, afterVersion: ComparedVersion): EstimationDiff => {
+  const before = applyEdits(beforeVersion.result, beforeVersion.edits, beforeVersion.metadata);
+  const after = applyEdits(afterVersion.result, afterVersion.edits, afterVersion.metadata);
+
+  const phases: PhaseChange[] = matchByName(before.phases, after.phases, p => p.name).flatMap(({ before: b, after: a }): PhaseChange[] => {
+    const taskChanges = diffTasks(b, a);
+    if (!b && a) return [{ kind: 'added', name: a.name, after: a, taskChanges }];
+    if (b && !a) return [{ kind: 'removed', name: b.name, before: b, taskChanges }];
+    if (b && a && (
+      taskChanges.length > 0 ||
+      b.estimatedHours !== a.estimatedHours ||
+      b.estimatedCost !== a.estimatedCost ||
+      b.complexity !== a.complexity ||
+      b.assignedRole !== a.assignedRole
+    )) {
+      return [{ kind: 'changed', name: a.name, before: b, after: a, taskChanges }];
+    }
+    return [];
+  });
+
+  const roleNames = Array.from(new Set([...before.costBreakdown, ...after.costBreakdown].map(r => r.role)));
+  const roles: RoleDelta[] = roleNames.map(role => {
+    const b = before.costBreakdown.find(r => r.role === role);
+    const a = after.costBreakdown.find(r => r.role === role);
+    return {
+      role,
+      hoursBefore: b?.totalHours ?? 0,
+      hoursAfter: a?.totalHours ?? 0,
+      costBefore: b?.subtotalCost ?? 0,
+      costAfter: a?.subtotalCost ?? 0
+    };
+  });
+
+  const roadmap: RoadmapChange[] = matchByName(before.roadmap, after.roadmap, r => r.phaseName).flatMap(({ before: b, after: a }): RoadmapChange[] => {
+    if (!b && a) return [{ kind: 'added', phaseName: a.phaseName, after: a }];
+    if (b && !a) return [{ kind: 'removed', phaseName: b.phaseName, before: b }];
+    if (b && a && (b.startWeek !== a.startWeek || b.endWeek !== a.endWeek)) {
+      return [{ kind: 'changed', phaseName: a.phaseName, before: b, after: a }];
+    }
+    return [];
+  });
+
+  const risks: RiskChange[] = addedAndRemoved(before.risks, after.risks, r => key(r.risk))
+    .map(({ kind, item }) => ({ kind, risk: item }));
+  const techStack: TechChange[] = addedAndRemoved(before.recommendedTechStack, after.recommendedTechStack, key)
+    .map(({ kind, item }) => ({ kind, technology: item }));
+  const assumptions: AssumptionChange[] = addedAndRemoved(before.assumptions, after.assumptions, a => `${key(a.description)}\n${key(a.impactIfFalse)}`)
+    .map(({ kind, item }) => ({ kind, assumption: item }));
+  const exclusions: ExclusionChange[] = addedAndRemoved(before.exclusions, after.exclusions, e => `${key(e.description)}\n${key(e.reason)}`)
+    .map(({ kind, item }) => ({ kind, exclusion: item }));
+  const summary = before.executiveSummary.trim() !== after.executiveSummary.trim()
+    ? { before: before.executiveSummary, after: after.executiveSummary }
+    : null;
+
+  return {
+    totals: {
+      hoursBefore: sum(before.phases.map(p => p.estimatedHours)),
+      hoursAfter: sum(after.phases.map(p => p.estimatedHours)),
+      costBefore: sum(before.phases.map(p => p.estimatedCost)),
+      costAfter: sum(after.phases.map(p => p.estimatedCost)),
+      weeksBefore: durationWeeks(before),
+      weeksAfter: durationWeeks(after)
+    },
+    phases,
+    roles,
+    roadmap,
+    risks,
+    summary,
+    techStack,
+    assumptions,
+    exclusions
+  };
+};
+
+export const isEmptyDiff = (diff: EstimationDiff) =>
+  diff.phases.length === 0 && diff.roadmap.length === 0 && diff.risks.length === 0 &&
+  diff.summary === null && diff.techStack.length === 0 && diff.assumptions.length === 0 && diff.exclusions.length === 0 &&
+  diff.roles.every(r => r.hoursBefore === r.hoursAfter && r.costBefore === r.costAfter);
+
+const signed = (value: number, format: (v: number) => string = String) =>
+  `${value > 0 ? '+' : value < 0 ? '-' : '±'}${format(Math.abs(value))}`;
+
+const KIND_LABELS: Record<string, string> = { added: 'Agregada', removed: 'Eliminada', changed: 'Modificada' };
+
+export const diffToMarkdown = (diff: EstimationDiff, beforeLabel: string, afterLabel: string, currency: string): string => {
+  const money = (v: number) => formatCurrency(v, currency);
+  const { totals } = diff;
+  const lines: string[] = [
+    `# Comparación de estimaciones`,
+    ``,
+    `**${beforeLabel}** → **${afterLabel}**`,
+    ``,
+    `| Indicador | ${beforeLabel} | ${afterLabel} | Diferencia |`,
+    `| --- | ---: | ---: | ---: |`,
+    `| Costo | ${money(totals.costBefore)} | ${money(totals.costAfter)} | ${signed(totals.costAfter - totals.costBefore, money)} |`,
+    `| Horas | ${totals.hoursBefore} | ${totals.hoursAfter} | ${signed(totals.hoursAfter - totals.hoursBefore)} |`,
+    `| Semanas | ${totals.weeksBefore} | ${totals.weeksAfter} | ${signed(totals.weeksAfter - totals.weeksBefore)} |`,
+    ``,
+    `## Costo por rol`,
+    ``,
+    `| Rol | Horas | Δ Horas | Costo | Δ Costo |`,
+    `| --- | ---: | ---: | ---: | ---: |`,
+    ...diff.roles.map(r =>
+      `| ${r.role} | ${r.hoursAfter} | ${signed(r.hoursAfter - r.hoursBefore)} | ${money(r.costAfter)} | ${signed(r.costAfter - r.costBefore, money)} |`
+    ),
+    ``,
+    `## Fases y tareas`,
+    ``
+  ];
+
+  if (diff.phases.length === 0) lines.push('Sin cambios.');
+  diff.phases.forEach(phase => {
+    const hours = phase.kind === 'changed'
+      ? ` (${phase.before!.estimatedHours} → ${phase.after!.estimatedHours} hs)`
+      : ` (${(phase.after ?? phase.before)!.estimatedHours} hs)`;
+    lines.push(`- **${KIND_LABELS[phase.kind]}:** ${phase.name}${hours}`);
+    phase.taskChanges.forEach(task => {
+      const detail = task.kind === 'changed'
+        ? `${task.before!.hours} → ${task.after!.hours} hs, ${money(task.before!.cost)} → ${money(task.after!.cost)}, ${task.before!.assignedRole === task.after!.assignedRole ? task.after!.assignedRole : `${task.before!.assignedRole} → ${task.after!.assignedRole}`}`
+        : `${(task.after ?? task.before)!.hours} hs, ${(task.after ?? task.before)!.assignedRole}`;
+      lines.push(`  - ${KIND_LABELS[task.kind]}: ${task.name} (${detail})`);
+    });
+  });
+
+  lines.push('', '## Roadmap', '');
+  if (diff.roadmap.length === 0) lines.push('Sin cambios.');
+  diff.roadmap.forEach(item => {
+    if (item.kind === 'changed') {
+      lines.push(`- ${item.phaseName}: Sem ${item.before!.startWeek}-${item.before!.endWeek} → Sem ${item.after!.startWeek}-${item.after!.endWeek}`);
+    } else {
+      const range = (item.after ?? item.before)!;
+      lines.push(`- ${KIND_LABELS[item.kind]}: ${item.phaseName} (Sem ${range.startWeek}-${range.endWeek})`);
+    }
+  });
+
+  lines.push('', '## Riesgos', '');
+  if (diff.risks.length === 0) lines.push('Sin cambios.');
+  diff.risks.forEach(({ kind, risk }) => {
+    lines.push(`- ${kind === 'added' ? 'Nuevo' : 'Eliminado'}: ${risk.risk} (impacto ${risk.impact})`);
+  });
+
+  lines.push('', '## Resumen ejecutivo', '');
+  if (diff.summary) {
+    lines.push(`**Antes:** ${diff.summary.before}`, '', `**Después:** ${diff.summary.after}`);
+  } else {
+    lines.push('Sin cambios.');
+  }
+
+  lines.push('', '## Stack tecnológico', '');
+  if (diff.techStack.length === 0) lines.push('Sin cambios.');
+  diff.techStack.forEach(({ kind, technology }) => {
+    lines.push(`- ${kind === 'added' ? 'Agregada' : 'Eliminada'}: ${technology}`);
+  });
+
+  lines.push('', '## Supuestos', '');
+  if (diff.assumptions.length === 0) lines.push('Sin cambios.');
+  diff.assumptions.forEach(({ kind, assumption }) => {
+    lines.push(`- ${kind === 'added' ? 'Nuevo' : 'Eliminado'}: ${assumption.description}${assumption.impactIfFalse ? ` (si no se cumple: ${assumption.impactIfFalse})` : ''}`);
+  });
+
+  lines.push('', '## Fuera de alcance', '');
+  if (diff.exclusions.length === 0) lines.push('Sin cambios.');
+  diff.exclusions.forEach(({ kind, exclusion }) => {
+    lines.push(`- ${kind === 'added' ? 'Nueva' : 'Eliminada'}: ${exclusion.description}${exclusion.reason ? ` (${exclusion.reason})` : ''}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,67 @@
+import { CostBreakdownItem, EstimateEdits, EstimationResult, PhaseTask, ProjectMetadata } from "../types";
+import { currencyLocale } from "./currency";
+import { scheduleToRoadmap } from "./scheduler";
+import { levelResources } from "./resourceLeveling";
+
+export const formatCurrency = (value: number, currency: string) => {
+  return new Intl.NumberFormat(currencyLocale(currency), {
+    style: 'currency',
+    currency: currency,
+    maximumFractionDigits: 0
+  }).format(value);
+};
+
+// Helper to create a safe ID for roles to use as keys
+export const sanitizeRole = (role: string) => role.replace(/\s+/g, '_').toLowerCase();
+
+// Use the edited rate if it exists (even if 0), otherwise the task's own rate.
+// An empty string means the user cleared the input, which counts as 0.
+export const resolveRate = (roleRates: Record<string, string | number>, task: PhaseTask): number => {
+  const rawRate = roleRates[sanitizeRole(task.assignedRole)];
+  return rawRate !== undefined && rawRate !== '' ? Number(rawRate) : (rawRate === '' ? 0 : task.hourlyRate);
+};
+
+/**
+ * Returns a copy of the estimate with every task, phase and role total
+ * recomputed from task hours and the (possibly edited) rates.
+ */
+export const applyRoleRates = (data: EstimationResult, roleRates: Record<string, string | number>): EstimationResult => {
+  const breakdownMap: Record<string, CostBreakdownItem> = {};
+  const currency = data.totalEstimatedCost.currency;
+
+  const phases = data.phases.map(phase => {
+    const tasks = phase.tasks.map(task => {
+      const hourlyRate = resolveRate(roleRates, task);
+      const cost = task.hours * hourlyRate;
+      const roleKey = sanitizeRole(task.assignedRole);
+      if (!breakdownMap[roleKey]) {
+        breakdownMap[roleKey] = { role: task.assignedRole, totalHours: 0, hourlyRate, subtotalCost: 0, currency };
+      }
+      breakdownMap[roleKey].totalHours += task.hours;
+      breakdownMap[roleKey].subtotalCost += cost;
+      return { ...task, hourlyRate, cost };
+    });
+    return {
+      ...phase,
+      tasks,
+      estimatedHours: tasks.reduce((acc, t) => acc + t.hours, 0),
+      estimatedCost: tasks.reduce((acc, t) => acc + t.cost, 0)
+    };
+  });
+
+  return { ...data, phases, costBreakdown: Object.values(breakdownMap) };
+};
+
+// The estimate as the user sees it: model output plus dashboard edits. With
+// the team and calendar, the roadmap is rescheduled from the (edited) phases.
+export const applyEdits = (data: EstimationResult, edits: EstimateEdits, team?: Pick<ProjectMetadata, 'calendar' | 'roster'>): EstimationResult => {
+  const phases = edits.phases ?? data.phases;
+  const roadmap = edits.roadmap ?? data.roadmap;
+  return applyRoleRates({
+    ...data,
+    assumptions: edits.assumptions ?? data.assumptions,
+    exclusions: edits.exclusions ?? data.exclusions,
+    phases,
+    roadmap: team ? scheduleToRoadmap(levelResources(phases, team.calendar, team.roster, roadmap), roadmap) : roadmap
+  }, edits.roleRates);
+};
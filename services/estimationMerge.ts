@@ -0,0 +1,138 @@
+import { Complexity, Dependency, EstimationResult, PhaseEstimate, PhaseTask, RoadmapItem } from "../types";
+import { PRDChunk } from "./prdChunker";
+
+export interface ChunkEstimate {
+  chunk: PRDChunk;
+  result: EstimationResult;
+}
+
+// Loose enough that "Diseño UI/UX" and "Diseno UI UX" count as the same item
+const key = (value: string) =>
+  (value ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+const COMPLEXITY_ORDER = [Complexity.LOW, Complexity.MEDIUM, Complexity.HIGH];
+
+const unique = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const k = key(value);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+const mergeDependencies = (a: Dependency[] | undefined, b: Dependency[] | undefined): Dependency[] | undefined => {
+  if (!a && !b) return undefined;
+  const merged = [...(a ?? [])];
+  (b ?? []).forEach(dependency => {
+    if (!merged.some(d => key(d.name) === key(dependency.name))) merged.push(dependency);
+  });
+  return merged;
+};
+
+// The same task described in two parts is kept once, with the larger estimate
+const mergeTask = (kept: PhaseTask, duplicate: PhaseTask): PhaseTask => {
+  const larger = duplicate.hours > kept.hours ? duplicate : kept;
+  return {
+    ...larger,
+    name: kept.name,
+    dependsOn: mergeDependencies(kept.dependsOn, duplicate.dependsOn),
+    sourceSections: unique([...(kept.sourceSections ?? []), ...(duplicate.sourceSections ?? [])])
+  };
+};
+
+const mergePhase = (kept: PhaseEstimate, incoming: PhaseEstimate): PhaseEstimate => {
+  const tasks = [...kept.tasks];
+  incoming.tasks.forEach(task => {
+    const idx = tasks.findIndex(t => key(t.name) === key(task.name));
+    if (idx === -1) tasks.push(task);
+    else tasks[idx] = mergeTask(tasks[idx], task);
+  });
+  const complexity = COMPLEXITY_ORDER[Math.max(COMPLEXITY_ORDER.indexOf(kept.complexity), COMPLEXITY_ORDER.indexOf(incoming.complexity))] ?? kept.complexity;
+  return {
+    ...kept,
+    description: unique([kept.description, incoming.description]).join(' '),
+    complexity,
+    tasks,
+    dependsOn: mergeDependencies(kept.dependsOn, incoming.dependsOn)
+  };
+};
+
+const mergeRoadmapItem = (kept: RoadmapItem, incoming: RoadmapItem): RoadmapItem => ({
+  ...kept,
+  startWeek: Math.min(kept.startWeek, incoming.startWeek),
+  endWeek: Math.max(kept.endWeek, incoming.endWeek),
+  milestone: unique([kept.milestone, incoming.milestone]).join('; ')
+});
+
+// Appends `item` to `items`, or folds it into the item with the same name
+const upsert = <T,>(items: T[], item: T, nameOf: (item: T) => string, merge: (kept: T, incoming: T) => T) => {
+  const idx = items.findIndex(existing => key(nameOf(existing)) === key(nameOf(item)));
+  if (idx === -1) items.push(item);
+  else items[idx] = merge(items[idx], item);
+};
+
+/**
+ * Combines the estimates of the parts of a long PRD into one. Phases with
+ * the same name become a single phase, tasks repeated across parts are kept
+ * once and every task records the parts that described it. Costs, role
+ * totals and the final roadmap are left to validateEstimation, which derives
+ * them from the tasks and their dependencies.
+ */
+export const mergeEstimations = (parts: ChunkEstimate[], projectName: string): EstimationResult => {
+  const phases: PhaseEstimate[] = [];
+  const roadmap: RoadmapItem[] = [];
+  parts.forEach(({ chunk, result }) => {
+    (result.phases ?? []).forEach(phase => upsert(phases, {
+      ...phase,
+      tasks: (phase.tasks ?? []).map(task => ({ ...task, sourceSections: [chunk.title] }))
+    }, p => p.name, mergePhase));
+    (result.roadmap ?? []).forEach(item => upsert(roadmap, { ...item }, r => r.phaseName, mergeRoadmapItem));
+  });
+
+  const tasks = phases.flatMap(p => p.tasks);
+  const results = parts.map(p => p.result);
+  const currency = results[0]?.totalEstimatedCost?.currency ?? '';
+
+  return {
+    projectName: projectName || results[0]?.projectName || '',
+    requesterName: results[0]?.requesterName ?? '',
+    requestDate: results[0]?.requestDate ?? '',
+    executiveSummary: [
+      `Estimación consolidada a partir de ${parts.length} secciones del PRD, analizadas por separado.`,
+      ...parts.map(({ chunk, result }) => `${chunk.title}: ${result.executiveSummary ?? ''}`.trim())
+    ].join('\n\n'),
+    totalEstimatedCost: {
+      min: sum(tasks.map(t => (t.optimisticHours ?? t.hours) * t.hourlyRate)),
+      max: sum(tasks.map(t => (t.pessimisticHours ?? t.hours) * t.hourlyRate)),
+      currency
+    },
+    totalEstimatedHours: {
+      min: sum(tasks.map(t => t.optimisticHours ?? t.hours)),
+      max: sum(tasks.map(t => t.pessimisticHours ?? t.hours))
+    },
+    // Parts may run in parallel or one after another; the critical path decides later
+    totalEstimatedDurationWeeks: {
+      min: Math.max(0, ...results.map(r => r.totalEstimatedDurationWeeks?.min ?? 0)),
+      max: sum(results.map(r => r.totalEstimatedDurationWeeks?.max ?? 0))
+    },
+    hourlyRates: results[0]?.hourlyRates ?? [],
+    costBreakdown: [],
+    roadmap,
+    recommendedTechStack: unique(results.flatMap(r => r.recommendedTechStack ?? [])),
+    phases,
+    risks: results.flatMap(r => r.risks ?? []).filter((risk, idx, all) =>
+      all.findIndex(other => key(other.risk) === key(risk.risk)) === idx
+    ),
+    assumptions: results.flatMap(r => r.assumptions ?? []).filter((assumption, idx, all) =>
+      all.findIndex(other => key(other.description) === key(assumption.description)) === idx
+    ),
+    exclusions: results.flatMap(r => r.exclusions ?? []).filter((exclusion, idx, all) =>
+      all.findIndex(other => key(other.description) === key(exclusion.description)) === idx
+    ),
+    teamComposition: unique(results.flatMap(r => r.teamComposition ?? []))
+  };
+};
@@ -0,0 +1,194 @@
+import { ProjectMetadata } from "../types";
+import { JsonSchema } from "./llm";
+
+/**
+ * Single source of truth for the shape of EstimationResult as requested from
+ * the model. Providers translate it into their own schema dialect. Role and
+ * currency fields are restricted to the team roster and the billing currency.
+ */
+export const buildEstimationSchema = ({ roster, currency }: Pick<ProjectMetadata, 'roster' | 'currency'>): JsonSchema => {
+  const roleNames = roster.map(r => r.name);
+  const roleField = (description?: string): JsonSchema => ({ type: 'string', enum: roleNames, ...(description ? { description } : {}) });
+  const currencyField: JsonSchema = { type: 'string', enum: [currency] };
+  const dependsOnField = (description: string): JsonSchema => ({
+    type: 'array',
+    description,
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        lagDays: { type: 'number', description: "Días hábiles de espera tras finalizar la predecesora" }
+      },
+      required: ["name"]
+    }
+  });
+
+  return {
+    type: 'object',
+    properties: {
+      projectName: { type: 'string' },
+      executiveSummary: { type: 'string' },
+      totalEstimatedCost: {
+        type: 'object',
+        properties: {
+          min: { type: 'number' },
+          max: { type: 'number' },
+          currency: currencyField
+        },
+        required: ["min", "max", "currency"]
+      },
+      totalEstimatedDurationWeeks: {
+        type: 'object',
+        properties: {
+          min: { type: 'number' },
+          max: { type: 'number' }
+        },
+        required: ["min", "max"]
+      },
+      totalEstimatedHours: {
+        type: 'object',
+        properties: {
+          min: { type: 'number' },
+          max: { type: 'number' }
+        },
+        required: ["min", "max"]
+      },
+      hourlyRates: {
+        type: 'array',
+        description: "Lista de tarifas por hora asignadas a cada rol involucrado (Debe coincidir con los inputs)",
+        items: {
+          type: 'object',
+          properties: {
+            role: roleField(),
+            rate: { type: 'number' },
+            currency: currencyField
+          },
+          required: ["role", "rate", "currency"]
+        }
+      },
+      costBreakdown: {
+        type: 'array',
+        description: "Desglose detallado de costos por rol. La suma debe coincidir con el total.",
+        items: {
+          type: 'object',
+          properties: {
+            role: roleField(),
+            totalHours: { type: 'number' },
+            hourlyRate: { type: 'number' },
+            subtotalCost: { type: 'number' },
+            currency: currencyField
+          },
+          required: ["role", "totalHours", "hourlyRate", "subtotalCost", "currency"]
+        }
+      },
+      roadmap: {
+        type: 'array',
+        description: "Planificación de alto nivel con fases paralelas si es posible. startWeek relativo al inicio (Mínimo 1). startWeek = 1 significa el inicio del proyecto.",
+        items: {
+          type: 'object',
+          properties: {
+            phaseName: { type: 'string' },
+            startWeek: { type: 'number' },
+            endWeek: { type: 'number' },
+            milestone: { type: 'string' }
+          },
+          required: ["phaseName", "startWeek", "endWeek", "milestone"]
+        }
+      },
+      recommendedTechStack: {
+        type: 'array',
+        items: { type: 'string' }
+      },
+      phases: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            estimatedHours: { type: 'number' },
+            estimatedCost: { type: 'number' },
+            complexity: { type: 'string', enum: ["Baja", "Media", "Alta"] },
+            assignedRole: roleField("Rol responsable principal de la fase"),
+            tasks: {
+              type: 'array',
+              description: "Lista detallada de tareas con asignación de rol específica.",
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  hours: { type: 'number', description: "Horas más probables" },
+                  optimisticHours: { type: 'number', description: "Horas en el escenario optimista (<= hours)" },
+                  pessimisticHours: { type: 'number', description: "Horas en el escenario pesimista (>= hours)" },
+                  cost: { type: 'number' },
+                  assignedRole: roleField("Rol específico (debe ser uno de los roles definidos en el equipo)"),
+                  hourlyRate: { type: 'number', description: "Valor hora aplicado a esta tarea" },
+                  dependsOn: dependsOnField("Tareas de la misma fase que deben finalizar antes de comenzar esta")
+                },
+                required: ["name", "hours", "optimisticHours", "pessimisticHours", "cost", "assignedRole", "hourlyRate"]
+              }
+            },
+            dependsOn: dependsOnField("Fases que deben finalizar antes de comenzar esta (fin a inicio)")
+          },
+          required: ["name", "description", "estimatedHours", "estimatedCost", "complexity", "assignedRole", "tasks"]
+        }
+      },
+      risks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            risk: { type: 'string' },
+            mitigation: { type: 'string' },
+            impact: { type: 'string', enum: ["Alto", "Medio", "Bajo"] }
+          },
+          required: ["risk", "mitigation", "impact"]
+        }
+      },
+      assumptions: {
+        type: 'array',
+        description: "Supuestos sobre los que se apoya la estimación",
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            impactIfFalse: { type: 'string', description: "Qué cambia en la estimación si el supuesto no se cumple" }
+          },
+          required: ["description", "impactIfFalse"]
+        }
+      },
+      exclusions: {
+        type: 'array',
+        description: "Trabajo que queda fuera del alcance de la estimación",
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string' },
+            reason: { type: 'string' }
+          },
+          required: ["description", "reason"]
+        }
+      },
+      teamComposition: {
+        type: 'array',
+        items: { type: 'string' }
+      }
+    },
+    required: [
+      "projectName",
+      "executiveSummary",
+      "totalEstimatedCost",
+      "totalEstimatedDurationWeeks",
+      "totalEstimatedHours",
+      "hourlyRates",
+      "costBreakdown",
+      "roadmap",
+      "recommendedTechStack",
+      "phases",
+      "risks",
+      "assumptions",
+      "exclusions",
+      "teamComposition"
+    ]
+  };
+};
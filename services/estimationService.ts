@@ -0,0 +1,306 @@
+import { AnalysisOptions, AnalysisProgress, AnalysisStage, EstimationResult, ProjectMetadata, RefinementTurn } from "../types";
+import { createProvider, JsonSchema, LLMError, LLMProvider } from "./llm";
+import { buildEstimationSchema } from "./estimationSchema";
+import { billingRate } from "./currency";
+import { describeWorkingDays, weeklyHours } from "./workCalendar";
+import { buildRepairPrompt, countUnresolvedIssues, validateEstimation } from "./estimationValidator";
+import { parsePartialJSON } from "./partialJson";
+import { splitPRD } from "./prdChunker";
+import { ChunkEstimate, mergeEstimations } from "./estimationMerge";
+import { buildClarificationsPrompt } from "./clarifications";
+import { assessPRD } from "./prdQuality";
+
+const parseEstimation = (responseText: string): EstimationResult => {
+  if (!responseText) {
+    throw new LLMError('malformed', "No se pudo generar la estimación. Intenta de nuevo.");
+  }
+
+  try {
+    return JSON.parse(responseText) as EstimationResult;
+  } catch (error) {
+    console.error("Error parsing JSON:", error);
+    throw new LLMError('malformed', "Error al procesar la respuesta de la IA.");
+  }
+};
+
+// Stage reached once each top-level field starts streaming (schema order);
+// the fields before the roadmap are all part of the overview
+const FIELD_STAGES: Partial<Record<string, AnalysisStage>> = {
+  roadmap: 'roadmap',
+  recommendedTechStack: 'roadmap',
+  phases: 'phases',
+  risks: 'risks',
+  assumptions: 'risks',
+  exclusions: 'risks',
+  teamComposition: 'risks'
+};
+
+const streamingStage = (partial: Partial<EstimationResult>): AnalysisStage => {
+  const fields = Object.keys(partial);
+  if (fields.length === 0) return 'connecting';
+  return FIELD_STAGES[fields[fields.length - 1]] ?? 'overview';
+};
+
+// Turns the streamed text into progress updates; `stage` overrides the one
+// derived from the fields, e.g. while a repair is streaming
+const progressReporter = (onProgress: (progress: AnalysisProgress) => void, stage?: AnalysisStage) =>
+  (text: string) => {
+    const parsed = parsePartialJSON(text);
+    const partial = (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {}) as Partial<EstimationResult>;
+    onProgress({ stage: stage ?? streamingStage(partial), partial, receivedChars: text.length });
+  };
+
+// Rules of the estimate, shared by the first analysis and every refinement
+const buildSystemPrompt = (metadata: ProjectMetadata) => {
+  // Format rates (converted to the billing currency) and role definitions for the prompt
+  const currency = metadata.currency;
+  const ratesContext = metadata.roster
+    .map(role => {
+      const original = role.currency !== currency ? ` (equivale a ${role.rate} ${role.currency})` : '';
+      return `- ${role.name}: ${billingRate(role, metadata)} ${currency}/hora${original}`;
+    })
+    .join('\n    ');
+  const rolesContext = metadata.roster
+    .map((role, idx) =>
+      `${idx + 1}. **${role.name}** (${role.headcount} ${role.headcount === 1 ? 'persona' : 'personas'} al ${role.allocation}%): ${role.description || 'Sin descripción; asígnale las tareas propias de su nombre.'}`
+    )
+    .join('\n    ');
+  const { calendar } = metadata;
+
+  return `
+    Eres un Arquitecto de Soluciones Senior y Product Manager Experto.
+    Tu objetivo es analizar un Documento de Requisitos de Producto (PRD) para generar una estimación técnica detallada y matemática precisa.
+    
+    ESTRUCTURA DEL EQUIPO (OBLIGATORIO):
+    Debes utilizar ÚNICA Y EXCLUSIVAMENTE los siguientes roles. No inventes roles nuevos. Asigna cualquier tarea necesaria al rol más afín de esta lista:
+    
+    ${ratesContext}
+    
+    DEFINICIÓN DE ROLES:
+    ${rolesContext}
+
+    REGLAS MATEMÁTICAS ESTRICTAS:
+    1. **Tarifas Fijas**: DEBES usar EXACTAMENTE las tarifas por hora provistas arriba para los cálculos. Todos los montos se expresan en **${currency}**.
+    2. **Cálculo de Tareas**: Costo Tarea = Horas Tarea * Tarifa del Rol Asignado.
+       - \`hours\` es la estimación **más probable**. Agrega \`optimisticHours\` (todo sale bien) y \`pessimisticHours\` (se materializan los riesgos razonables), con optimisticHours <= hours <= pessimisticHours.
+       - Los costos y totales se calculan siempre con \`hours\`; el rango se usa para una simulación de confianza.
+    3. **Jornada Laboral**:
+       - La semana laboral es de **${calendar.workingDays.length} días** (${describeWorkingDays(calendar)}).
+       - Cada día tiene **${calendar.hoursPerDay} horas productivas**.
+       - **Total Horas por Semana = ${weeklyHours(calendar)} Horas** por recurso a tiempo completo; cada persona aporta según su dedicación.
+       - Cada persona trabaja en una tarea a la vez: divide el trabajo de un rol en tareas independientes si hay varias personas para ese rol.
+       - Los feriados ya están descontados en el calendario: una "semana" del roadmap son siempre ${calendar.workingDays.length} días hábiles.
+    4. **DURACIÓN Y ROADMAP (CRÍTICO)**:
+       - El tiempo total en semanas NO es la suma lineal de horas.
+       - DEBES identificar fases que pueden ejecutarse en **PARALELO** (ej. Backend y Frontend pueden avanzar juntos una vez definidos los requisitos).
+       - Declara las dependencias con \`dependsOn\` (fin a inicio, con \`lagDays\` opcional en días hábiles): en cada fase, las fases que deben terminar antes de que empiece; en cada tarea, las tareas de la misma fase que deben terminar antes.
+       - Una fase o tarea sin \`dependsOn\` puede comenzar desde el inicio del proyecto (o de su fase). No declares dependencias circulares.
+       - El roadmap y el \`totalEstimatedDurationWeeks\` se recalculan a partir de estas dependencias (**RUTA CRÍTICA**), por lo que deben reflejar el orden real del trabajo.
+       - **IMPORTANTE**: La numeración de semanas comienza en **1**. La primera semana del proyecto es la Semana 1, nunca la Semana 0.
+    5. **Consistencia**:
+       - La suma de las horas de las tareas de una fase = Horas Totales de la Fase.
+       - La suma de los costos de las tareas = Costo Total de la Fase.
+       - La suma de todos los costos de fases = Costo Total del Proyecto.
+    6. **SUPUESTOS Y EXCLUSIONES**:
+       - En \`assumptions\` lista los supuestos de los que depende la estimación (volumen de usuarios, plataformas, integraciones disponibles, contenidos provistos por el cliente, etc.) y qué cambia si no se cumplen. Incluye las aclaraciones del solicitante, si las hay.
+       - En \`exclusions\` lista el trabajo que NO está incluido: lo que el PRD declara fuera de alcance y lo que un cliente podría esperar pero no se estimó, con el motivo.
+
+    Devuelve la respuesta estrictamente en formato JSON.
+  `;
+};
+
+/**
+ * Estimates a PRD with the given provider. With `onProgress` the response is
+ * streamed and reported as it arrives, stage by stage; `signal` cancels it.
+ */
+export const analyzePRD = async (
+  prdContent: string,
+  metadata: ProjectMetadata,
+  provider: LLMProvider = createProvider(),
+  options: AnalysisOptions = { repromptOnViolations: false },
+  onProgress?: (progress: AnalysisProgress) => void,
+  signal?: AbortSignal
+): Promise<EstimationResult> => {
+  if (metadata.roster.length === 0) {
+    throw new Error("Define al menos un rol en el equipo antes de estimar.");
+  }
+
+  const schema = buildEstimationSchema(metadata);
+  const systemPrompt = buildSystemPrompt(metadata);
+
+  const chunks = splitPRD(prdContent);
+  const outline = chunks.map((chunk, idx) => `${idx + 1}. ${chunk.title}`).join('\n    ');
+  const userPromptFor = (content: string, chunkIdx?: number) => `
+    Detalles del Proyecto:
+    - Nombre: ${metadata.projectName || "Sin nombre"}
+    - Solicitante: ${metadata.requesterName || "Anónimo"}
+    - Fecha Solicitud: ${metadata.date}
+    ${chunkIdx === undefined ? '' : `
+    ANÁLISIS POR PARTES:
+    El PRD es extenso y se estima por secciones. Esta es la parte ${chunkIdx + 1} de ${chunks.length} ("${chunks[chunkIdx].title}"). Índice completo:
+    ${outline}
+
+    - Estima ÚNICAMENTE el trabajo que describe esta parte; las demás se estiman por separado y se combinan después.
+    - Usa nombres de fase genéricos y estables (ej. "Backend", "Frontend", "QA", "Infraestructura") para que las fases de distintas partes se puedan unificar.
+    - Incluye trabajo transversal (infraestructura, despliegue, QA general) solo si esta parte lo menciona explícitamente.
+    `}${buildClarificationsPrompt(options.clarifications)}
+    Contenido del PRD / Requerimientos:
+    ${content}
+  `;
+  const onRetry = (error: LLMError, attempt: number) =>
+    onProgress?.({ stage: 'connecting', partial: {}, receivedChars: 0, retry: { attempt, reason: error.message } });
+
+  const userPrompt = userPromptFor(prdContent);
+  let responseText = '';
+  let parsed: EstimationResult;
+  if (chunks.length === 1) {
+    onProgress?.({ stage: 'connecting', partial: {}, receivedChars: 0 });
+    responseText = await provider.generateJSON({
+      systemPrompt,
+      userPrompt,
+      schema,
+      signal,
+      onText: onProgress && progressReporter(onProgress),
+      onRetry
+    });
+    parsed = parseEstimation(responseText);
+  } else {
+    // Map: each part on its own; reduce: one estimate with unified phases
+    const parts: ChunkEstimate[] = [];
+    for (const [idx, chunk] of chunks.entries()) {
+      const chunkInfo = { index: idx + 1, count: chunks.length, title: chunk.title };
+      // Show what the finished parts found next to the part being streamed
+      const done = mergeEstimations(parts, metadata.projectName);
+      const report = onProgress && progressReporter(progress => onProgress({
+        ...progress,
+        partial: {
+          ...progress.partial,
+          phases: [...done.phases, ...(progress.partial.phases ?? [])],
+          risks: [...done.risks, ...(progress.partial.risks ?? [])]
+        },
+        chunk: chunkInfo
+      }));
+      onProgress?.({ stage: 'connecting', partial: done, receivedChars: 0, chunk: chunkInfo });
+      const chunkText = await provider.generateJSON({
+        systemPrompt,
+        userPrompt: userPromptFor(chunk.content, idx),
+        schema,
+        signal,
+        onText: report,
+        onRetry: (error, attempt) => onProgress?.({ stage: 'connecting', partial: done, receivedChars: 0, retry: { attempt, reason: error.message }, chunk: chunkInfo })
+      });
+      parts.push({ chunk, result: parseEstimation(chunkText) });
+    }
+    parsed = mergeEstimations(parts, metadata.projectName);
+    onProgress?.({ stage: 'merging', partial: parsed, receivedChars: 0 });
+  }
+
+  onProgress?.({ stage: 'validating', partial: parsed, receivedChars: responseText.length });
+  let report = validateEstimation(parsed, metadata);
+
+  // A repair resends the whole PRD, which is exactly what a long one cannot afford
+  if (options.repromptOnViolations && chunks.length === 1 && countUnresolvedIssues(report.issues) > 0) {
+    // Second chance: show the model exactly which rules it broke
+    onProgress?.({ stage: 'repairing', partial: parsed, receivedChars: 0 });
+    try {
+      const repairedText = await provider.generateJSON({
+        systemPrompt,
+        userPrompt: buildRepairPrompt(userPrompt, responseText, report.issues),
+        schema,
+        signal,
+        onText: onProgress && progressReporter(onProgress, 'repairing')
+      });
+      const repairedReport = validateEstimation(parseEstimation(repairedText), metadata);
+      if (countUnresolvedIssues(repairedReport.issues) <= countUnresolvedIssues(report.issues)) {
+        report = repairedReport;
+      }
+    } catch (error) {
+      // Keep the first estimate unless the user gave up on the whole analysis
+      if (signal?.aborted) throw error;
+      console.error("Repair attempt failed:", error);
+    }
+  }
+
+  return {
+    ...report.result,
+    requesterName: metadata.requesterName,
+    requestDate: metadata.date,
+    clarifications: options.clarifications,
+    prdQuality: assessPRD(prdContent, options.clarifications)
+  };
+};
+
+export interface RefinementProposal {
+  instruction: string;
+  summary: string;
+  result: EstimationResult;
+}
+
+/**
+ * Applies a change asked in plain words ("quita el panel de administración")
+ * to an existing estimate instead of estimating the PRD again. The model
+ * gets the current estimate back and returns it modified, and the result
+ * goes through the same validation as a fresh analysis.
+ */
+export const refineEstimate = async (
+  current: EstimationResult,
+  metadata: ProjectMetadata,
+  instruction: string,
+  previous: RefinementTurn[] = [],
+  provider: LLMProvider = createProvider(),
+  signal?: AbortSignal
+): Promise<RefinementProposal> => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      changeSummary: { type: 'string', description: "Resumen breve de los cambios realizados y su motivo" },
+      estimate: buildEstimationSchema(metadata)
+    },
+    required: ['changeSummary', 'estimate']
+  };
+  // The validator findings are rebuilt afterwards and would only distract the model
+  const { validationIssues, requesterName, requestDate, prdQuality, ...context } = current;
+  const applied = previous.filter(turn => turn.accepted).map(turn => `- ${turn.instruction}`).join('\n    ');
+
+  const userPrompt = `
+    ESTIMACIÓN ACTUAL (JSON):
+    ${JSON.stringify(context)}
+    ${applied ? `
+    Cambios aplicados anteriormente (ya incluidos en la estimación actual):
+    ${applied}
+    ` : ''}
+    INSTRUCCIÓN DEL USUARIO:
+    "${instruction}"
+
+    Devuelve en \`estimate\` la estimación completa, modificada según la instrucción:
+    - Cambia ÚNICAMENTE lo necesario para cumplirla. Conserva exactamente los nombres, horas, roles y dependencias de las fases y tareas que no se ven afectadas.
+    - Si agregas trabajo, crea fases o tareas con sus horas, rango optimista/pesimista y dependencias; si quitas trabajo, elimina también las dependencias hacia lo eliminado.
+    - Actualiza los riesgos, los supuestos, las exclusiones, el stack tecnológico y el resumen ejecutivo solo si la instrucción los afecta. Lo que se quite del alcance pasa a las exclusiones.
+    En \`changeSummary\` explica en pocas frases qué cambiaste y por qué.
+  `;
+
+  const responseText = await provider.generateJSON({
+    systemPrompt: buildSystemPrompt(metadata),
+    userPrompt,
+    schema,
+    signal
+  });
+
+  let response: { changeSummary?: string; estimate?: EstimationResult };
+  try {
+    response = JSON.parse(responseText);
+  } catch (error) {
+    console.error("Error parsing refinement:", error);
+    throw new LLMError('malformed', "Error al procesar la respuesta de la IA.");
+  }
+  if (!response.estimate || !Array.isArray(response.estimate.phases)) {
+    throw new LLMError('malformed', "La IA no devolvió la estimación modificada. Intenta reformular la instrucción.");
+  }
+
+  const { result } = validateEstimation(response.estimate, metadata);
+  return {
+    instruction,
+    summary: response.changeSummary?.trim() || "La IA no describió los cambios.",
+    result: { ...result, requesterName, requestDate, clarifications: current.clarifications, prdQuality }
+  };
+};
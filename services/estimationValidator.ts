@@ -0,0 +1,344 @@
+import { Dependency, EstimationResult, PhaseEstimate, ProjectMetadata, TeamRole, ValidationIssue } from "../types";
+import { billingRate } from "./currency";
+import { hasDependencies, inferPhaseDependencies, scheduleToRoadmap } from "./scheduler";
+import { levelResources } from "./resourceLeveling";
+
+export interface ValidationReport {
+  result: EstimationResult;
+  issues: ValidationIssue[];
+}
+
+// Hints used to map roles the model invents onto the team, keyed by the
+// normalized name of well-known roles. Other roles rely on their own name
+// and description.
+const ROLE_KEYWORDS: Record<string, string[]> = {
+  'product owner': ['product', 'owner', 'po', 'pm', 'manager', 'scrum', 'analyst', 'analista', 'negocio', 'business', 'project', 'proyecto'],
+  'back-end developer': ['back', 'backend', 'server', 'servidor', 'api', 'devops', 'database', 'datos', 'data', 'architect', 'arquitecto', 'infra', 'cloud', 'fullstack'],
+  'front-end developer': ['front', 'frontend', 'web', 'mobile', 'movil', 'ios', 'android', 'react', 'cliente'],
+  'qa engineer': ['qa', 'test', 'tester', 'testing', 'quality', 'calidad', 'pruebas'],
+  'ui/ux designer': ['ui', 'ux', 'design', 'designer', 'disenador', 'diseno', 'visual'],
+  'devops engineer': ['devops', 'sre', 'infra', 'infraestructura', 'cloud', 'ci', 'cd', 'deploy', 'despliegue', 'ops'],
+  'data engineer': ['data', 'datos', 'etl', 'pipeline', 'warehouse', 'bi', 'analytics'],
+  'mobile developer': ['mobile', 'movil', 'ios', 'android', 'app', 'flutter', 'swift', 'kotlin'],
+  'tech lead': ['lead', 'lider', 'architect', 'arquitecto', 'tecnico', 'technical'],
+  'scrum master': ['scrum', 'master', 'agile', 'agil', 'facilitador', 'coach']
+};
+
+const MONEY_TOLERANCE = 0.01;
+
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+const tokenize = (value: string) => normalize(value).split(/[^a-z0-9]+/).filter(Boolean);
+
+const levenshtein = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+// Name tokens weigh more than hints so that, e.g., "DevOps" lands on a
+// "DevOps Engineer" role before the back-end role that also lists devops.
+const keywordScore = (tokens: string[], candidate: TeamRole) => {
+  const nameTokens = tokenize(candidate.name);
+  const hints = [
+    ...(ROLE_KEYWORDS[normalize(candidate.name)] ?? []),
+    ...tokenize(candidate.description).filter(t => t.length >= 4)
+  ];
+  return sum(tokens.map(t => nameTokens.includes(t) ? 2 : hints.includes(t) ? 1 : 0));
+};
+
+export const findClosestRole = (role: string, roster: TeamRole[]): string => {
+  if (roster.length === 0) return role;
+
+  const exact = roster.find(r => normalize(r.name) === normalize(role || ''));
+  if (exact) return exact.name;
+
+  const tokens = tokenize(role || '');
+  let best = roster[0];
+  let bestScore = 0;
+  roster.forEach(candidate => {
+    const score = keywordScore(tokens, candidate);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  if (bestScore > 0) return best.name;
+
+  // No keyword hit: fall back to plain edit distance
+  return roster.reduce((closest, candidate) =>
+    levenshtein(normalize(candidate.name), normalize(role || '')) < levenshtein(normalize(closest.name), normalize(role || ''))
+      ? candidate
+      : closest
+  ).name;
+};
+
+const differs = (a: number, b: number) => Math.abs(a - b) > MONEY_TOLERANCE;
+
+/**
+ * Checks the model output against the "REGLAS MATEMÁTICAS ESTRICTAS" of the
+ * prompt. Everything that can be derived from task hours and the user's rates
+ * is recomputed; what cannot be fixed deterministically is reported as a warning.
+ */
+export const validateEstimation = (raw: EstimationResult, metadata: ProjectMetadata): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const corrected = (rule: string, message: string) => issues.push({ rule, message, severity: 'corrected' });
+  const warn = (rule: string, message: string) => issues.push({ rule, message, severity: 'warning' });
+
+  const currency = metadata.currency;
+  const roster = metadata.roster;
+  const billingRates = new Map(roster.map(r => [r.name, billingRate(r, metadata)]));
+  const rateOf = (role: string) => billingRates.get(role) ?? 0;
+  const roleRemaps: Record<string, { role: string; count: number }> = {};
+  let invalidHours = 0;
+  let wrongRates = 0;
+  let wrongCosts = 0;
+  let missingRanges = 0;
+  let invalidRanges = 0;
+
+  const resolveRole = (role: string): string => {
+    const member = findClosestRole(role, roster);
+    if (member !== role) {
+      const key = role || '(vacío)';
+      roleRemaps[key] = { role: member, count: (roleRemaps[key]?.count ?? 0) + 1 };
+    }
+    return member;
+  };
+
+  // ---------------- TASKS & PHASES ----------------
+  const phases: PhaseEstimate[] = (raw.phases ?? []).map(phase => {
+    const tasks = (phase.tasks ?? []).map(task => {
+      const assignedRole = resolveRole(task.assignedRole);
+      const hourlyRate = rateOf(assignedRole);
+      let hours = Number(task.hours);
+      if (!Number.isFinite(hours) || hours <= 0) {
+        invalidHours++;
+        hours = Number.isFinite(hours) ? Math.max(0, hours) : 0;
+      }
+      if (differs(Number(task.hourlyRate), hourlyRate)) wrongRates++;
+      const cost = hours * hourlyRate;
+      if (differs(Number(task.cost), cost)) wrongCosts++;
+
+      let optimisticHours = Number(task.optimisticHours);
+      let pessimisticHours = Number(task.pessimisticHours);
+      if (!Number.isFinite(optimisticHours) || !Number.isFinite(pessimisticHours)) {
+        missingRanges++;
+        optimisticHours = Number.isFinite(optimisticHours) ? optimisticHours : hours;
+        pessimisticHours = Number.isFinite(pessimisticHours) ? pessimisticHours : hours;
+      }
+      if (optimisticHours < 0 || optimisticHours > hours || pessimisticHours < hours) {
+        invalidRanges++;
+        optimisticHours = Math.max(0, Math.min(optimisticHours, hours));
+        pessimisticHours = Math.max(pessimisticHours, hours);
+      }
+      return { ...task, assignedRole, hourlyRate, hours, optimisticHours, pessimisticHours, cost };
+    });
+
+    if (tasks.length === 0) {
+      warn('phase-tasks', `La fase "${phase.name}" no tiene tareas; sus horas y costo no se pueden verificar.`);
+      return { ...phase, assignedRole: resolveRole(phase.assignedRole), tasks };
+    }
+
+    const estimatedHours = sum(tasks.map(t => t.hours));
+    const estimatedCost = sum(tasks.map(t => t.cost));
+    if (differs(Number(phase.estimatedHours), estimatedHours)) {
+      corrected('phase-hours', `Horas de "${phase.name}" ajustadas de ${phase.estimatedHours} a ${estimatedHours} (suma de sus tareas).`);
+    }
+    if (differs(Number(phase.estimatedCost), estimatedCost)) {
+      corrected('phase-cost', `Costo de "${phase.name}" recalculado a partir de sus tareas.`);
+    }
+    return { ...phase, assignedRole: resolveRole(phase.assignedRole), tasks, estimatedHours, estimatedCost };
+  });
+
+  Object.entries(roleRemaps).forEach(([from, { role, count }]) => {
+    corrected('unknown-role', `Rol "${from}" no pertenece al equipo; reasignado a "${role}" (${count} ${count === 1 ? 'vez' : 'veces'}).`);
+  });
+  if (wrongRates > 0) {
+    corrected('task-rate', `Se aplicó la tarifa configurada a ${wrongRates} ${wrongRates === 1 ? 'tarea' : 'tareas'} con un valor hora distinto.`);
+  }
+  if (wrongCosts > 0) {
+    corrected('task-cost', `Se recalculó el costo (horas × tarifa) de ${wrongCosts} ${wrongCosts === 1 ? 'tarea' : 'tareas'}.`);
+  }
+  if (missingRanges > 0) {
+    corrected('three-point', `${missingRanges} ${missingRanges === 1 ? 'tarea no tenía' : 'tareas no tenían'} estimación optimista o pesimista; se usaron sus horas más probables.`);
+  }
+  if (invalidRanges > 0) {
+    corrected('three-point', `Se ordenó el rango optimista-probable-pesimista de ${invalidRanges} ${invalidRanges === 1 ? 'tarea' : 'tareas'}.`);
+  }
+  if (invalidHours > 0) {
+    warn('task-hours', `${invalidHours} ${invalidHours === 1 ? 'tarea tiene' : 'tareas tienen'} horas nulas o inválidas.`);
+  }
+
+  // ---------------- ROLE TOTALS ----------------
+  const allTasks = phases.flatMap(p => p.tasks);
+  const costBreakdown = roster
+    .map(({ name: role }) => {
+      const roleTasks = allTasks.filter(t => t.assignedRole === role);
+      return {
+        role,
+        totalHours: sum(roleTasks.map(t => t.hours)),
+        hourlyRate: rateOf(role),
+        subtotalCost: sum(roleTasks.map(t => t.cost)),
+        currency
+      };
+    })
+    .filter(item => item.totalHours > 0);
+
+  const breakdownMatches = costBreakdown.length === (raw.costBreakdown ?? []).length &&
+    costBreakdown.every(item => {
+      const original = raw.costBreakdown.find(b => b.role === item.role);
+      return original && !differs(original.totalHours, item.totalHours) && !differs(original.subtotalCost, item.subtotalCost);
+    });
+  if (!breakdownMatches) {
+    corrected('cost-breakdown', 'El desglose de costos por rol se reconstruyó a partir de las tareas.');
+  }
+
+  const hourlyRates = roster.map(({ name: role }) => ({ role, rate: rateOf(role), currency }));
+
+  const totalHours = sum(allTasks.map(t => t.hours));
+  const totalCost = sum(allTasks.map(t => t.cost));
+
+  const totalEstimatedHours = { ...(raw.totalEstimatedHours ?? { min: totalHours, max: totalHours }) };
+  if (totalHours < totalEstimatedHours.min || totalHours > totalEstimatedHours.max) {
+    corrected('total-hours', `El rango de horas (${totalEstimatedHours.min}-${totalEstimatedHours.max}) no incluía la suma de tareas (${totalHours}); se amplió.`);
+    totalEstimatedHours.min = Math.min(totalEstimatedHours.min, totalHours);
+    totalEstimatedHours.max = Math.max(totalEstimatedHours.max, totalHours);
+  }
+
+  if (raw.totalEstimatedCost?.currency && raw.totalEstimatedCost.currency !== currency) {
+    corrected('currency', `La respuesta usaba la moneda "${raw.totalEstimatedCost.currency}"; se expresó en ${currency}.`);
+  }
+  const totalEstimatedCost = { ...(raw.totalEstimatedCost ?? { min: totalCost, max: totalCost, currency }), currency };
+  if (totalCost < totalEstimatedCost.min - MONEY_TOLERANCE || totalCost > totalEstimatedCost.max + MONEY_TOLERANCE) {
+    corrected('total-cost', 'El rango de costo total no incluía la suma de las fases; se amplió.');
+    totalEstimatedCost.min = Math.min(totalEstimatedCost.min, totalCost);
+    totalEstimatedCost.max = Math.max(totalEstimatedCost.max, totalCost);
+  }
+
+  // ---------------- DEPENDENCIES ----------------
+  let droppedDependencies = 0;
+  // Keeps links to other existing items (by normalized name) with a usable lag
+  const cleanDependencies = (dependencies: Dependency[] | undefined, own: string, candidates: string[]): Dependency[] | undefined => {
+    if (!Array.isArray(dependencies)) return undefined;
+    const kept: Dependency[] = [];
+    dependencies.forEach(dependency => {
+      const target = candidates.find(c => normalize(c) === normalize(dependency?.name ?? ''));
+      if (!target || normalize(target) === normalize(own) || kept.some(k => k.name === target)) {
+        droppedDependencies++;
+        return;
+      }
+      const lagDays = Number(dependency.lagDays);
+      kept.push(Number.isFinite(lagDays) && lagDays > 0 ? { name: target, lagDays: Math.round(lagDays) } : { name: target });
+    });
+    return kept;
+  };
+
+  const phaseNames = phases.map(p => p.name);
+  let linkedPhases: PhaseEstimate[] = phases.map(phase => ({
+    ...phase,
+    dependsOn: cleanDependencies(phase.dependsOn, phase.name, phaseNames),
+    tasks: phase.tasks.map(task => ({
+      ...task,
+      dependsOn: cleanDependencies(task.dependsOn, task.name, phase.tasks.map(t => t.name))
+    }))
+  }));
+  if (droppedDependencies > 0) {
+    corrected('dependencies', `Se descartaron ${droppedDependencies} ${droppedDependencies === 1 ? 'dependencia' : 'dependencias'} hacia fases o tareas inexistentes.`);
+  }
+
+  // ---------------- ROADMAP ----------------
+  let roadmap = (raw.roadmap ?? []).map(item => ({ ...item }));
+  if (roadmap.length > 0) {
+    const firstWeek = Math.min(...roadmap.map(r => r.startWeek));
+    if (firstWeek < 1) {
+      const shift = 1 - firstWeek;
+      roadmap = roadmap.map(r => ({ ...r, startWeek: r.startWeek + shift, endWeek: r.endWeek + shift }));
+      corrected('roadmap-start', `El roadmap comenzaba en la semana ${firstWeek}; se desplazó para empezar en la Semana 1.`);
+    }
+    roadmap.forEach(r => {
+      if (r.endWeek < r.startWeek) {
+        corrected('roadmap-order', `"${r.phaseName}" terminaba antes de empezar; se ajustó su semana final.`);
+        r.endWeek = r.startWeek;
+      }
+    });
+  }
+
+  if (!hasDependencies(linkedPhases) && linkedPhases.length > 1) {
+    if (roadmap.length > 0) {
+      linkedPhases = inferPhaseDependencies(linkedPhases, roadmap, metadata.calendar);
+      corrected('dependencies', 'La respuesta no declaraba dependencias; se dedujeron del orden del roadmap.');
+    } else {
+      warn('dependencies', 'La respuesta no declara dependencias ni roadmap; todas las fases se planificaron en paralelo.');
+    }
+  }
+
+  // The roadmap is always derived from the dependencies (critical path),
+  // leveled to the people available in each role
+  const schedule = levelResources(linkedPhases, metadata.calendar, roster);
+  schedule.unconstrained.warnings.forEach(message => warn('dependency-cycle', message));
+  if (schedule.overloads.length > 0) {
+    const roles = Array.from(new Set(schedule.overloads.map(o => o.role)));
+    corrected('resource-leveling', `${roles.map(r => `"${r}"`).join(', ')} ${roles.length === 1 ? 'quedaba sobreasignado' : 'quedaban sobreasignados'} en alguna semana; el roadmap se niveló según las personas disponibles.`);
+  }
+  const scheduledRoadmap = scheduleToRoadmap(schedule, roadmap);
+  const roadmapMatches = scheduledRoadmap.length === roadmap.length &&
+    scheduledRoadmap.every(item => roadmap.some(r =>
+      normalize(r.phaseName) === normalize(item.phaseName) && r.startWeek === item.startWeek && r.endWeek === item.endWeek
+    ));
+  if (roadmap.length > 0 && !roadmapMatches) {
+    corrected('roadmap-schedule', 'El roadmap se recalculó a partir de las horas de las tareas, sus dependencias, el equipo y el calendario laboral.');
+  }
+  roadmap = scheduledRoadmap;
+
+  const totalEstimatedDurationWeeks = { ...(raw.totalEstimatedDurationWeeks ?? { min: 0, max: 0 }) };
+  const criticalWeeks = schedule.durationWeeks;
+  if (criticalWeeks < totalEstimatedDurationWeeks.min || criticalWeeks > totalEstimatedDurationWeeks.max) {
+    corrected('duration', `El rango de duración (${totalEstimatedDurationWeeks.min}-${totalEstimatedDurationWeeks.max} semanas) no incluía la ruta crítica (${criticalWeeks} semanas); se amplió.`);
+    totalEstimatedDurationWeeks.min = Math.min(totalEstimatedDurationWeeks.min, criticalWeeks);
+    totalEstimatedDurationWeeks.max = Math.max(totalEstimatedDurationWeeks.max, criticalWeeks);
+  }
+
+  return {
+    result: {
+      ...raw,
+      phases: linkedPhases,
+      costBreakdown,
+      hourlyRates,
+      roadmap,
+      totalEstimatedHours,
+      totalEstimatedCost,
+      totalEstimatedDurationWeeks,
+      recommendedTechStack: raw.recommendedTechStack ?? [],
+      risks: raw.risks ?? [],
+      assumptions: raw.assumptions ?? [],
+      exclusions: raw.exclusions ?? [],
+      teamComposition: raw.teamComposition ?? [],
+      validationIssues: issues
+    },
+    issues
+  };
+};
+
+export const countUnresolvedIssues = (issues: ValidationIssue[]) => issues.filter(i => i.severity === 'warning').length;
+
+// Follow-up prompt asking the model to fix what the validator could not
+export const buildRepairPrompt = (originalPrompt: string, previousResponse: string, issues: ValidationIssue[]) => `
+    ${originalPrompt}
+
+    Tu respuesta anterior fue:
+    ${previousResponse}
+
+    Esa respuesta viola las siguientes reglas. Corrígelas y devuelve el JSON completo nuevamente:
+    ${issues.filter(i => i.severity === 'warning').map(i => `- ${i.message}`).join('\n    ')}
+  `;
@@ -0,0 +1,178 @@
+import { EstimateEdits, EstimationResult, ProjectMetadata, SavedEstimate } from "../types";
+import { rosterFromRates, withRoleDefaults } from "./teamRoster";
+import { DEFAULT_CALENDAR, defaultStartDate } from "./workCalendar";
+
+const DB_NAME = 'estimia';
+const DB_VERSION = 2;
+const STORE = 'estimates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const store = db.objectStoreNames.contains(STORE)
+          ? request.transaction!.objectStore(STORE)
+          : db.createObjectStore(STORE, { keyPath: 'id' });
+        if (event.oldVersion < 1) {
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 2) {
+          store.createIndex('projectId', 'projectId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a promise
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Metadata saved before the configurable roster only had `userRates` (and no
+// currency, calendar, start date or headcount)
+type StoredMetadata = ProjectMetadata & { userRates?: Record<string, number> };
+
+// Estimates saved before versioning existed are their own single-version project;
+// lists missing from older records or imported files start empty, and a
+// partial calendar is completed with the defaults
+export const normalizeEstimate = (estimate: SavedEstimate): SavedEstimate => {
+  const { userRates, ...metadata } = estimate.metadata as StoredMetadata;
+  return {
+    ...estimate,
+    projectId: estimate.projectId ?? estimate.id,
+    version: estimate.version ?? 1,
+    result: {
+      ...estimate.result,
+      hourlyRates: estimate.result.hourlyRates ?? [],
+      recommendedTechStack: estimate.result.recommendedTechStack ?? [],
+      assumptions: estimate.result.assumptions ?? [],
+      exclusions: estimate.result.exclusions ?? [],
+      teamComposition: estimate.result.teamComposition ?? []
+    },
+    metadata: {
+      ...metadata,
+      roster: (metadata.roster ?? rosterFromRates(userRates ?? {})).map(withRoleDefaults),
+      currency: metadata.currency ?? estimate.result.totalEstimatedCost.currency,
+      exchangeRates: metadata.exchangeRates ?? {},
+      calendar: { ...DEFAULT_CALENDAR, ...metadata.calendar },
+      startDate: metadata.startDate ?? defaultStartDate(new Date(estimate.createdAt))
+    }
+  };
+};
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Most recently updated first
+export const listEstimates = async (): Promise<SavedEstimate[]> => {
+  const all = await run<SavedEstimate[]>('readonly', store => store.index('updatedAt').getAll());
+  return all.reverse().map(normalizeEstimate);
+};
+
+export const getEstimate = async (id: string): Promise<SavedEstimate | undefined> => {
+  const estimate = await run<SavedEstimate | undefined>('readonly', store => store.get(id));
+  return estimate && normalizeEstimate(estimate);
+};
+
+export const listVersions = async (projectId: string): Promise<SavedEstimate[]> => {
+  // Records saved before versioning have no projectId, so the index misses
+  // them; their project id is their own id
+  const [indexed, legacy] = await Promise.all([
+    run<SavedEstimate[]>('readonly', store => store.index('projectId').getAll(projectId)),
+    run<SavedEstimate | undefined>('readonly', store => store.get(projectId))
+  ]);
+  const versions = legacy && legacy.projectId === undefined ? [...indexed, legacy] : indexed;
+  return versions.map(normalizeEstimate).sort((a, b) => a.version - b.version);
+};
+
+export const nextVersion = async (projectId: string): Promise<number> => {
+  const versions = await listVersions(projectId);
+  return versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+};
+
+export const putEstimate = async (estimate: SavedEstimate): Promise<SavedEstimate> => {
+  const saved = { ...estimate, updatedAt: new Date().toISOString() };
+  await run('readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const buildEstimate = (
+  prdText: string,
+  metadata: ProjectMetadata,
+  result: EstimationResult,
+  edits: EstimateEdits = { roleRates: {} },
+  project?: { projectId: string; version: number; versionLabel?: string }
+): SavedEstimate => {
+  const now = new Date().toISOString();
+  const id = newId();
+  return {
+    id,
+    projectId: project?.projectId ?? id,
+    version: project?.version ?? 1,
+    versionLabel: project?.versionLabel,
+    createdAt: now,
+    updatedAt: now,
+    prdText,
+    metadata,
+    result,
+    edits
+  };
+};
+
+// Snapshot of an estimate (with its current edits and refinement log) as the next version of its project
+export const saveAsNewVersion = async (estimate: SavedEstimate, versionLabel?: string): Promise<SavedEstimate> =>
+  putEstimate({
+    ...buildEstimate(estimate.prdText, estimate.metadata, estimate.result, estimate.edits, {
+      projectId: estimate.projectId,
+      version: await nextVersion(estimate.projectId),
+      versionLabel
+    }),
+    refinements: estimate.refinements
+  });
+
+export const duplicateEstimate = async (id: string): Promise<SavedEstimate> => {
+  const original = await getEstimate(id);
+  if (!original) {
+    throw new Error("La estimación ya no existe en el historial.");
+  }
+  const projectName = `${original.result.projectName} (copia)`;
+  return putEstimate(buildEstimate(
+    original.prdText,
+    { ...original.metadata, projectName },
+    { ...original.result, projectName },
+    original.edits
+  ));
+};
+
+export const deleteEstimate = (id: string): Promise<undefined> =>
+  run<undefined>('readwrite', store => store.delete(id));
+
+export const searchEstimates = (estimates: SavedEstimate[], query: string): SavedEstimate[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return estimates;
+  return estimates.filter(e =>
+    [e.result.projectName, e.metadata.requesterName, e.result.executiveSummary, e.prdText]
+      .some(field => (field || '').toLowerCase().includes(needle))
+  );
+};
+
+export const formatVersionName = (estimate: SavedEstimate) =>
+  `v${estimate.version}${estimate.versionLabel ? ` · ${estimate.versionLabel}` : ''}`;
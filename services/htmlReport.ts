@@ -0,0 +1,343 @@
+import { formatCurrency } from "./estimationMath";
+import { exportFileName, SpreadsheetContext } from "./spreadsheetExport";
+import { formatShortDate, parseISODate, roadmapItemDates } from "./workCalendar";
+import { downloadFile } from "./download";
+import { ChartId, ChartSvg } from "./chartCapture";
+import { CLARIFICATION_TOPIC_LABELS } from "./clarifications";
+import { prdCheckLabel, PRD_CONFIDENCE_LABELS } from "./prdQuality";
+
+export interface HtmlReportContext extends SpreadsheetContext {
+  versionName: string;
+  charts: Partial<Record<ChartId, ChartSvg>>;
+  // Colors of the budget chart, in phase order
+  phaseColors: string[];
+  // Working days each phase can slip without delaying the project
+  slackDays: Record<string, number>;
+}
+
+// Everything that comes from the model or the user goes through here
+const escapeHtml = (value: string | number) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// No external stylesheet, so the report looks the same offline or behind a proxy
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 32px 16px; background: #f8fafc; color: #0f172a; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; line-height: 1.5; }
+  .page { max-width: 1000px; margin: 0 auto; background: #fff; padding: 40px; border-radius: 12px; box-shadow: 0 10px 15px -3px rgb(0 0 0 / 0.1); }
+  h1 { font-size: 30px; color: #4338ca; margin: 0 0 4px; }
+  h2 { font-size: 20px; margin: 40px 0 12px; padding-bottom: 6px; border-bottom: 2px solid #e0e7ff; }
+  h3 { font-size: 15px; margin: 0; }
+  .meta { display: flex; flex-wrap: wrap; gap: 8px 24px; font-size: 13px; color: #64748b; margin-bottom: 24px; }
+  .summary { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 16px; white-space: pre-line; }
+  .kpis { display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 12px; margin-top: 24px; }
+  .kpi { border-radius: 8px; padding: 16px; text-align: center; }
+  .kpi .value { font-size: 22px; font-weight: 700; }
+  .kpi .label { font-size: 12px; }
+  .kpi .note { font-size: 11px; color: #64748b; margin-top: 2px; }
+  .kpi.cost { background: #f0fdf4; color: #166534; }
+  .kpi.hours { background: #eef2ff; color: #3730a3; }
+  .kpi.weeks { background: #eff6ff; color: #1e40af; }
+  .kpi.end { background: #faf5ff; color: #6b21a8; }
+  .chips { display: flex; flex-wrap: wrap; gap: 8px; }
+  .chip { font-size: 12px; font-weight: 500; background: #f1f5f9; border: 1px solid #e2e8f0; border-radius: 6px; padding: 4px 10px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; margin-bottom: 16px; }
+  th { text-align: left; font-size: 11px; text-transform: uppercase; letter-spacing: 0.04em; color: #334155; background: #f1f5f9; padding: 8px 12px; }
+  td { padding: 8px 12px; border-bottom: 1px solid #f1f5f9; color: #475569; vertical-align: top; }
+  td.strong { color: #0f172a; font-weight: 600; }
+  .num { text-align: right; white-space: nowrap; }
+  tr.total td { background: #f1f5f9; color: #0f172a; font-weight: 700; }
+  .charts { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 24px; }
+  .chart { border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  .chart h3 { margin-bottom: 8px; }
+  .chart svg { max-width: 100%; height: auto; }
+  .legend { list-style: none; padding: 0; margin: 8px 0 0; font-size: 12px; }
+  .legend li { display: flex; align-items: center; gap: 6px; margin-bottom: 4px; }
+  .legend .swatch { width: 10px; height: 10px; border-radius: 50%; flex-shrink: 0; }
+  .legend .amount { margin-left: auto; color: #64748b; }
+  .gantt { overflow-x: auto; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; margin-bottom: 16px; }
+  .gantt-legend { display: flex; gap: 16px; font-size: 12px; color: #64748b; margin-bottom: 16px; }
+  .gantt-legend span::before { content: ''; display: inline-block; width: 12px; height: 8px; border-radius: 2px; margin-right: 6px; background: var(--color); }
+  .critical { color: #dc2626; font-weight: 700; }
+  .phase { border: 1px solid #e2e8f0; border-radius: 8px; overflow: hidden; margin-bottom: 20px; }
+  .phase-head { background: #f8fafc; padding: 12px 16px; border-bottom: 1px solid #f1f5f9; }
+  .phase-head .row { display: flex; justify-content: space-between; gap: 16px; font-weight: 700; }
+  .phase-head .info { font-size: 13px; color: #4f46e5; }
+  .phase-body { padding: 12px 16px; }
+  .phase-body p { font-size: 13px; color: #475569; margin: 0 0 12px; }
+  .impact { display: inline-block; font-size: 11px; font-weight: 700; border-radius: 999px; padding: 2px 8px; }
+  .impact.Alto { background: #fee2e2; color: #b91c1c; }
+  .impact.Medio { background: #fef3c7; color: #b45309; }
+  .impact.Bajo { background: #dcfce7; color: #15803d; }
+  footer { text-align: center; font-size: 12px; color: #94a3b8; margin-top: 40px; }
+  @media print { body { background: #fff; padding: 0; } .page { box-shadow: none; padding: 0; } .phase, .chart, tr { break-inside: avoid; } }
+`;
+
+const CRITICAL_COLOR = '#ef4444';
+const PHASE_COLOR = '#6366f1';
+
+// ---------------- GANTT ----------------
+
+// Roadmap items may spell a phase name with another case or spacing
+const key = (value: string) => value.trim().toLowerCase();
+
+const isCritical = (criticalPhases: string[], phaseName: string) =>
+  criticalPhases.some(name => key(name) === key(phaseName));
+
+const ganttSvg = ({ estimate, durationWeeks, workWeeks, criticalPhases }: HtmlReportContext): string => {
+  const weeks = Math.max(1, durationWeeks, ...estimate.roadmap.map(r => r.endWeek));
+  const labelWidth = 220;
+  const weekWidth = Math.max(14, Math.min(40, 700 / weeks));
+  const headerHeight = 34;
+  const rowHeight = 28;
+  const width = labelWidth + weeks * weekWidth;
+  const height = headerHeight + estimate.roadmap.length * rowHeight;
+  // Label every week only when the columns are wide enough to read them
+  const labelEvery = Math.ceil(28 / weekWidth);
+
+  const header = Array.from({ length: weeks }, (_, idx) => idx + 1)
+    .filter(week => (week - 1) % labelEvery === 0)
+    .map(week => {
+      const x = labelWidth + (week - 1) * weekWidth + 2;
+      const start = workWeeks[week - 1]?.start;
+      return `<text x="${x}" y="13" font-size="10" font-weight="700" fill="#64748b">S${week}</text>` +
+        (start ? `<text x="${x}" y="26" font-size="9" fill="#94a3b8">${escapeHtml(start.toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit' }))}</text>` : '');
+    })
+    .join('');
+
+  const grid = Array.from({ length: weeks + 1 }, (_, idx) =>
+    `<line x1="${labelWidth + idx * weekWidth}" y1="${headerHeight - 4}" x2="${labelWidth + idx * weekWidth}" y2="${height}" stroke="#f1f5f9" />`
+  ).join('');
+
+  const rows = estimate.roadmap.map((item, idx) => {
+    const y = headerHeight + idx * rowHeight;
+    const critical = isCritical(criticalPhases, item.phaseName);
+    const start = Math.max(1, item.startWeek);
+    const x = labelWidth + (start - 1) * weekWidth;
+    const barWidth = Math.max(1, item.endWeek - start + 1) * weekWidth;
+    const dates = roadmapItemDates(item, workWeeks);
+    const tooltip = [
+      item.phaseName,
+      `Semanas ${item.startWeek}-${item.endWeek}`,
+      ...(dates ? [`${formatShortDate(dates.start)} - ${formatShortDate(dates.end)}`] : []),
+      ...(item.milestone ? [`Hito: ${item.milestone}`] : []),
+      ...(critical ? ['Ruta crítica'] : [])
+    ].join('\n');
+    const label = item.phaseName.length > 32 ? `${item.phaseName.slice(0, 31)}…` : item.phaseName;
+    return `<g>` +
+      `<title>${escapeHtml(tooltip)}</title>` +
+      `<line x1="0" y1="${y + rowHeight}" x2="${width}" y2="${y + rowHeight}" stroke="#e2e8f0" />` +
+      `<text x="0" y="${y + 18}" font-size="12" font-weight="${critical ? 700 : 500}" fill="#334155">${escapeHtml(label)}</text>` +
+      `<rect x="${x + 1}" y="${y + 6}" width="${barWidth - 2}" height="${rowHeight - 12}" rx="4" fill="${critical ? CRITICAL_COLOR : PHASE_COLOR}" />` +
+      (item.milestone ? `<rect x="${x + barWidth - 6}" y="${y + 9}" width="8" height="8" transform="rotate(45 ${x + barWidth - 2} ${y + 13})" fill="#0f172a" />` : '') +
+      `</g>`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="system-ui, sans-serif">${grid}${header}${rows}</svg>`;
+};
+
+// ---------------- REPORT ----------------
+
+/**
+ * Standalone HTML report: styles are inlined, charts and the Gantt are
+ * embedded as SVG and every piece of content is escaped, so it opens the
+ * same anywhere and model output cannot inject markup.
+ */
+export const buildHtmlReport = (context: HtmlReportContext): string => {
+  const { estimate, metadata, versionName, durationWeeks, workWeeks, criticalPhases, simulation, charts, phaseColors, slackDays } = context;
+  const currency = metadata.currency;
+  const money = (value: number) => escapeHtml(formatCurrency(value, currency));
+  const totalHours = estimate.phases.reduce((acc, p) => acc + p.estimatedHours, 0);
+  const totalCost = estimate.phases.reduce((acc, p) => acc + p.estimatedCost, 0);
+  const projectStart = parseISODate(metadata.startDate);
+  const slackOf = (phaseName: string) => Object.entries(slackDays).find(([name]) => key(name) === key(phaseName))?.[1] ?? 0;
+  const projectEnd = workWeeks[Math.max(0, durationWeeks - 1)]?.end;
+  // Chart markup is serialized from the DOM, where text nodes are already escaped
+  const chart = (id: ChartId, title: string, extra = '') => charts[id]
+    ? `<div class="chart"><h3>${escapeHtml(title)}</h3>${charts[id]!.markup}${extra}</div>`
+    : '';
+
+  const kpis = `
+    <div class="kpis">
+      <div class="kpi cost"><div class="value">${money(totalCost)}</div><div class="label">Costo Total Estimado</div>${simulation ? `<div class="note">P80: ${money(simulation.cost.p80)}</div>` : ''}</div>
+      <div class="kpi hours"><div class="value">${totalHours} h</div><div class="label">Horas Totales</div>${simulation ? `<div class="note">P80: ${Math.round(simulation.hours.p80)} h</div>` : ''}</div>
+      <div class="kpi weeks"><div class="value">${durationWeeks} semanas</div><div class="label">Duración (ruta crítica)</div>${simulation ? `<div class="note">P80: ${simulation.weeks.p80} semanas</div>` : ''}</div>
+      <div class="kpi end"><div class="value">${projectEnd ? escapeHtml(formatShortDate(projectEnd)) : '-'}</div><div class="label">Fin Estimado</div><div class="note">Inicio: ${escapeHtml(formatShortDate(projectStart))}</div></div>
+    </div>`;
+
+  const confidence = simulation ? `
+    <h2>Niveles de Confianza</h2>
+    <p class="meta">Simulación Monte Carlo de ${simulation.iterations} escenarios sobre las horas optimistas, probables y pesimistas de cada tarea.${simulation.unfinishedIterations > 0 ? ` ${simulation.unfinishedIterations} escenarios no terminan dentro del horizonte de planificación y quedan fuera de las semanas.` : ''}</p>
+    <table>
+      <thead><tr><th>Confianza</th><th class="num">Costo</th><th class="num">Horas</th><th class="num">Duración</th></tr></thead>
+      <tbody>
+        ${(['p50', 'p80', 'p90'] as const).map(level => `
+          <tr><td class="strong">${level.toUpperCase()}</td><td class="num">${money(simulation.cost[level])}</td><td class="num">${Math.round(simulation.hours[level])} h</td><td class="num">${simulation.weeks[level]} semanas</td></tr>`).join('')}
+      </tbody>
+    </table>
+    <div class="charts">
+      ${chart('confidenceCost', 'Distribución del costo')}
+      ${chart('confidenceWeeks', 'Distribución de la duración')}
+    </div>` : '';
+
+  const quality = estimate.prdQuality;
+
+  const clarifications = (estimate.clarifications ?? []).length > 0 ? `
+    <h2>Aclaraciones del Solicitante</h2>
+    <p class="meta">Respuestas dadas antes de estimar; la estimación las toma como supuestos.</p>
+    <table>
+      <thead><tr><th>Tema</th><th>Pregunta</th><th>Respuesta</th></tr></thead>
+      <tbody>
+        ${estimate.clarifications!.map(c => `
+          <tr><td>${escapeHtml(CLARIFICATION_TOPIC_LABELS[c.topic])}</td><td>${escapeHtml(c.question)}</td><td class="strong">${c.answer ? escapeHtml(c.answer) : '<em>Sin respuesta (se asumió el escenario más habitual)</em>'}</td></tr>`).join('')}
+      </tbody>
+    </table>` : '';
+
+  const techStack = estimate.recommendedTechStack.length > 0 ? `
+    <h2>Stack Tecnológico</h2>
+    <div class="chips">${estimate.recommendedTechStack.map(tech => `<span class="chip">${escapeHtml(tech)}</span>`).join('')}</div>` : '';
+
+  const costs = `
+    <h2>Desglose de Costos por Rol</h2>
+    <table>
+      <thead><tr><th>Rol</th><th class="num">Horas Totales</th><th class="num">Tarifa/Hora</th><th class="num">Subtotal</th></tr></thead>
+      <tbody>
+        ${estimate.costBreakdown.map(r => `
+          <tr><td class="strong">${escapeHtml(r.role)}</td><td class="num">${r.totalHours} h</td><td class="num">${money(r.hourlyRate)}</td><td class="num strong">${money(r.subtotalCost)}</td></tr>`).join('')}
+        <tr class="total"><td>TOTAL</td><td class="num">${totalHours} h</td><td class="num">-</td><td class="num">${money(totalCost)}</td></tr>
+      </tbody>
+    </table>
+    <div class="charts">
+      ${chart('costByPhase', 'Distribución de Presupuesto por Fase', `
+        <ul class="legend">
+          ${estimate.phases.map((phase, idx) => `
+            <li><span class="swatch" style="background:${escapeHtml(phaseColors[idx % phaseColors.length])}"></span>${escapeHtml(phase.name)}<span class="amount">${money(phase.estimatedCost)}</span></li>`).join('')}
+        </ul>`)}
+      ${chart('hoursByPhase', 'Esfuerzo Estimado por Fase')}
+    </div>`;
+
+  const roadmap = `
+    <h2>Roadmap</h2>
+    <div class="gantt">${ganttSvg(context)}</div>
+    <div class="gantt-legend"><span style="--color:${CRITICAL_COLOR}">Ruta crítica</span><span style="--color:${PHASE_COLOR}">Con holgura</span></div>
+    <table>
+      <thead><tr><th>Fase</th><th>Semanas</th><th>Inicio</th><th>Fin</th><th>Hito</th><th>Holgura</th></tr></thead>
+      <tbody>
+        ${estimate.roadmap.map(item => {
+          const dates = roadmapItemDates(item, workWeeks);
+          return `
+          <tr>
+            <td class="strong">${escapeHtml(item.phaseName)}</td>
+            <td>${item.startWeek}-${item.endWeek}</td>
+            <td>${dates ? escapeHtml(formatShortDate(dates.start)) : '-'}</td>
+            <td>${dates ? escapeHtml(formatShortDate(dates.end)) : '-'}</td>
+            <td>${escapeHtml(item.milestone || '-')}</td>
+            <td>${isCritical(criticalPhases, item.phaseName) ? '<span class="critical">Ruta crítica</span>' : `${slackOf(item.phaseName)} días`}</td>
+          </tr>`;
+        }).join('')}
+      </tbody>
+    </table>`;
+
+  const phases = `
+    <h2>Fases del Proyecto</h2>
+    ${estimate.phases.map(phase => `
+      <div class="phase">
+        <div class="phase-head">
+          <div class="row"><h3>${escapeHtml(phase.name)}</h3><span>${money(phase.estimatedCost)}</span></div>
+          <div class="info">Responsable: ${escapeHtml(phase.assignedRole)} | Complejidad: ${escapeHtml(phase.complexity)} | Esfuerzo: ${phase.estimatedHours} h</div>
+        </div>
+        <div class="phase-body">
+          <p>${escapeHtml(phase.description)}</p>
+          ${phase.tasks.length > 0 ? `
+          <table>
+            <thead><tr><th>Tarea</th><th>Rol</th><th class="num">Tarifa</th><th class="num">Horas</th><th class="num">Rango (O - P)</th><th class="num">Costo</th><th>Depende de</th></tr></thead>
+            <tbody>
+              ${phase.tasks.map(task => `
+                <tr>
+                  <td class="strong">${escapeHtml(task.name)}</td>
+                  <td>${escapeHtml(task.assignedRole)}</td>
+                  <td class="num">${money(task.hourlyRate)}</td>
+                  <td class="num">${task.hours}</td>
+                  <td class="num">${task.optimisticHours ?? task.hours} - ${task.pessimisticHours ?? task.hours}</td>
+                  <td class="num strong">${money(task.cost)}</td>
+                  <td>${escapeHtml((task.dependsOn ?? []).map(d => d.name).join(', ') || '-')}</td>
+                </tr>`).join('')}
+            </tbody>
+          </table>` : ''}
+        </div>
+      </div>`).join('')}`;
+
+  const risks = `
+    <h2>Riesgos</h2>
+    ${estimate.risks.length > 0 ? `
+    <table>
+      <thead><tr><th>Riesgo</th><th>Impacto</th><th>Mitigación</th></tr></thead>
+      <tbody>
+        ${estimate.risks.map(r => `
+          <tr><td class="strong">${escapeHtml(r.risk)}</td><td><span class="impact ${escapeHtml(r.impact)}">${escapeHtml(r.impact)}</span></td><td>${escapeHtml(r.mitigation)}</td></tr>`).join('')}
+      </tbody>
+    </table>` : '<p class="meta">No se identificaron riesgos.</p>'}`;
+
+  const scope = `
+    <h2>Supuestos</h2>
+    ${estimate.assumptions.length > 0 ? `
+    <table>
+      <thead><tr><th>Supuesto</th><th>Si no se cumple</th></tr></thead>
+      <tbody>
+        ${estimate.assumptions.map(a => `
+          <tr><td class="strong">${escapeHtml(a.description)}</td><td>${escapeHtml(a.impactIfFalse || '-')}</td></tr>`).join('')}
+      </tbody>
+    </table>` : '<p class="meta">No se registraron supuestos.</p>'}
+    <h2>Fuera de Alcance</h2>
+    ${estimate.exclusions.length > 0 ? `
+    <table>
+      <thead><tr><th>Exclusión</th><th>Motivo</th></tr></thead>
+      <tbody>
+        ${estimate.exclusions.map(e => `
+          <tr><td class="strong">${escapeHtml(e.description)}</td><td>${escapeHtml(e.reason || '-')}</td></tr>`).join('')}
+      </tbody>
+    </table>` : '<p class="meta">No se registraron exclusiones.</p>'}`;
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Estimación: ${escapeHtml(estimate.projectName)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="page">
+    <h1>${escapeHtml(estimate.projectName)}</h1>
+    <div class="meta">
+      <span>Solicitado por: ${escapeHtml(estimate.requesterName)}</span>
+      <span>Fecha: ${escapeHtml(estimate.requestDate)}</span>
+      <span>Versión: ${escapeHtml(versionName)}</span>
+      ${quality ? `<span>Confianza: ${escapeHtml(PRD_CONFIDENCE_LABELS[quality.confidence])} (PRD ${quality.score}/100)</span>` : ''}
+    </div>
+    <h2>Resumen Ejecutivo</h2>
+    <div class="summary">${escapeHtml(estimate.executiveSummary)}</div>
+    ${quality && quality.missing.length > 0 ? `<p class="meta">El PRD no cubre: ${escapeHtml(quality.missing.map(prdCheckLabel).join(', '))}. La estimación asume lo más habitual en esos puntos.</p>` : ''}
+    ${kpis}
+    ${clarifications}
+    ${confidence}
+    ${techStack}
+    ${costs}
+    ${roadmap}
+    ${phases}
+    ${risks}
+    ${scope}
+    <footer>Generado con EstimIA el ${escapeHtml(formatShortDate(new Date()))}. Las estimaciones son generadas por IA y deben ser validadas por humanos.</footer>
+  </div>
+</body>
+</html>
+`;
+};
+
+export const downloadHtmlReport = (context: HtmlReportContext) => {
+  downloadFile(buildHtmlReport(context), exportFileName(context.estimate, 'html'), 'text/html;charset=utf-8');
+};
@@ -0,0 +1,57 @@
+import { LLMErrorKind } from "../../types";
+
+// Failures that may go away by simply asking again
+const TRANSIENT: LLMErrorKind[] = ['rate-limit', 'malformed', 'network', 'timeout', 'server'];
+
+/** Provider failure with a user-facing message and the kind of problem behind it. */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+
+  constructor(kind: LLMErrorKind, message: string) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+  }
+
+  get transient() {
+    return TRANSIENT.includes(this.kind);
+  }
+}
+
+export const errorForStatus = (status: number, detail = ''): LLMError => {
+  if (status === 401 || status === 403 || /api[ _-]?key/i.test(detail)) {
+    return new LLMError('missing-key', "La API Key no es válida o no tiene permisos para este modelo.");
+  }
+  if (status === 429) {
+    return new LLMError('rate-limit', "Se alcanzó el límite de uso o la cuota del proveedor.");
+  }
+  if (status === 408 || status >= 500) {
+    return new LLMError('server', `El proveedor no está disponible en este momento (error ${status}).`);
+  }
+  return new LLMError('unknown', `El proveedor respondió con error ${status}.`);
+};
+
+/**
+ * Best guess at what went wrong for errors thrown by SDKs or `fetch`, which
+ * do not use LLMError. When `signal` was aborted its reason wins, since
+ * aborting surfaces as a generic error in most clients.
+ */
+export const classifyError = (error: unknown, signal?: AbortSignal): LLMError => {
+  if (signal?.aborted && signal.reason instanceof LLMError) return signal.reason;
+  if (error instanceof LLMError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+  if (status !== null) return errorForStatus(status, message);
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new LLMError('cancelled', "El análisis fue cancelado.");
+  }
+  if (error instanceof SyntaxError) {
+    return new LLMError('malformed', "La IA devolvió una respuesta que no es un JSON válido.");
+  }
+  // `fetch` rejects with a TypeError whose text depends on the browser
+  if (/failed to fetch|fetch failed|networkerror|load failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT/i.test(message)) {
+    return new LLMError('network', "No se pudo conectar con el proveedor. Revisa tu conexión.");
+  }
+  return new LLMError('unknown', message || "Ocurrió un error inesperado al llamar al proveedor.");
+};
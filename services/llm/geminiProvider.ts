@@ -0,0 +1,77 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import { LLMProviderConfig } from "../../types";
+import { JsonSchema, LLMProvider } from "./provider";
+import { LLMError } from "./errors";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+};
+
+export const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const result: Schema = { type: TYPE_MAP[schema.type] };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  return result;
+};
+
+const BLOCKED_REASONS: string[] = [FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII];
+
+// Gemini answers blocked prompts with an empty, successful response
+const checkBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_REASONS.includes(finishReason))) {
+    console.error("Gemini blocked the response:", response.promptFeedback ?? finishReason);
+    throw new LLMError('safety', "Gemini bloqueó la respuesta por sus filtros de seguridad. Revisa el contenido del PRD.");
+  }
+};
+
+export const createGeminiProvider = (config: LLMProviderConfig): LLMProvider => {
+  if (!config.apiKey) {
+    throw new LLMError('missing-key', "API Key no configurada. Por favor verifica tu entorno.");
+  }
+
+  // Initialize Gemini client
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    id: 'gemini',
+    model: config.model,
+    generateJSON: async ({ systemPrompt, userPrompt, schema, onText, signal }) => {
+      const params = {
+        model: config.model,
+        contents: userPrompt,
+        config: {
+          systemInstruction: systemPrompt,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(schema),
+          abortSignal: signal
+        }
+      };
+      if (!onText) {
+        const response = await ai.models.generateContent(params);
+        checkBlocked(response);
+        return response.text || '';
+      }
+
+      let text = '';
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        checkBlocked(chunk);
+        text += chunk.text || '';
+        onText(text);
+      }
+      return text;
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import { LLMProviderConfig, LLMProviderId } from "../../types";
+import { LLMProvider } from "./provider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAIProvider } from "./openAIProvider";
+import { createOllamaProvider } from "./ollamaProvider";
+import { createMockProvider } from "./mockProvider";
+import { withRetries } from "./retry";
+
+export type { JsonSchema, LLMProvider, LLMRequest } from "./provider";
+export { LLMError } from "./errors";
+
+const STORAGE_KEY = 'estimia.llmProvider';
+
+export const PROVIDER_LABELS: Record<LLMProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI compatible',
+  ollama: 'Servidor local (Ollama)',
+  mock: 'Simulado (sin conexión)'
+};
+
+// Local models can take a while to load before the first token
+export const PROVIDER_DEFAULTS: Record<LLMProviderId, Omit<LLMProviderConfig, 'provider'>> = {
+  gemini: { model: 'gemini-2.5-flash', baseUrl: '', apiKey: process.env.API_KEY || '', timeoutSeconds: 90, maxRetries: 2 },
+  openai: { model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', apiKey: '', timeoutSeconds: 90, maxRetries: 2 },
+  ollama: { model: 'llama3.1', baseUrl: 'http://localhost:11434', apiKey: '', timeoutSeconds: 300, maxRetries: 1 },
+  mock: { model: 'mock', baseUrl: '', apiKey: '', timeoutSeconds: 30, maxRetries: 0 }
+};
+
+const isProviderId = (value: unknown): value is LLMProviderId =>
+  typeof value === 'string' && value in PROVIDER_DEFAULTS;
+
+// Build-time environment (see vite.config.ts) picks the default provider
+const envConfig = (): LLMProviderConfig => {
+  const provider = isProviderId(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : 'gemini';
+  const defaults = PROVIDER_DEFAULTS[provider];
+  return {
+    provider,
+    model: process.env.LLM_MODEL || defaults.model,
+    baseUrl: process.env.LLM_BASE_URL || defaults.baseUrl,
+    apiKey: process.env.LLM_API_KEY || defaults.apiKey,
+    timeoutSeconds: defaults.timeoutSeconds,
+    maxRetries: defaults.maxRetries
+  };
+};
+
+export const loadProviderConfig = (): LLMProviderConfig => {
+  const fallback = envConfig();
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && isProviderId(stored.provider)) {
+      // Blank fields keep their defaults (e.g. the API key baked in at build time)
+      const filled = Object.fromEntries(Object.entries(stored).filter(([, value]) => value !== ''));
+      const base = stored.provider === fallback.provider
+        ? fallback
+        : { provider: stored.provider, ...PROVIDER_DEFAULTS[stored.provider as LLMProviderId] };
+      return { ...base, ...filled } as LLMProviderConfig;
+    }
+  } catch (error) {
+    console.error("Error reading provider settings:", error);
+  }
+  return fallback;
+};
+
+export const saveProviderConfig = (config: LLMProviderConfig) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const createAdapter = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'ollama':
+      return createOllamaProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+  }
+};
+
+/** Adapter for the configured provider, with its timeout and retries applied. */
+export const createProvider = (config: LLMProviderConfig = loadProviderConfig()): LLMProvider =>
+  withRetries(createAdapter(config), config);
@@ -0,0 +1,52 @@
+import { LLMProviderConfig } from "../../types";
+import { JsonSchema, LLMProvider } from "./provider";
+import { createRandom, hashString } from "../random";
+
+const STREAM_CHUNK = 40;
+const STREAM_DELAY_MS = 15;
+
+const generateValue = (schema: JsonSchema, key: string, random: () => number): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([childKey, child]) => [childKey, generateValue(child, childKey, random)])
+      );
+    case 'array': {
+      const length = 2 + Math.floor(random() * 3);
+      return Array.from({ length }, (_, idx) =>
+        schema.items ? generateValue(schema.items, `${key} ${idx + 1}`, random) : null
+      );
+    }
+    case 'string':
+      return schema.enum ? schema.enum[Math.floor(random() * schema.enum.length)] : `${key} (simulado)`;
+    case 'number':
+    case 'integer':
+      return 1 + Math.floor(random() * 40);
+    case 'boolean':
+      return random() >= 0.5;
+  }
+};
+
+/**
+ * Offline stand-in that fabricates a response matching the requested schema.
+ * The same prompt always yields the same output, which makes it useful for
+ * demos, UI work and reproducing bugs without network access.
+ */
+export const createMockProvider = (config: LLMProviderConfig): LLMProvider => ({
+  id: 'mock',
+  model: config.model || 'mock',
+  generateJSON: async ({ systemPrompt, userPrompt, schema, onText, signal }) => {
+    const random = createRandom(hashString(`${systemPrompt}\n${userPrompt}`));
+    const text = JSON.stringify(generateValue(schema, 'item', random));
+    if (onText) {
+      // Drip the response out like a real model so streaming can be tried offline
+      for (let end = STREAM_CHUNK; end < text.length; end += STREAM_CHUNK) {
+        if (signal?.aborted) throw signal.reason;
+        onText(text.slice(0, end));
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+      }
+      onText(text);
+    }
+    return text;
+  }
+});
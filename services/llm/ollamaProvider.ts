@@ -0,0 +1,62 @@
+import { LLMProviderConfig } from "../../types";
+import { LLMProvider } from "./provider";
+import { readLines } from "./stream";
+import { errorForStatus, LLMError } from "./errors";
+
+/**
+ * Adapter for a local Ollama server using its native chat API, which accepts
+ * a plain JSON Schema in `format`. Everything stays on the local machine.
+ */
+export const createOllamaProvider = (config: LLMProviderConfig): LLMProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: 'ollama',
+    model: config.model,
+    generateJSON: async ({ systemPrompt, userPrompt, schema, onText, signal }) => {
+      let response: Response;
+      try {
+        response = await fetch(`${baseUrl}/api/chat`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            model: config.model,
+            stream: Boolean(onText),
+            format: schema,
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: userPrompt }
+            ]
+          }),
+          signal
+        });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error("Ollama connection error:", error);
+        throw new LLMError('network', `No se pudo conectar con el servidor local en ${baseUrl}.`);
+      }
+
+      if (!response.ok) {
+        const detail = await response.text();
+        console.error("Ollama error:", detail);
+        throw errorForStatus(response.status, detail);
+      }
+
+      if (!onText) {
+        const body = await response.json();
+        return body.message?.content || '';
+      }
+
+      // One JSON object per line, each with the next piece of the message
+      let text = '';
+      await readLines(response, line => {
+        const piece = JSON.parse(line).message?.content;
+        if (piece) {
+          text += piece;
+          onText(text);
+        }
+      });
+      return text;
+    }
+  };
+};
@@ -0,0 +1,90 @@
+import { LLMProviderConfig } from "../../types";
+import { JsonSchema, LLMProvider } from "./provider";
+import { readLines } from "./stream";
+import { errorForStatus, LLMError } from "./errors";
+
+// OpenAI structured outputs reject objects that allow unknown keys
+export const toOpenAISchema = (schema: JsonSchema): Record<string, unknown> => {
+  const result: Record<string, unknown> = { type: schema.type };
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toOpenAISchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toOpenAISchema(value)])
+    );
+    result.required = schema.required ?? [];
+    result.additionalProperties = false;
+  }
+  return result;
+};
+
+const checkRefused = (finishReason?: string, refusal?: string) => {
+  if (finishReason === 'content_filter' || refusal) {
+    console.error("Response refused by the provider:", refusal ?? finishReason);
+    throw new LLMError('safety', "El proveedor rechazó generar la respuesta por sus políticas de contenido.");
+  }
+};
+
+/**
+ * Adapter for any endpoint that speaks the OpenAI Chat Completions API:
+ * OpenAI itself, Azure OpenAI, vLLM, LiteLLM or a llama.cpp server.
+ */
+export const createOpenAIProvider = (config: LLMProviderConfig): LLMProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: 'openai',
+    model: config.model,
+    generateJSON: async ({ systemPrompt, userPrompt, schema, onText, signal }) => {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: toOpenAISchema(schema), strict: false }
+          },
+          stream: Boolean(onText)
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        const detail = await response.text();
+        console.error("OpenAI-compatible endpoint error:", detail);
+        throw errorForStatus(response.status, detail);
+      }
+
+      if (!onText) {
+        const body = await response.json();
+        checkRefused(body.choices?.[0]?.finish_reason, body.choices?.[0]?.message?.refusal);
+        return body.choices?.[0]?.message?.content || '';
+      }
+
+      // Server-sent events: one `data:` line per delta, closed by `data: [DONE]`
+      let text = '';
+      await readLines(response, line => {
+        if (!line.startsWith('data:')) return;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') return;
+        const choice = JSON.parse(data).choices?.[0];
+        checkRefused(choice?.finish_reason, choice?.delta?.refusal);
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      });
+      return text;
+    }
+  };
+};
@@ -0,0 +1,34 @@
+import { LLMProviderId } from "../../types";
+import type { LLMError } from "./errors";
+
+// Provider-neutral subset of JSON Schema. Each adapter translates it into
+// whatever dialect its API expects (Gemini `Type`, OpenAI `json_schema`, ...).
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface LLMRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  schema: JsonSchema;
+  /**
+   * When set, the response is streamed and this is called with all the text
+   * received so far every time a new chunk arrives.
+   */
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+  /** Called before each new attempt after a transient failure. */
+  onRetry?: (error: LLMError, attempt: number) => void;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  /** Returns the raw JSON text produced by the model for the given request (streamed if `onText` is set). */
+  generateJSON: (request: LLMRequest) => Promise<string>;
+}
@@ -0,0 +1,101 @@
+import { LLMProviderConfig } from "../../types";
+import { LLMProvider, LLMRequest } from "./provider";
+import { classifyError, LLMError } from "./errors";
+
+const BASE_DELAY_MS = 1000;
+// Quotas take longer to free up than a dropped connection
+const RATE_LIMIT_DELAY_MS = 5000;
+const MAX_DELAY_MS = 30000;
+
+const cancelled = () => new LLMError('cancelled', "El análisis fue cancelado.");
+
+// Exponential, with jitter so that several tabs do not retry in lockstep
+const backoffDelay = (error: LLMError, attempt: number) => {
+  const base = error.kind === 'rate-limit' ? RATE_LIMIT_DELAY_MS : BASE_DELAY_MS;
+  return Math.min(MAX_DELAY_MS, base * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelled());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// A single attempt, abandoned after `timeoutSeconds` without receiving
+// anything; while streaming, every chunk restarts the clock
+const runAttempt = async (provider: LLMProvider, request: LLMRequest, timeoutSeconds: number): Promise<string> => {
+  if (request.signal?.aborted) throw cancelled();
+  const controller = new AbortController();
+  const onCancel = () => controller.abort(cancelled());
+  request.signal?.addEventListener('abort', onCancel, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(
+      () => controller.abort(new LLMError('timeout', `El proveedor no respondió durante ${timeoutSeconds} segundos.`)),
+      timeoutSeconds * 1000
+    );
+  };
+  // Not every client stops as soon as it is aborted, so the attempt also races the signal
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+
+  restartTimer();
+  try {
+    const text = await Promise.race([
+      provider.generateJSON({
+        ...request,
+        signal: controller.signal,
+        onText: request.onText && (text => {
+          if (controller.signal.aborted) return;
+          restartTimer();
+          request.onText!(text);
+        })
+      }),
+      aborted
+    ]);
+    if (!text.trim()) {
+      throw new LLMError('malformed', "La IA devolvió una respuesta vacía.");
+    }
+    JSON.parse(text);
+    return text;
+  } catch (error) {
+    throw classifyError(error, controller.signal);
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener('abort', onCancel);
+  }
+};
+
+/**
+ * Wraps an adapter with the timeout and the retries of `config`. Transient
+ * failures are retried with exponential backoff; everything that reaches the
+ * caller is an LLMError.
+ */
+export const withRetries = (provider: LLMProvider, config: Pick<LLMProviderConfig, 'timeoutSeconds' | 'maxRetries'>): LLMProvider => ({
+  id: provider.id,
+  model: provider.model,
+  generateJSON: async (request) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await runAttempt(provider, request, config.timeoutSeconds);
+      } catch (error) {
+        const failure = error as LLMError;
+        if (!failure.transient || attempt > config.maxRetries) throw failure;
+        console.error(`Attempt ${attempt} failed, retrying:`, failure);
+        request.onRetry?.(failure, attempt + 1);
+        await sleep(backoffDelay(failure, attempt), request.signal);
+      }
+    }
+  }
+});
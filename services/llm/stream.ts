@@ -0,0 +1,22 @@
+/**
+ * Calls `onLine` for each complete line of a streamed response body, as
+ * used by server-sent events (OpenAI) and newline-delimited JSON (Ollama).
+ */
+export const readLines = async (response: Response, onLine: (line: string) => void) => {
+  if (!response.body) {
+    throw new Error("El proveedor no devolvió una respuesta en streaming.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    // The last piece may be a line cut in half by the chunk boundary
+    buffer = done ? '' : lines.pop()!;
+    lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
+    if (done) return;
+  }
+};
@@ -0,0 +1,182 @@
+import { PhaseEstimate, PhaseTask, RoadmapItem, TeamRole, WorkCalendar } from "../types";
+import { prepareLeveling } from "./resourceLeveling";
+import { createRandom } from "./random";
+
+export interface Percentiles {
+  p50: number;
+  p80: number;
+  p90: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  cost: Percentiles;
+  hours: Percentiles;
+  weeks: Percentiles;
+  costBins: HistogramBin[];
+  weeksBins: HistogramBin[];
+  // Share of iterations that finish within the most likely figures (0-1)
+  baseCostConfidence: number;
+  baseWeeksConfidence: number;
+  // Iterations whose plan does not finish within the leveling horizon; they
+  // are left out of the weeks figures
+  unfinishedIterations: number;
+}
+
+export interface SimulationOptions {
+  calendar: WorkCalendar;
+  roster: TeamRole[];
+  roadmap?: RoadmapItem[];
+  rateOf: (task: PhaseTask) => number;
+  iterations?: number;
+  seed?: number;
+}
+
+export const DEFAULT_ITERATIONS = 500;
+const COST_BINS = 20;
+// Iterations between yields to the browser
+const BATCH_SIZE = 25;
+
+type Random = () => number;
+
+// Box-Muller transform
+const sampleNormal = (random: Random) => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Marsaglia-Tsang; shapes below 1 are boosted with the usual u^(1/k) trick
+const sampleGamma = (shape: number, random: Random): number => {
+  if (shape < 1) return sampleGamma(shape + 1, random) * Math.pow(1 - random(), 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleNormal(random);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+    const u = 1 - random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+};
+
+/**
+ * Beta-PERT draw between the optimistic and pessimistic values, peaking at
+ * the most likely one. Unordered inputs are sorted around the most likely.
+ */
+export const samplePert = (optimistic: number, mostLikely: number, pessimistic: number, random: Random): number => {
+  const low = Math.min(optimistic, mostLikely);
+  const high = Math.max(pessimistic, mostLikely);
+  if (high - low < 1e-9) return mostLikely;
+  const alpha = 1 + 4 * (mostLikely - low) / (high - low);
+  const beta = 1 + 4 * (high - mostLikely) / (high - low);
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return low + (x / (x + y)) * (high - low);
+};
+
+// Nearest-rank percentile over an ascending array
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+
+const percentiles = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p50: percentile(sorted, 0.5), p80: percentile(sorted, 0.8), p90: percentile(sorted, 0.9) };
+};
+
+const histogram = (values: number[], binCount: number): HistogramBin[] => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max - min < 1e-9) return [{ from: min, to: max, count: values.length }];
+  const width = (max - min) / binCount;
+  const bins = Array.from({ length: binCount }, (_, idx) => ({ from: min + idx * width, to: min + (idx + 1) * width, count: 0 }));
+  values.forEach(v => bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++);
+  return bins;
+};
+
+// Whole weeks get one bar each
+const weekHistogram = (values: number[]): HistogramBin[] => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return Array.from({ length: max - min + 1 }, (_, idx) => ({
+    from: min + idx,
+    to: min + idx,
+    count: values.filter(v => v === min + idx).length
+  }));
+};
+
+/**
+ * Monte Carlo over the three-point task estimates: each iteration draws the
+ * hours of every task, prices them with `rateOf` and levels the resulting
+ * plan with the team and calendar. The plan is prepared once and every
+ * iteration only re-runs the leveling with its hours. Runs in batches that
+ * yield to the browser before each one and stop with `signal`. Seeded, so
+ * the same inputs always give the same percentiles.
+ */
+export const simulateEstimate = async (
+  inputPhases: PhaseEstimate[],
+  options: SimulationOptions,
+  signal?: AbortSignal
+): Promise<SimulationResult> => {
+  const { calendar, roster, rateOf } = options;
+  const iterations = Math.max(1, options.iterations ?? DEFAULT_ITERATIONS);
+  const random = createRandom(options.seed ?? 1);
+  const plan = prepareLeveling(inputPhases, calendar, roster, options.roadmap ?? []);
+  const baseHours = plan.nodes.map(node => node.hours);
+
+  const baseCost = inputPhases.reduce((acc, p) =>
+    acc + (p.tasks.length > 0 ? p.tasks.reduce((sum, t) => sum + t.hours * rateOf(t), 0) : p.estimatedCost), 0);
+  const baseWeeks = plan.durationWeeks(baseHours);
+
+  const costs: number[] = [];
+  const hours: number[] = [];
+  const weeks: number[] = [];
+  let unfinished = 0;
+  for (let i = 0; i < iterations; i++) {
+    if (i % BATCH_SIZE === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (signal?.aborted) throw signal.reason;
+    }
+    let cost = 0;
+    let totalHours = 0;
+    const sampled = plan.nodes.map(node => {
+      const phase = inputPhases[node.phaseIndex];
+      if (node.taskIndex < 0) {
+        cost += phase.estimatedCost;
+        totalHours += node.hours;
+        return node.hours;
+      }
+      const task = phase.tasks[node.taskIndex];
+      const taskHours = samplePert(task.optimisticHours ?? task.hours, task.hours, task.pessimisticHours ?? task.hours, random);
+      cost += taskHours * rateOf(task);
+      totalHours += taskHours;
+      return taskHours;
+    });
+    costs.push(cost);
+    hours.push(totalHours);
+    const sampledWeeks = plan.durationWeeks(sampled);
+    if (sampledWeeks === null) unfinished++;
+    else weeks.push(sampledWeeks);
+  }
+  if (weeks.length === 0) {
+    throw new Error("Ningún escenario de la simulación termina dentro del horizonte de planificación.");
+  }
+
+  return {
+    iterations,
+    cost: percentiles(costs),
+    hours: percentiles(hours),
+    weeks: percentiles(weeks),
+    costBins: histogram(costs, COST_BINS),
+    weeksBins: weekHistogram(weeks),
+    baseCostConfidence: costs.filter(c => c <= baseCost + 0.01).length / iterations,
+    baseWeeksConfidence: baseWeeks === null ? 0 : weeks.filter(w => w <= baseWeeks).length / iterations,
+    unfinishedIterations: unfinished
+  };
+};
@@ -0,0 +1,73 @@
+const CLOSERS = { '{': '}', '[': ']' } as const;
+
+/**
+ * Parses the beginning of a JSON document that is still being streamed.
+ * The text is cut after the last complete value and the open objects and
+ * arrays are closed, so a half-written string, number or key never shows
+ * up. Returns undefined while not even the outer container has arrived.
+ */
+export const parsePartialJSON = (text: string): unknown => {
+  const stack: (keyof typeof CLOSERS)[] = [];
+  let inString = false;
+  let escaped = false;
+  // Whether the string being read is an object key (keys are not values)
+  let isKey = false;
+  let expectingKey = false;
+  let safeEnd = 0;
+  let safeClosers = '';
+
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeClosers = stack.map(open => CLOSERS[open]).reverse().join('');
+  };
+
+  for (let idx = 0; idx < text.length; idx++) {
+    const char = text[idx];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        if (!isKey) markSafe(idx + 1);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        isKey = expectingKey;
+        expectingKey = false;
+        break;
+      case '{':
+      case '[':
+        stack.push(char);
+        expectingKey = char === '{';
+        markSafe(idx + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        markSafe(idx + 1);
+        break;
+      case ',':
+        expectingKey = stack[stack.length - 1] === '{';
+        break;
+      default: {
+        if (!/[\w.+-]/.test(char)) break;
+        // Numbers and literals are only complete once something follows them
+        let end = idx;
+        while (end < text.length && /[\w.+-]/.test(text[end])) end++;
+        if (end < text.length) markSafe(end);
+        idx = end - 1;
+      }
+    }
+  }
+
+  if (safeEnd === 0) return undefined;
+  try {
+    return JSON.parse(text.slice(0, safeEnd) + safeClosers);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,447 @@
+import { jsPDF } from 'jspdf';
+import { autoTable, Styles } from 'jspdf-autotable';
+import { formatCurrency } from "./estimationMath";
+import { exportFileName, SpreadsheetContext } from "./spreadsheetExport";
+import { formatShortDate, parseISODate, roadmapItemDates } from "./workCalendar";
+import { downloadFile } from "./download";
+import { ChartId, ChartImage } from "./chartCapture";
+import { CLARIFICATION_TOPIC_LABELS } from "./clarifications";
+import { prdCheckLabel, PRD_CONFIDENCE_LABELS } from "./prdQuality";
+
+export interface PdfReportContext extends SpreadsheetContext {
+  versionName: string;
+  charts: Partial<Record<ChartId, ChartImage>>;
+  // Colors of the budget chart, in phase order
+  phaseColors: string[];
+}
+
+// Phase names are compared as the scheduler compares them
+const key = (value: string) => value.trim().toLowerCase();
+
+// ---------------- TEXT ----------------
+
+// Characters outside Latin-1 that the standard PDF fonts (WinAnsi) can draw
+const WIN_ANSI_EXTRA = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const REPLACEMENTS: Record<string, string> = { '\u202f': ' ', '\u2009': ' ', '\u2212': '-', '\u2248': '~', '\u2264': '<=', '\u2265': '>=', '\u2192': '->' };
+
+// Model text may contain anything; unsupported characters would print as garbage
+const clean = (value: string | number) => Array.from(String(value).normalize('NFC')).map(char => {
+  if (char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRA.includes(char)) return char;
+  if (REPLACEMENTS[char]) return REPLACEMENTS[char];
+  const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return base.length > 0 && base.charCodeAt(0) <= 0xff ? base : '?';
+}).join('');
+
+// ---------------- LAYOUT ----------------
+
+const MARGIN = 15;
+const HEADER_HEIGHT = 18;
+const FOOTER_HEIGHT = 15;
+const INDIGO = '#4f46e5';
+const SLATE_900 = '#0f172a';
+const SLATE_500 = '#64748b';
+const SLATE_200 = '#e2e8f0';
+const CRITICAL = '#ef4444';
+
+interface TocEntry {
+  title: string;
+  page: number;
+  level: 1 | 2;
+}
+
+/**
+ * Paginated report of the estimate, the same whichever browser builds it:
+ * cover, table of contents, summary with KPIs, costs and charts, confidence
+ * levels, Gantt, per-phase task tables and risks, with the page number in
+ * the header and the footer of every page but the cover.
+ */
+export const buildPdfReport = (context: PdfReportContext): jsPDF => {
+  const { estimate, metadata, versionName, durationWeeks, workWeeks, criticalPhases, simulation, charts, phaseColors } = context;
+  const currency = metadata.currency;
+  const money = (value: number) => formatCurrency(value, currency);
+  const totalHours = estimate.phases.reduce((acc, p) => acc + p.estimatedHours, 0);
+  const totalCost = estimate.phases.reduce((acc, p) => acc + p.estimatedCost, 0);
+  const projectStart = parseISODate(metadata.startDate);
+  const projectEnd = workWeeks[Math.max(0, durationWeeks - 1)]?.end;
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const toc: TocEntry[] = [];
+  const pageWidth = () => doc.internal.pageSize.getWidth();
+  const pageHeight = () => doc.internal.pageSize.getHeight();
+  const contentWidth = () => pageWidth() - MARGIN * 2;
+  const top = HEADER_HEIGHT + 4;
+  const bottom = () => pageHeight() - FOOTER_HEIGHT;
+  let y = top;
+
+  const newPage = (orientation: 'portrait' | 'landscape' = 'portrait') => {
+    doc.addPage('a4', orientation);
+    y = top;
+  };
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom()) newPage(pageWidth() > pageHeight() ? 'landscape' : 'portrait');
+  };
+
+  const section = (title: string, orientation: 'portrait' | 'landscape' = 'portrait') => {
+    newPage(orientation);
+    toc.push({ title, page: doc.getNumberOfPages(), level: 1 });
+    doc.setFont('helvetica', 'bold').setFontSize(18).setTextColor(SLATE_900);
+    doc.text(clean(title), MARGIN, y + 6);
+    doc.setDrawColor(INDIGO).setLineWidth(0.6).line(MARGIN, y + 9, MARGIN + 30, y + 9);
+    y += 16;
+  };
+
+  // `keepWith` is the height of what follows, so the title does not end a page alone
+  const subheading = (title: string, inToc = false, keepWith = 5) => {
+    ensureSpace(9 + keepWith);
+    if (inToc) toc.push({ title, page: doc.getNumberOfPages(), level: 2 });
+    doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(SLATE_900);
+    doc.text(clean(title), MARGIN, y + 5);
+    y += 9;
+  };
+
+  const paragraph = (text: string, size = 10, color = SLATE_900) => {
+    doc.setFont('helvetica', 'normal').setFontSize(size).setTextColor(color);
+    const lineHeight = size * 0.45;
+    (doc.splitTextToSize(clean(text), contentWidth()) as string[]).forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN, y + lineHeight * 0.8);
+      y += lineHeight;
+    });
+    y += 3;
+  };
+
+  const table = (head: string[], body: (string | number)[][], columnStyles: Record<number, Partial<Styles>> = {}) => {
+    // The cursor of the last page drawn is where the table ends
+    let finalY = y;
+    autoTable(doc, {
+      startY: y,
+      head: [head.map(clean)],
+      body: body.map(row => row.map(clean)),
+      theme: 'grid',
+      margin: { top, bottom: FOOTER_HEIGHT + 2, left: MARGIN, right: MARGIN },
+      styles: { fontSize: 8, cellPadding: 1.8, textColor: SLATE_900, lineColor: SLATE_200 },
+      headStyles: { fillColor: INDIGO, textColor: '#ffffff', fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: '#f8fafc' },
+      rowPageBreak: 'avoid',
+      columnStyles,
+      didDrawPage: data => { finalY = data.cursor?.y ?? finalY; }
+    });
+    y = finalY + 6;
+  };
+
+  const chartHeight = (image: ChartImage, width: number) => width * image.height / image.width;
+
+  // Returns where the image starts, which may be a new page
+  const chart = (image: ChartImage, width: number) => {
+    const height = chartHeight(image, width);
+    ensureSpace(height);
+    const chartTop = y;
+    doc.addImage(image.dataUrl, 'PNG', MARGIN, chartTop, width, height);
+    y = chartTop + height + 6;
+    return chartTop;
+  };
+
+  const right: Partial<Styles> = { halign: 'right' };
+
+  // ---------------- COVER ----------------
+  doc.setFillColor(INDIGO).rect(0, 0, pageWidth(), 95, 'F');
+  doc.setTextColor('#ffffff').setFont('helvetica', 'normal').setFontSize(12);
+  doc.text('ESTIMACIÓN DE COSTOS Y PLAZOS', MARGIN + 5, 40);
+  doc.setFont('helvetica', 'bold').setFontSize(28);
+  doc.text(doc.splitTextToSize(clean(estimate.projectName), contentWidth() - 10) as string[], MARGIN + 5, 55);
+  doc.setFont('helvetica', 'normal').setFontSize(11).setTextColor(SLATE_900);
+  [
+    ['Solicitante', estimate.requesterName],
+    ['Fecha de la estimación', estimate.requestDate],
+    ['Versión', versionName],
+    ['Inicio del proyecto', formatShortDate(projectStart)],
+    ...(projectEnd ? [['Fin estimado', formatShortDate(projectEnd)]] : [])
+  ].forEach(([label, value], idx) => {
+    doc.setTextColor(SLATE_500).text(clean(label), MARGIN + 5, 115 + idx * 9);
+    doc.setTextColor(SLATE_900).text(clean(value || '-'), MARGIN + 60, 115 + idx * 9);
+  });
+  doc.setDrawColor(SLATE_200).setLineWidth(0.3).line(MARGIN + 5, 170, pageWidth() - MARGIN - 5, 170);
+  doc.setFont('helvetica', 'bold').setFontSize(20).setTextColor(SLATE_900);
+  doc.text(clean(money(totalCost)), MARGIN + 5, 185);
+  doc.text(`${durationWeeks} semanas`, pageWidth() / 2 + 5, 185);
+  doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(SLATE_500);
+  doc.text(`Costo total estimado (${totalHours} horas)`, MARGIN + 5, 192);
+  doc.text('Duración estimada (ruta crítica nivelada)', pageWidth() / 2 + 5, 192);
+
+  // ---------------- CONTENTS ----------------
+  // Entries are written once every section knows its page
+  newPage();
+  const tocPage = doc.getNumberOfPages();
+
+  // ---------------- SUMMARY ----------------
+  section('Resumen Ejecutivo');
+  paragraph(estimate.executiveSummary);
+  if (estimate.prdQuality) {
+    const { confidence, score, missing } = estimate.prdQuality;
+    paragraph(
+      `Confianza: ${PRD_CONFIDENCE_LABELS[confidence]} (completitud del PRD ${score}/100).` +
+      (missing.length > 0 ? ` El PRD no cubre: ${missing.map(prdCheckLabel).join(', ')}; la estimación asume lo más habitual en esos puntos.` : ''),
+      8,
+      SLATE_500
+    );
+  }
+
+  const tiles = [
+    { label: 'COSTO ESTIMADO', value: money(totalCost), note: simulation ? `P80: ${money(simulation.cost.p80)}` : `${estimate.costBreakdown.length} roles` },
+    { label: 'ESFUERZO TOTAL', value: `${totalHours} h`, note: simulation ? `P80: ${Math.round(simulation.hours.p80)} h` : `Rango inicial ${estimate.totalEstimatedHours.min}-${estimate.totalEstimatedHours.max} h` },
+    { label: 'DURACIÓN', value: `${durationWeeks} semanas`, note: simulation ? `P80: ${simulation.weeks.p80} semanas` : 'Ruta crítica nivelada' },
+    { label: 'FIN ESTIMADO', value: projectEnd ? formatShortDate(projectEnd) : '-', note: `Inicio: ${formatShortDate(projectStart)}` }
+  ];
+  const gap = 4;
+  const tileWidth = (contentWidth() - gap * (tiles.length - 1)) / tiles.length;
+  ensureSpace(26);
+  tiles.forEach((tile, idx) => {
+    const x = MARGIN + idx * (tileWidth + gap);
+    doc.setFillColor('#eef2ff').setDrawColor('#c7d2fe').roundedRect(x, y, tileWidth, 24, 2, 2, 'FD');
+    doc.setFont('helvetica', 'bold').setFontSize(7).setTextColor(INDIGO).text(clean(tile.label), x + 3, y + 6);
+    doc.setFontSize(12).setTextColor(SLATE_900).text(clean(tile.value), x + 3, y + 14);
+    doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(SLATE_500).text(clean(tile.note), x + 3, y + 20);
+  });
+  y += 32;
+
+  if (estimate.clarifications && estimate.clarifications.length > 0) {
+    subheading('Aclaraciones del Solicitante');
+    table(
+      ['Tema', 'Pregunta', 'Respuesta'],
+      estimate.clarifications.map(c => [
+        CLARIFICATION_TOPIC_LABELS[c.topic],
+        c.question,
+        c.answer ?? 'Sin respuesta (se asumió el escenario más habitual)'
+      ]),
+      { 0: { cellWidth: 28 } }
+    );
+  }
+
+  if (estimate.recommendedTechStack.length > 0) {
+    subheading('Stack Tecnológico');
+    paragraph(estimate.recommendedTechStack.join(' · '), 9, SLATE_500);
+  }
+
+  // ---------------- COSTS ----------------
+  section('Costos');
+  subheading('Desglose por Rol');
+  table(
+    ['Rol', 'Horas', `Tarifa/Hora (${currency})`, 'Subtotal'],
+    [
+      ...estimate.costBreakdown.map(r => [r.role, `${r.totalHours} h`, money(r.hourlyRate), money(r.subtotalCost)]),
+      ['TOTAL', `${totalHours} h`, '-', money(totalCost)]
+    ],
+    { 1: right, 2: right, 3: right }
+  );
+
+  if (charts.costByPhase) {
+    const chartWidth = contentWidth() * 0.45;
+    subheading('Distribución de Presupuesto por Fase', false, chartHeight(charts.costByPhase, chartWidth));
+    const chartTop = chart(charts.costByPhase, chartWidth);
+    // The legend of the screen chart is HTML, so it is drawn here
+    let legendY = chartTop + 4;
+    doc.setFont('helvetica', 'normal').setFontSize(8);
+    estimate.phases.forEach((phase, idx) => {
+      if (legendY > bottom() - 4) return;
+      doc.setFillColor(phaseColors[idx % phaseColors.length]).circle(MARGIN + chartWidth + 8, legendY - 1, 1.5, 'F');
+      doc.setTextColor(SLATE_900).text(clean(phase.name), MARGIN + chartWidth + 12, legendY, { maxWidth: contentWidth() - chartWidth - 45 });
+      doc.setTextColor(SLATE_500).text(clean(money(phase.estimatedCost)), pageWidth() - MARGIN, legendY, { align: 'right' });
+      legendY += 6;
+    });
+    y = Math.max(y, legendY + 6);
+  }
+  if (charts.hoursByPhase) {
+    subheading('Esfuerzo Estimado por Fase', false, chartHeight(charts.hoursByPhase, contentWidth()));
+    chart(charts.hoursByPhase, contentWidth());
+  }
+
+  // ---------------- CONFIDENCE ----------------
+  if (simulation) {
+    section('Niveles de Confianza');
+    paragraph(
+      `Simulación Monte Carlo de ${simulation.iterations} escenarios sobre las horas optimistas, probables y pesimistas de cada tarea. ` +
+      `El costo más probable se cumple en el ${Math.round(simulation.baseCostConfidence * 100)}% de los escenarios y la duración ` +
+      `de ${durationWeeks} semanas en el ${Math.round(simulation.baseWeeksConfidence * 100)}%.` +
+      (simulation.unfinishedIterations > 0 ? ` ${simulation.unfinishedIterations} escenarios no terminan dentro del horizonte de planificación y quedan fuera de las semanas.` : ''),
+      9,
+      SLATE_500
+    );
+    table(
+      ['Confianza', 'Costo', 'Horas', 'Duración'],
+      (['p50', 'p80', 'p90'] as const).map(level => [
+        level.toUpperCase(),
+        money(simulation.cost[level]),
+        `${Math.round(simulation.hours[level])} h`,
+        `${simulation.weeks[level]} semanas`
+      ]),
+      { 1: right, 2: right, 3: right }
+    );
+    if (charts.confidenceCost) {
+      subheading('Distribución del costo', false, chartHeight(charts.confidenceCost, contentWidth()));
+      chart(charts.confidenceCost, contentWidth());
+    }
+    if (charts.confidenceWeeks) {
+      subheading('Distribución de la duración', false, chartHeight(charts.confidenceWeeks, contentWidth()));
+      chart(charts.confidenceWeeks, contentWidth());
+    }
+  }
+
+  // ---------------- GANTT ----------------
+  section('Cronograma', 'landscape');
+  const weeks = Math.max(1, durationWeeks, ...estimate.roadmap.map(r => r.endWeek));
+  const labelWidth = 60;
+  const weekWidth = (contentWidth() - labelWidth) / weeks;
+  const rowHeight = 8;
+  // Label every week only when the columns are wide enough to read them
+  const labelEvery = Math.ceil(6 / weekWidth);
+  const ganttHeader = () => {
+    doc.setFontSize(6).setTextColor(SLATE_500);
+    for (let w = 1; w <= weeks; w += labelEvery) {
+      const x = MARGIN + labelWidth + (w - 1) * weekWidth;
+      doc.setFont('helvetica', 'bold').text(`S${w}`, x + 0.5, y + 3);
+      const week = workWeeks[w - 1];
+      if (week && weekWidth * labelEvery >= 12) {
+        doc.setFont('helvetica', 'normal').text(week.start.toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit' }), x + 0.5, y + 6.5);
+      }
+    }
+    y += 9;
+  };
+  ganttHeader();
+  estimate.roadmap.forEach(item => {
+    if (y + rowHeight > bottom()) {
+      newPage('landscape');
+      ganttHeader();
+    }
+    const critical = criticalPhases.some(name => key(name) === key(item.phaseName));
+    doc.setDrawColor(SLATE_200).setLineWidth(0.1).line(MARGIN, y + rowHeight, pageWidth() - MARGIN, y + rowHeight);
+    doc.setFont('helvetica', critical ? 'bold' : 'normal').setFontSize(8).setTextColor(SLATE_900);
+    doc.text(doc.splitTextToSize(clean(item.phaseName), labelWidth - 3)[0] as string, MARGIN, y + 5);
+    const start = Math.max(1, item.startWeek);
+    const x = MARGIN + labelWidth + (start - 1) * weekWidth;
+    const width = Math.max(1, item.endWeek - start + 1) * weekWidth;
+    doc.setFillColor(critical ? CRITICAL : '#6366f1').roundedRect(x, y + 1.5, width, rowHeight - 3, 1, 1, 'F');
+    y += rowHeight;
+  });
+  y += 4;
+  doc.setFont('helvetica', 'normal').setFontSize(7);
+  doc.setFillColor(CRITICAL).rect(MARGIN, y, 4, 3, 'F');
+  doc.setTextColor(SLATE_500).text('Ruta crítica', MARGIN + 6, y + 2.6);
+  doc.setFillColor('#6366f1').rect(MARGIN + 30, y, 4, 3, 'F');
+  doc.text('Con holgura', MARGIN + 36, y + 2.6);
+  y += 10;
+
+  subheading('Fechas e hitos');
+  table(
+    ['Fase', 'Semanas', 'Inicio', 'Fin', 'Hito'],
+    estimate.roadmap.map(item => {
+      const dates = roadmapItemDates(item, workWeeks);
+      return [
+        item.phaseName,
+        `${item.startWeek} - ${item.endWeek}`,
+        dates ? formatShortDate(dates.start) : '-',
+        dates ? formatShortDate(dates.end) : '-',
+        item.milestone || '-'
+      ];
+    })
+  );
+
+  // ---------------- PHASES ----------------
+  section('Fases y Tareas');
+  estimate.phases.forEach(phase => {
+    // Keeps the title on the page of its description and first rows
+    subheading(phase.name, true, 25);
+    paragraph(
+      `${phase.description} Complejidad: ${phase.complexity}. Responsable: ${phase.assignedRole}. ` +
+      `${phase.estimatedHours} h, ${money(phase.estimatedCost)}.`,
+      8,
+      SLATE_500
+    );
+    if (phase.tasks.length === 0) return;
+    table(
+      ['Tarea', 'Rol', 'Horas', 'Rango (O - P)', 'Tarifa', 'Costo', 'Depende de'],
+      phase.tasks.map(task => [
+        task.name,
+        task.assignedRole,
+        task.hours,
+        `${task.optimisticHours ?? task.hours} - ${task.pessimisticHours ?? task.hours}`,
+        money(task.hourlyRate),
+        money(task.cost),
+        (task.dependsOn ?? []).map(d => d.name).join(', ') || '-'
+      ]),
+      { 2: right, 3: right, 4: right, 5: right }
+    );
+  });
+
+  // ---------------- RISKS ----------------
+  section('Riesgos');
+  table(['Riesgo', 'Impacto', 'Mitigación'], estimate.risks.map(r => [r.risk, r.impact, r.mitigation]), { 1: { cellWidth: 18 } });
+
+  // ---------------- ASSUMPTIONS & EXCLUSIONS ----------------
+  section('Supuestos y Exclusiones');
+  subheading('Supuestos');
+  if (estimate.assumptions.length > 0) {
+    table(['Supuesto', 'Si no se cumple'], estimate.assumptions.map(a => [a.description, a.impactIfFalse || '-']));
+  } else {
+    paragraph('No se registraron supuestos.', 9, SLATE_500);
+  }
+  subheading('Fuera de alcance');
+  if (estimate.exclusions.length > 0) {
+    table(['Exclusión', 'Motivo'], estimate.exclusions.map(e => [e.description, e.reason || '-']));
+  } else {
+    paragraph('No se registraron exclusiones.', 9, SLATE_500);
+  }
+
+  // ---------------- CONTENTS (FILLED) ----------------
+  // Entries that do not fit in the reserved page continue in pages inserted
+  // right after it, which moves every section forward by as many pages
+  const layout: { entry: TocEntry; tocOffset: number; y: number }[] = [];
+  let extraTocPages = 0;
+  y = top + 16;
+  toc.forEach(entry => {
+    if (y > bottom() - 6) {
+      extraTocPages++;
+      y = top + 6;
+    }
+    layout.push({ entry, tocOffset: extraTocPages, y });
+    y += entry.level === 1 ? 8 : 6;
+  });
+  for (let i = 0; i < extraTocPages; i++) doc.insertPage(tocPage + 1);
+
+  doc.setPage(tocPage);
+  doc.setFont('helvetica', 'bold').setFontSize(18).setTextColor(SLATE_900).text('Contenido', MARGIN, top + 6);
+  layout.forEach(({ entry, tocOffset, y }) => {
+    doc.setPage(tocPage + tocOffset);
+    const page = String(entry.page + extraTocPages);
+    const indent = entry.level === 1 ? 0 : 6;
+    doc.setFont('helvetica', entry.level === 1 ? 'bold' : 'normal').setFontSize(entry.level === 1 ? 11 : 9);
+    doc.setTextColor(entry.level === 1 ? SLATE_900 : SLATE_500);
+    const title = doc.splitTextToSize(clean(entry.title), contentWidth() - indent - 20)[0] as string;
+    doc.text(title, MARGIN + indent, y);
+    doc.text(page, pageWidth() - MARGIN, y, { align: 'right' });
+    const dotsFrom = MARGIN + indent + doc.getTextWidth(title) + 2;
+    const dotsTo = pageWidth() - MARGIN - doc.getTextWidth(page) - 2;
+    if (dotsTo > dotsFrom) {
+      doc.setLineDashPattern([0.3, 1], 0).setDrawColor('#cbd5e1').setLineWidth(0.3).line(dotsFrom, y, dotsTo, y).setLineDashPattern([], 0);
+    }
+    doc.link(MARGIN, y - 4, contentWidth(), 6, { pageNumber: entry.page + extraTocPages });
+  });
+
+  // ---------------- HEADERS & FOOTERS ----------------
+  const pages = doc.getNumberOfPages();
+  const generatedAt = formatShortDate(new Date());
+  for (let page = 2; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(SLATE_500);
+    doc.text(clean(`${estimate.projectName} · ${versionName}`), MARGIN, 10, { maxWidth: contentWidth() - 30 });
+    doc.text(`Página ${page} de ${pages}`, pageWidth() - MARGIN, 10, { align: 'right' });
+    doc.setDrawColor(SLATE_200).setLineWidth(0.2).line(MARGIN, 13, pageWidth() - MARGIN, 13);
+    doc.line(MARGIN, pageHeight() - 11, pageWidth() - MARGIN, pageHeight() - 11);
+    doc.text(clean(`Generado con EstimIA el ${generatedAt}`), MARGIN, pageHeight() - 6);
+    doc.text(`${page} / ${pages}`, pageWidth() - MARGIN, pageHeight() - 6, { align: 'right' });
+  }
+  return doc;
+};
+
+export const downloadPdfReport = (context: PdfReportContext) => {
+  downloadFile(buildPdfReport(context).output('arraybuffer'), exportFileName(context.estimate, 'pdf'), 'application/pdf');
+};
@@ -0,0 +1,91 @@
+export interface PRDChunk {
+  title: string;
+  content: string;
+}
+
+// PRDs up to this size are estimated in a single request
+export const SINGLE_REQUEST_MAX_CHARS = 40000;
+// Target size of each part of a longer PRD, well inside any model's context
+const CHUNK_MAX_CHARS = 24000;
+
+// Markdown headings, the document markers of composePRDText and short
+// numbered titles such as "3.2 Pagos" (not sentences ending in a period)
+const HEADING = /^(#{1,4}\s+\S.*|=== .+ ===|\d+(\.\d+)*\.?\s+\S.{0,70}[^.:;,])$/;
+
+interface Section {
+  title: string;
+  text: string;
+}
+
+const headingTitle = (line: string) =>
+  line.replace(/^#+\s*/, '').replace(/^===\s*(.*?)\s*===$/, '$1').trim();
+
+const splitSections = (text: string): Section[] => {
+  const sections: Section[] = [];
+  let title = '';
+  let lines: string[] = [];
+  const flush = () => {
+    if (lines.join('').trim()) sections.push({ title, text: lines.join('\n').trim() });
+  };
+
+  text.split('\n').forEach(line => {
+    if (HEADING.test(line.trim())) {
+      flush();
+      title = headingTitle(line.trim());
+      lines = [];
+    }
+    lines.push(line);
+  });
+  flush();
+  return sections;
+};
+
+// Sections longer than a chunk are cut at paragraphs (or lines, as a last resort)
+const splitLongSection = (section: Section): Section[] => {
+  if (section.text.length <= CHUNK_MAX_CHARS) return [section];
+  const pieces: string[] = [];
+  let current = '';
+  const separator = section.text.includes('\n\n') ? '\n\n' : '\n';
+  section.text.split(separator).forEach(paragraph => {
+    if (current && current.length + paragraph.length > CHUNK_MAX_CHARS) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${paragraph}` : paragraph;
+    while (current.length > CHUNK_MAX_CHARS) {
+      pieces.push(current.slice(0, CHUNK_MAX_CHARS));
+      current = current.slice(CHUNK_MAX_CHARS);
+    }
+  });
+  if (current.trim()) pieces.push(current);
+  return pieces.map((text, idx) => ({ title: `${section.title || 'Sin título'} (parte ${idx + 1})`, text }));
+};
+
+/**
+ * Splits a long PRD into parts that can be estimated on their own, cutting
+ * at headings and packing consecutive sections together up to the chunk
+ * size. Short PRDs come back as a single part.
+ */
+export const splitPRD = (text: string): PRDChunk[] => {
+  if (text.length <= SINGLE_REQUEST_MAX_CHARS) return [{ title: 'PRD', content: text }];
+
+  const chunks: { titles: string[]; texts: string[]; size: number }[] = [];
+  splitSections(text).flatMap(splitLongSection).forEach(section => {
+    const last = chunks[chunks.length - 1];
+    if (last && last.size + section.text.length <= CHUNK_MAX_CHARS) {
+      last.titles.push(section.title);
+      last.texts.push(section.text);
+      last.size += section.text.length;
+    } else {
+      chunks.push({ titles: [section.title], texts: [section.text], size: section.text.length });
+    }
+  });
+
+  return chunks.map((chunk, idx) => {
+    const titles = chunk.titles.filter(Boolean);
+    const title = titles.length === 0
+      ? `Parte ${idx + 1}`
+      : titles.length === 1 ? titles[0] : `${titles[0]} – ${titles[titles.length - 1]}`;
+    return { title, content: chunk.texts.join('\n\n') };
+  });
+};
@@ -0,0 +1,131 @@
+import { Clarification, PRDCheckId, PRDConfidence, PRDQuality } from "../types";
+
+export interface PRDCheck {
+  id: PRDCheckId;
+  label: string;
+  hint: string;
+  // Share of the score; functional requirements drive most of the effort
+  weight: number;
+}
+
+export const PRD_CHECKS: PRDCheck[] = [
+  { id: 'goals', label: 'Objetivos', hint: 'Qué problema resuelve el producto y cómo se mide el éxito.', weight: 15 },
+  { id: 'personas', label: 'Usuarios', hint: 'Tipos de usuario o personas y qué necesita cada uno.', weight: 10 },
+  { id: 'functional', label: 'Requisitos funcionales', hint: 'Funcionalidades, módulos o historias de usuario.', weight: 25 },
+  { id: 'nonFunctional', label: 'Requisitos no funcionales', hint: 'Rendimiento, seguridad, disponibilidad, normativa.', weight: 10 },
+  { id: 'integrations', label: 'Integraciones', hint: 'Sistemas externos, APIs, pasarelas de pago, SSO.', weight: 10 },
+  { id: 'platforms', label: 'Plataformas', hint: 'Web, iOS, Android, escritorio; navegadores soportados.', weight: 10 },
+  { id: 'acceptance', label: 'Criterios de aceptación', hint: 'Cómo se valida que cada funcionalidad está terminada.', weight: 10 },
+  { id: 'outOfScope', label: 'Fuera de alcance', hint: 'Lo que el proyecto explícitamente no incluye.', weight: 10 }
+];
+
+export const PRD_CONFIDENCE_LABELS: Record<PRDConfidence, string> = {
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja'
+};
+
+interface CheckPatterns {
+  // Title of a section dedicated to the topic
+  heading: RegExp;
+  // Mentions in the body; a single one may be incidental
+  signals: RegExp[];
+}
+
+// Distinct signals that cover a topic without a section of its own
+const MIN_SIGNALS = 2;
+
+// Matched against the text without accents and in lower case, in Spanish and English
+const PATTERNS: Record<PRDCheckId, CheckPatterns> = {
+  goals: {
+    heading: /(?<!\bno |\bnon[- ])\b(objetivos?|metas?|proposito|vision|problema|goals?|objectives?|kpis?|metricas)\b/,
+    signals: [/(?<!\bno )\bobjetivos?\b/, /\bmetas?\b/, /\bproposito\b/, /(?<!\bnon[- ])\bgoals?\b/, /\bobjectives?\b/, /\bkpis?\b/, /\bmetricas? de exito\b/, /\bproblema\b/]
+  },
+  personas: {
+    heading: /\b(usuarios?|users?|personas?|perfiles|publico objetivo|actores|roles)\b/,
+    signals: [
+      /\buser personas?\b/, /\bperfiles\b/, /\bperfil de usuarios?\b/, /\btipos? de usuarios?\b/, /\busuarios? (finales|final|objetivo)\b/,
+      /\bpublico objetivo\b/, /\broles? de usuarios?\b/, /\bactores\b/, /\bcomo (usuario|cliente|administrador|vendedor|comprador)\b/, /\bas an? (user|customer|admin)\b/
+    ]
+  },
+  functional: {
+    heading: /\b((requisitos?|requerimientos?) funcionales?|functional requirements?|funcionalidad(es)?|caracteristicas|features?|historias? de usuario|user stor(y|ies)|casos? de uso|modulos?|alcance funcional)\b/,
+    signals: [
+      /\b(requisitos?|requerimientos?) funcionales?\b/, /\bfunctional requirements?\b/, /\bfuncionalidad(es)?\b/, /\bcaracteristicas\b/, /\bfeatures?\b/,
+      /\bhistorias? de usuario\b/, /\buser stor(y|ies)\b/, /\bcasos? de uso\b/, /\b(el|los) usuarios? (podra|podran|debe|deben|puede|pueden)\b/, /\bmodulos?\b/
+    ]
+  },
+  nonFunctional: {
+    heading: /\b(no funcionales?|non[- ]functional|rendimiento|performance|seguridad|security|escalabilidad|disponibilidad|calidad)\b/,
+    signals: [
+      /\bno funcionales?\b/, /\bnon[- ]functional\b/, /\brendimiento\b/, /\bperformance\b/, /\bescalabilidad\b/, /\bscalability\b/,
+      /\bdisponibilidad\b/, /\bseguridad\b/, /\bsecurity\b/, /\blatencia\b/, /\buptime\b/, /\bsla\b/, /\baccesibilidad\b/, /\bgdpr\b/, /\bcumplimiento\b/
+    ]
+  },
+  integrations: {
+    heading: /\b(integracion(es)?|integrations?|apis?|servicios externos|sistemas externos|terceros)\b/,
+    signals: [
+      /\bintegracion(es)?\b/, /\bintegrations?\b/, /\bapis?\b/, /\bwebhooks?\b/, /\bpasarelas? de pago\b/, /\bsso\b/, /\boauth\b/, /\berp\b/, /\bcrm\b/,
+      /\b(stripe|paypal|mercado ?pago|salesforce|sap|google maps|firebase|twilio|sendgrid|hubspot)\b/
+    ]
+  },
+  platforms: {
+    heading: /\b(plataformas?|platforms?|dispositivos|compatibilidad|canales)\b/,
+    signals: [
+      /\bios\b/, /\bandroid\b/, /\bweb\b/, /\bescritorio\b/, /\bdesktop\b/, /\bmoviles?\b/, /\bmobile\b/, /\bnavegador(es)?\b/,
+      /\bplataformas?\b/, /\bresponsive\b/, /\bpwa\b/
+    ]
+  },
+  acceptance: {
+    heading: /\b(criterios? de aceptacion|acceptance criteria|definicion de (hecho|terminado|listo)|definition of done)\b/,
+    signals: [
+      /\bcriterios? de aceptacion\b/, /\bacceptance criteria\b/, /\bdado que\b[^.]*\bcuando\b/, /\bgiven\b[^.]*\bwhen\b[^.]*\bthen\b/,
+      /\bdefinicion de (hecho|terminado|listo)\b/, /\bdefinition of done\b/, /\bse considera (completo|completa|terminado|terminada|aceptado|aceptada)\b/
+    ]
+  },
+  outOfScope: {
+    heading: /\b(fuera del? alcance|out of scope|exclusiones|no incluido|non[- ]goals?|no objetivos)\b/,
+    signals: [
+      /\bfuera del? alcance\b/, /\bout of scope\b/, /\bno (se )?incluye\b/, /\bquedan? fuera\b/, /\bexclusiones\b/, /\bno contempla\b/,
+      /\bnon[- ]goals?\b/, /\bno objetivos\b/
+    ]
+  }
+};
+
+// Section titles: markdown headings, "Title:" labels at the start of a line
+// and short numbered titles without trailing punctuation
+const headingsOf = (content: string) => content.split('\n').map(line => line.trim()).flatMap(line => {
+  const markdown = line.match(/^#{1,6}\s+(.+)$/);
+  if (markdown) return [markdown[1]];
+  const label = line.match(/^([a-z][^:.]{0,49}):/);
+  if (label) return [label[1]];
+  return /^\d+(\.\d+)*\.?\s+\S.{0,70}[^.:;,]$/.test(line) ? [line.replace(/^[\d.]+\s*/, '')] : [];
+});
+
+const isCovered = ({ heading, signals }: CheckPatterns, content: string, headings: string[]) =>
+  headings.some(title => heading.test(title)) ||
+  signals.filter(pattern => pattern.test(content)).length >= MIN_SIGNALS;
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const confidenceFor = (score: number): PRDConfidence =>
+  score >= 75 ? 'high' : score >= 45 ? 'medium' : 'low';
+
+/**
+ * Scores a PRD against the checklist of topics an estimate depends on. The
+ * check is a keyword search, instant and offline, meant to flag gaps before
+ * spending a model call: a topic is covered by a section of its own or by
+ * several distinct mentions, never by a passing word. Answers to clarifying
+ * questions count as part of the document.
+ */
+export const assessPRD = (text: string, clarifications: Clarification[] = []): PRDQuality => {
+  const answers = clarifications.filter(c => c.answer).map(c => `${c.question} ${c.answer}`);
+  const content = normalize([text, ...answers].join('\n'));
+  const headings = headingsOf(content);
+  const missing = PRD_CHECKS.filter(check => !isCovered(PATTERNS[check.id], content, headings)).map(check => check.id);
+  const score = PRD_CHECKS.filter(check => !missing.includes(check.id)).reduce((acc, check) => acc + check.weight, 0);
+  return { score, confidence: confidenceFor(score), missing };
+};
+
+export const prdCheckLabel = (id: PRDCheckId) => PRD_CHECKS.find(check => check.id === id)?.label ?? id;
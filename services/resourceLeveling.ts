@@ -0,0 +1,332 @@
+import { PhaseEstimate, RoadmapItem, TeamRole, WorkCalendar } from "../types";
+import { buildTaskGraph, computeSchedule, lastWeekOf, linkPhases, ProjectSchedule, TaskNode, weekOfDay } from "./scheduler";
+
+// All days are working days from the project start (day 0)
+export interface LeveledTask {
+  phaseIndex: number;
+  // -1 for a phase without tasks
+  taskIndex: number;
+  name: string;
+  role: string;
+  start: number;
+  finish: number;
+  // Working days it can slip without delaying the leveled plan
+  slack: number;
+  critical: boolean;
+}
+
+export interface LeveledPhase {
+  name: string;
+  start: number;
+  finish: number;
+  startWeek: number;
+  endWeek: number;
+  // Least slack of its tasks; critical when any of them is
+  slack: number;
+  critical: boolean;
+}
+
+export interface RoleOverload {
+  role: string;
+  week: number;
+  demandHours: number;
+  capacityHours: number;
+}
+
+export interface LeveledSchedule {
+  tasks: LeveledTask[];
+  phases: LeveledPhase[];
+  durationDays: number;
+  durationWeeks: number;
+  // Dependency-only plan (one person per task) the leveling starts from
+  unconstrained: ProjectSchedule;
+  // Weeks of the unconstrained plan where a role needs more hours than it has
+  overloads: RoleOverload[];
+  warnings: string[];
+}
+
+const EPSILON = 1e-6;
+// Safety net for rosters whose capacity can never finish the work
+const MAX_DAYS = 20000;
+
+const key = (value: string) => value.trim().toLowerCase();
+
+// Productive hours one person of the role gives the project per working day
+export const personDailyHours = (role: TeamRole, calendar: WorkCalendar) =>
+  calendar.hoursPerDay * role.allocation / 100;
+
+export const roleWeeklyCapacity = (role: TeamRole, calendar: WorkCalendar) =>
+  personDailyHours(role, calendar) * role.headcount * calendar.workingDays.length;
+
+// Roles not in the roster (e.g. renamed in the dashboard) count as one full-time person
+const findRole = (roster: TeamRole[], name: string): TeamRole =>
+  roster.find(r => key(r.name) === key(name)) ??
+  { name, description: '', rate: 0, currency: '', headcount: 1, allocation: 100 };
+
+const roleOverloads = (schedule: ProjectSchedule, phases: PhaseEstimate[], calendar: WorkCalendar, roster: TeamRole[]): RoleOverload[] => {
+  const demand = new Map<string, Map<number, number>>();
+  const addDemand = (role: string, hours: number, start: number, finish: number) => {
+    if (hours <= 0 || finish <= start) return;
+    const perDay = hours / (finish - start);
+    const byWeek = demand.get(role) ?? new Map<number, number>();
+    for (let day = start; day < finish; day++) {
+      const week = weekOfDay(day, calendar);
+      byWeek.set(week, (byWeek.get(week) ?? 0) + perDay);
+    }
+    demand.set(role, byWeek);
+  };
+
+  schedule.tasks.forEach(t => {
+    const task = phases[t.phaseIndex].tasks[t.taskIndex];
+    addDemand(task.assignedRole, task.hours, t.earlyStart, t.earlyFinish);
+  });
+  schedule.phases.forEach((p, idx) => {
+    if (phases[idx].tasks.length === 0) addDemand(phases[idx].assignedRole, phases[idx].estimatedHours, p.earlyStart, p.earlyFinish);
+  });
+
+  const overloads: RoleOverload[] = [];
+  demand.forEach((byWeek, role) => {
+    const capacityHours = roleWeeklyCapacity(findRole(roster, role), calendar);
+    Array.from(byWeek.entries()).sort(([a], [b]) => a - b).forEach(([week, hours]) => {
+      if (hours > capacityHours + 0.01) {
+        overloads.push({ role, week, demandHours: Math.round(hours * 10) / 10, capacityHours: Math.round(capacityHours * 10) / 10 });
+      }
+    });
+  });
+  return overloads;
+};
+
+interface LevelingGraph {
+  nodes: TaskNode[];
+  position: Map<number, number>;
+  successors: { node: number; lag: number }[][];
+  // Node indexes, most urgent first
+  byPriority: number[];
+  roles: Map<string, TeamRole>;
+  // Key of the role of each node
+  roleKeys: string[];
+}
+
+interface LevelingRun {
+  start: number[];
+  finish: number[];
+  // Task the same person worked on before each one, if any
+  personBefore: (number | null)[];
+  complete: boolean;
+  lastDay: number;
+}
+
+// Everything about a plan that does not depend on the hours of its tasks
+const prepareGraph = (
+  phases: PhaseEstimate[],
+  unconstrained: ProjectSchedule,
+  calendar: WorkCalendar,
+  roster: TeamRole[],
+  warnings: string[]
+): LevelingGraph => {
+  const { nodes, position, successors } = buildTaskGraph(phases, calendar);
+
+  // ---------------- PRIORITIES ----------------
+  const lateStartOf = (phaseIndex: number, taskIndex: number) =>
+    taskIndex >= 0
+      ? unconstrained.tasks.find(t => t.phaseIndex === phaseIndex && t.taskIndex === taskIndex)?.lateStart ?? 0
+      : unconstrained.phases[phaseIndex]?.lateStart ?? 0;
+  const priority = nodes.map(node => lateStartOf(node.phaseIndex, node.taskIndex));
+  const byPriority = nodes.map((_, idx) => idx).sort((a, b) => priority[a] - priority[b] || position.get(a)! - position.get(b)!);
+
+  // ---------------- PEOPLE ----------------
+  const roles = new Map<string, TeamRole>();
+  const roleKeys = nodes.map(node => key(node.role));
+  nodes.forEach((node, idx) => {
+    const roleKey = roleKeys[idx];
+    if (roles.has(roleKey)) return;
+    const role = findRole(roster, node.role);
+    if (!roster.includes(role) && node.hours > 0) {
+      warnings.push(`El rol "${node.role}" no está en el equipo; se planificó con una persona a tiempo completo.`);
+    }
+    roles.set(roleKey, role);
+  });
+
+  return { nodes, position, successors, byPriority, roles, roleKeys };
+};
+
+// Day-by-day simulation of the people of each role working through `hours` (one entry per node)
+const runLeveling = ({ nodes, position, byPriority, roles, roleKeys }: LevelingGraph, hours: number[], calendar: WorkCalendar): LevelingRun => {
+  // `last` is the task each person took before the current one
+  const pools = Array.from(roles.entries()).map(([roleKey, role]) => {
+    const people = Math.max(1, role.headcount);
+    return {
+      roleKey,
+      dailyHours: personDailyHours(role, calendar),
+      slots: Array.from({ length: people }, (): number | null => null),
+      last: Array.from({ length: people }, (): number | null => null)
+    };
+  });
+  const remaining = hours.map(h => Math.max(0, h));
+  const start = nodes.map(() => -1);
+  const finish = nodes.map(() => -1);
+  const personBefore = nodes.map((): number | null => null);
+  let done = 0;
+
+  // Links against the topological order belong to a cycle and are ignored, as in the CPM.
+  // Once every predecessor has finished the ready day is final, so it is kept
+  const readyAt = nodes.map(() => -1);
+  const readyDay = (idx: number) => {
+    if (readyAt[idx] >= 0) return readyAt[idx];
+    let ready = 0;
+    for (const pred of nodes[idx].preds) {
+      if (position.get(pred.node)! > position.get(idx)!) continue;
+      if (finish[pred.node] < 0) return Infinity;
+      ready = Math.max(ready, finish[pred.node] + pred.lag);
+    }
+    readyAt[idx] = ready;
+    return ready;
+  };
+
+  let day = 0;
+  for (; done < nodes.length && day < MAX_DAYS; day++) {
+    // Work-free items finish as soon as they are ready, which can release others
+    let released = true;
+    while (released) {
+      released = false;
+      byPriority.forEach(idx => {
+        if (finish[idx] >= 0 || remaining[idx] > EPSILON) return;
+        const ready = readyDay(idx);
+        if (ready > day) return;
+        start[idx] = finish[idx] = ready;
+        done++;
+        released = true;
+      });
+    }
+
+    pools.forEach(pool => {
+      const waiting = byPriority.filter(idx =>
+        start[idx] < 0 && remaining[idx] > EPSILON && roleKeys[idx] === pool.roleKey && readyDay(idx) <= day
+      );
+      pool.slots = pool.slots.map((current, person) => {
+        const task = current ?? waiting.shift() ?? null;
+        if (task === null) return null;
+        if (start[task] < 0) {
+          start[task] = day;
+          personBefore[task] = pool.last[person];
+          pool.last[person] = task;
+        }
+        remaining[task] -= pool.dailyHours;
+        if (remaining[task] > EPSILON) return task;
+        finish[task] = day + 1;
+        done++;
+        return null;
+      });
+    });
+  }
+  return { start, finish, personBefore, complete: done === nodes.length, lastDay: day };
+};
+
+const weeksOf = (days: number, calendar: WorkCalendar) => Math.ceil(days / Math.max(1, calendar.workingDays.length));
+
+/**
+ * Resource-constrained schedule. Every person of a role works on one task at
+ * a time, at the role's allocation; free people pick the ready task with the
+ * least slack in the unconstrained critical path, so adding headcount lets
+ * independent tasks of the same role run in parallel. Slack and the critical
+ * path are then measured on the leveled plan, where waiting for the person
+ * who finishes the previous task counts like a dependency.
+ */
+export const levelResources = (inputPhases: PhaseEstimate[], calendar: WorkCalendar, roster: TeamRole[], roadmap: RoadmapItem[] = []): LeveledSchedule => {
+  const phases = linkPhases(inputPhases, calendar, roadmap);
+  const unconstrained = computeSchedule(phases, calendar);
+  const warnings: string[] = [];
+  const graph = prepareGraph(phases, unconstrained, calendar, roster, warnings);
+  const { nodes, position, successors } = graph;
+
+  // ---------------- SIMULATION ----------------
+  const { start, finish, personBefore, complete, lastDay } = runLeveling(graph, nodes.map(node => node.hours), calendar);
+  if (!complete) {
+    warnings.push('La capacidad del equipo no alcanza para completar el trabajo; revisa las personas y la dedicación de cada rol.');
+    nodes.forEach((_, idx) => {
+      if (start[idx] < 0) start[idx] = lastDay;
+      if (finish[idx] < 0) finish[idx] = lastDay;
+    });
+  }
+
+  // ---------------- SLACK ----------------
+  const durationDays = Math.max(0, ...finish);
+  // Backward pass in reverse start order; every link, dependency or person,
+  // goes from an item to one that starts no earlier
+  const followers = successors.map((links, idx) => links.filter(link => position.get(link.node)! > position.get(idx)!));
+  personBefore.forEach((before, idx) => { if (before !== null) followers[before].push({ node: idx, lag: 0 }); });
+  const lateFinish = nodes.map(() => durationDays);
+  nodes.map((_, idx) => idx)
+    .sort((a, b) => start[b] - start[a] || finish[b] - finish[a] || position.get(b)! - position.get(a)!)
+    .forEach(idx => followers[idx].forEach(link => {
+      const lateStart = lateFinish[link.node] - (finish[link.node] - start[link.node]);
+      lateFinish[idx] = Math.min(lateFinish[idx], lateStart - link.lag);
+    }));
+  const slack = nodes.map((_, idx) => Math.max(0, lateFinish[idx] - finish[idx]));
+
+  // ---------------- RESULT ----------------
+  const tasks: LeveledTask[] = nodes.map((node, idx) => ({
+    phaseIndex: node.phaseIndex,
+    taskIndex: node.taskIndex,
+    name: node.name,
+    role: node.role,
+    start: start[idx],
+    finish: finish[idx],
+    slack: slack[idx],
+    critical: slack[idx] === 0 && finish[idx] > start[idx]
+  }));
+  const leveledPhases: LeveledPhase[] = phases.map((phase, phaseIndex) => {
+    const own = tasks.filter(t => t.phaseIndex === phaseIndex);
+    const phaseStart = Math.min(...own.map(t => t.start));
+    const phaseFinish = Math.max(...own.map(t => t.finish));
+    return {
+      name: phase.name,
+      start: phaseStart,
+      finish: phaseFinish,
+      startWeek: weekOfDay(phaseStart, calendar),
+      endWeek: lastWeekOf(phaseStart, phaseFinish, calendar),
+      slack: Math.min(...own.map(t => t.slack)),
+      critical: own.some(t => t.critical)
+    };
+  });
+
+  const overloads = roleOverloads(unconstrained, phases, calendar, roster);
+  const overloadedRoles = Array.from(new Set(overloads.map(o => o.role)));
+  overloadedRoles.forEach(role => {
+    const weeks = overloads.filter(o => o.role === role);
+    const peak = weeks.reduce((max, o) => o.demandHours > max.demandHours ? o : max);
+    warnings.push(
+      `"${role}" está sobreasignado en ${weeks.length} ${weeks.length === 1 ? 'semana' : 'semanas'} del plan sin nivelar ` +
+      `(semana ${peak.week}: ${peak.demandHours} h para ${peak.capacityHours} h disponibles); sus tareas se reprogramaron.`
+    );
+  });
+
+  return {
+    tasks,
+    phases: leveledPhases,
+    durationDays,
+    durationWeeks: weeksOf(durationDays, calendar),
+    unconstrained,
+    overloads,
+    warnings: [...unconstrained.warnings, ...warnings]
+  };
+};
+
+/**
+ * Prepares a plan to be leveled many times with other task hours, as the
+ * Monte Carlo simulation does: dependencies, people and the order in which
+ * tasks are picked (from the unconstrained plan of the base hours) are
+ * worked out once. `durationWeeks` takes the hours of every node of `nodes`
+ * and gives null when that plan does not finish within the leveling horizon.
+ */
+export const prepareLeveling = (inputPhases: PhaseEstimate[], calendar: WorkCalendar, roster: TeamRole[], roadmap: RoadmapItem[] = []) => {
+  const phases = linkPhases(inputPhases, calendar, roadmap);
+  const graph = prepareGraph(phases, computeSchedule(phases, calendar), calendar, roster, []);
+  return {
+    nodes: graph.nodes,
+    durationWeeks: (hours: number[]): number | null => {
+      const { finish, complete } = runLeveling(graph, hours, calendar);
+      return complete ? weeksOf(Math.max(0, ...finish), calendar) : null;
+    }
+  };
+};
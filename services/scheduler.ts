@@ -0,0 +1,260 @@
+import { Dependency, PhaseEstimate, RoadmapItem, WorkCalendar } from "../types";
+
+// All offsets are in working days from the project start (day 0)
+export interface ScheduledItem {
+  name: string;
+  durationDays: number;
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  slack: number;
+  critical: boolean;
+}
+
+export interface TaskSchedule extends ScheduledItem {
+  phaseIndex: number;
+  taskIndex: number;
+}
+
+export interface PhaseSchedule extends ScheduledItem {
+  startWeek: number;
+  endWeek: number;
+}
+
+export interface ProjectSchedule {
+  tasks: TaskSchedule[];
+  phases: PhaseSchedule[];
+  durationDays: number;
+  durationWeeks: number;
+  warnings: string[];
+}
+
+export interface TaskNode {
+  phaseIndex: number;
+  // -1 for a phase without tasks, scheduled as a single block
+  taskIndex: number;
+  name: string;
+  role: string;
+  hours: number;
+  durationDays: number;
+  preds: { node: number; lag: number }[];
+}
+
+export interface TaskGraph {
+  nodes: TaskNode[];
+  nodesByPhase: number[][];
+  successors: { node: number; lag: number }[][];
+  // Topological order; nodes caught in a cycle are appended at the end
+  order: number[];
+  // Index of each node in `order`; links against it belong to a cycle and are ignored
+  position: Map<number, number>;
+  warnings: string[];
+}
+
+const key = (value: string) => value.trim().toLowerCase();
+
+const lagOf = (dependency: Dependency) => Math.max(0, Number(dependency.lagDays) || 0);
+
+export const taskDurationDays = (hours: number, calendar: WorkCalendar) =>
+  hours > 0 ? Math.ceil(hours / calendar.hoursPerDay) : 0;
+
+export const hasDependencies = (phases: PhaseEstimate[]) =>
+  phases.some(p => (p.dependsOn?.length ?? 0) > 0 || p.tasks.some(t => (t.dependsOn?.length ?? 0) > 0));
+
+/**
+ * Derives phase dependencies from a roadmap laid out by hand (or by the
+ * model): each phase follows the phases that end right before it starts,
+ * keeping the gap between them as lag.
+ */
+export const inferPhaseDependencies = (phases: PhaseEstimate[], roadmap: RoadmapItem[], calendar: WorkCalendar): PhaseEstimate[] => {
+  const entries = new Map(roadmap.map(r => [key(r.phaseName), r]));
+  return phases.map(phase => {
+    const own = entries.get(key(phase.name));
+    if (!own) return phase;
+    const before = phases
+      .map(p => entries.get(key(p.name)))
+      .filter((r): r is RoadmapItem => !!r && r !== own && r.endWeek < own.startWeek);
+    if (before.length === 0) return phase;
+    const lastEnd = Math.max(...before.map(r => r.endWeek));
+    const lagDays = (own.startWeek - 1 - lastEnd) * calendar.workingDays.length;
+    return {
+      ...phase,
+      dependsOn: before
+        .filter(r => r.endWeek === lastEnd)
+        .map(r => ({ name: r.phaseName, ...(lagDays > 0 ? { lagDays } : {}) }))
+    };
+  });
+};
+
+/**
+ * Task network of the project. Phase dependencies make every task of the
+ * phase wait for all tasks of the predecessor phase; task dependencies link
+ * tasks of the same phase. Tasks without predecessors start with their phase.
+ */
+export const buildTaskGraph = (phases: PhaseEstimate[], calendar: WorkCalendar): TaskGraph => {
+  const warnings: string[] = [];
+
+  // ---------------- GRAPH ----------------
+  const nodes: TaskNode[] = [];
+  const nodesByPhase: number[][] = phases.map((phase, phaseIndex) => {
+    const work = phase.tasks.length > 0
+      ? phase.tasks.map(t => ({ name: t.name, role: t.assignedRole, hours: t.hours }))
+      : [{ name: phase.name, role: phase.assignedRole, hours: phase.estimatedHours }];
+    return work.map(({ name, role, hours }, idx) => {
+      nodes.push({
+        phaseIndex,
+        taskIndex: phase.tasks.length > 0 ? idx : -1,
+        name,
+        role,
+        hours,
+        durationDays: taskDurationDays(hours, calendar),
+        preds: []
+      });
+      return nodes.length - 1;
+    });
+  });
+  const phaseIndexByName = new Map(phases.map((p, idx) => [key(p.name), idx]));
+
+  phases.forEach((phase, phaseIndex) => {
+    (phase.dependsOn ?? []).forEach(dependency => {
+      const predecessor = phaseIndexByName.get(key(dependency.name));
+      if (predecessor === undefined || predecessor === phaseIndex) {
+        warnings.push(`"${phase.name}" depende de "${dependency.name}", que no es otra fase del proyecto.`);
+        return;
+      }
+      nodesByPhase[phaseIndex].forEach(node => {
+        nodesByPhase[predecessor].forEach(pred => nodes[node].preds.push({ node: pred, lag: lagOf(dependency) }));
+      });
+    });
+
+    phase.tasks.forEach((task, taskIndex) => {
+      (task.dependsOn ?? []).forEach(dependency => {
+        const predecessor = phase.tasks.findIndex(t => key(t.name) === key(dependency.name));
+        if (predecessor === -1 || predecessor === taskIndex) {
+          warnings.push(`La tarea "${task.name}" depende de "${dependency.name}", que no es otra tarea de "${phase.name}".`);
+          return;
+        }
+        nodes[nodesByPhase[phaseIndex][taskIndex]].preds.push({ node: nodesByPhase[phaseIndex][predecessor], lag: lagOf(dependency) });
+      });
+    });
+  });
+
+  // ---------------- TOPOLOGICAL ORDER ----------------
+  const successors: { node: number; lag: number }[][] = nodes.map(() => []);
+  nodes.forEach((node, idx) => node.preds.forEach(p => successors[p.node].push({ node: idx, lag: p.lag })));
+  const pending = nodes.map(node => node.preds.length);
+  const queue = nodes.map((_, idx) => idx).filter(idx => pending[idx] === 0);
+  const order: number[] = [];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+    successors[current].forEach(s => {
+      if (--pending[s.node] === 0) queue.push(s.node);
+    });
+  }
+  if (order.length < nodes.length) {
+    const inCycle = nodes.filter((_, idx) => !order.includes(idx));
+    const names = Array.from(new Set(inCycle.map(n => phases[n.phaseIndex].name)));
+    warnings.push(`Hay dependencias circulares en ${names.map(n => `"${n}"`).join(', ')}; se ignoraron para calcular el cronograma.`);
+    nodes.forEach((_, idx) => { if (!order.includes(idx)) order.push(idx); });
+  }
+
+  return { nodes, nodesByPhase, successors, order, position: new Map(order.map((node, idx) => [node, idx])), warnings };
+};
+
+// Phases that have no dependencies anywhere get them from `roadmap`
+export const linkPhases = (phases: PhaseEstimate[], calendar: WorkCalendar, roadmap: RoadmapItem[] = []) =>
+  hasDependencies(phases) ? phases : inferPhaseDependencies(phases, roadmap, calendar);
+
+// Project week (1-based) containing working day `day`
+export const weekOfDay = (day: number, calendar: WorkCalendar) =>
+  Math.floor(day / Math.max(1, calendar.workingDays.length)) + 1;
+
+// Last project week of work running from day `start` up to (not including) day `finish`
+export const lastWeekOf = (start: number, finish: number, calendar: WorkCalendar) =>
+  Math.max(weekOfDay(start, calendar), Math.ceil(finish / Math.max(1, calendar.workingDays.length)));
+
+/**
+ * Critical path method over the task network, assuming every task has its
+ * own person. When no dependency is declared anywhere, they are inferred
+ * from `roadmap`.
+ */
+export const computeSchedule = (inputPhases: PhaseEstimate[], calendar: WorkCalendar, roadmap: RoadmapItem[] = []): ProjectSchedule => {
+  const phases = linkPhases(inputPhases, calendar, roadmap);
+  const { nodes, nodesByPhase, successors, order, position, warnings } = buildTaskGraph(phases, calendar);
+  const daysPerWeek = Math.max(1, calendar.workingDays.length);
+
+  // ---------------- FORWARD / BACKWARD PASS ----------------
+  const earlyStart = nodes.map(() => 0);
+  const earlyFinish = nodes.map(() => 0);
+  order.forEach(idx => {
+    // Links that point forward in the order only exist inside cycles, which are ignored
+    earlyStart[idx] = Math.max(0, ...nodes[idx].preds
+      .filter(p => position.get(p.node)! < position.get(idx)!)
+      .map(p => earlyFinish[p.node] + p.lag));
+    earlyFinish[idx] = earlyStart[idx] + nodes[idx].durationDays;
+  });
+
+  const durationDays = Math.max(0, ...earlyFinish);
+  const lateFinish = nodes.map(() => durationDays);
+  const lateStart = nodes.map(() => durationDays);
+  [...order].reverse().forEach(idx => {
+    lateFinish[idx] = Math.min(durationDays, ...successors[idx]
+      .filter(s => position.get(s.node)! > position.get(idx)!)
+      .map(s => lateStart[s.node] - s.lag));
+    lateStart[idx] = lateFinish[idx] - nodes[idx].durationDays;
+  });
+
+  const item = (name: string, es: number, ef: number, ls: number, lf: number): ScheduledItem => {
+    const slack = Math.max(0, ls - es);
+    return { name, durationDays: ef - es, earlyStart: es, earlyFinish: ef, lateStart: ls, lateFinish: lf, slack, critical: slack === 0 && durationDays > 0 };
+  };
+
+  const tasks: TaskSchedule[] = nodes
+    .map((node, idx) => ({ node, idx }))
+    .filter(({ node }) => node.taskIndex >= 0)
+    .map(({ node, idx }) => ({
+      ...item(node.name, earlyStart[idx], earlyFinish[idx], lateStart[idx], lateFinish[idx]),
+      phaseIndex: node.phaseIndex,
+      taskIndex: node.taskIndex
+    }));
+
+  const phaseSchedules: PhaseSchedule[] = phases.map((phase, phaseIndex) => {
+    const ids = nodesByPhase[phaseIndex];
+    const es = Math.min(...ids.map(i => earlyStart[i]));
+    const ef = Math.max(...ids.map(i => earlyFinish[i]));
+    const ls = Math.min(...ids.map(i => lateStart[i]));
+    const lf = Math.max(...ids.map(i => lateFinish[i]));
+    return {
+      ...item(phase.name, es, ef, ls, lf),
+      // A phase is critical when any of its tasks is
+      slack: Math.min(...ids.map(i => Math.max(0, lateStart[i] - earlyStart[i]))),
+      critical: ids.some(i => lateStart[i] - earlyStart[i] <= 0 && durationDays > 0),
+      startWeek: weekOfDay(es, calendar),
+      endWeek: lastWeekOf(es, ef, calendar)
+    };
+  });
+
+  return {
+    tasks,
+    phases: phaseSchedules,
+    durationDays,
+    durationWeeks: Math.ceil(durationDays / daysPerWeek),
+    warnings
+  };
+};
+
+// Roadmap rebuilt from a schedule (plain or leveled), keeping the milestones of `roadmap`
+export const scheduleToRoadmap = (
+  schedule: { phases: Pick<PhaseSchedule, 'name' | 'startWeek' | 'endWeek'>[] },
+  roadmap: RoadmapItem[]
+): RoadmapItem[] => {
+  const milestones = new Map(roadmap.map(r => [key(r.phaseName), r.milestone]));
+  return schedule.phases.map(phase => ({
+    phaseName: phase.name,
+    startWeek: phase.startWeek,
+    endWeek: phase.endWeek,
+    milestone: milestones.get(key(phase.name)) ?? ''
+  }));
+};
@@ -0,0 +1,249 @@
+import * as XLSX from 'xlsx';
+import { EstimationResult, ProjectMetadata } from "../types";
+import { SimulationResult } from "./monteCarlo";
+import { roadmapItemDates, toISODate, WorkWeek } from "./workCalendar";
+import { downloadFile } from "./download";
+import { prdCheckLabel, PRD_CONFIDENCE_LABELS } from "./prdQuality";
+
+/** Everything the exports need, as currently shown in the dashboard. */
+export interface SpreadsheetContext {
+  // Model output with the dashboard edits and rates applied (see applyRoleRates)
+  estimate: EstimationResult;
+  metadata: ProjectMetadata;
+  durationWeeks: number;
+  workWeeks: WorkWeek[];
+  criticalPhases: string[];
+  simulation?: SimulationResult | null;
+}
+
+const SHEETS = {
+  summary: 'Resumen',
+  roles: 'Costo por Rol',
+  phases: 'Fases',
+  tasks: 'Tareas',
+  roadmap: 'Roadmap',
+  risks: 'Riesgos',
+  scope: 'Supuestos y Exclusiones'
+};
+
+const MONEY_FORMAT = '#,##0.00';
+
+type Cell = XLSX.CellObject | string | number | null;
+
+// Same matching of phase names as the scheduler
+const key = (value: string) => value.trim().toLowerCase();
+
+// Formula with its current value cached, so viewers that do not recalculate still show numbers
+const formula = (f: string, v: number, z?: string): XLSX.CellObject => ({ t: 'n', f, v, ...(z ? { z } : {}) });
+const money = (v: number): XLSX.CellObject => ({ t: 'n', v, z: MONEY_FORMAT });
+
+const ref = (sheet: string, range: string) => `'${sheet}'!${range}`;
+
+const sheet = (rows: Cell[][], widths: number[]): XLSX.WorkSheet => {
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws['!cols'] = widths.map(wch => ({ wch }));
+  return ws;
+};
+
+export const exportFileName = (estimate: EstimationResult, extension: string, suffix = '') =>
+  `Estimacion-${estimate.projectName.replace(/\s+/g, '-')}${suffix}.${extension}`;
+
+// Assumptions and exclusions, one per row; shared by the workbook and the CSV
+const scopeTable = (estimate: EstimationResult): string[][] => [
+  ['Tipo', 'Descripción', 'Detalle'],
+  ...estimate.assumptions.map(a => ['Supuesto', a.description, a.impactIfFalse]),
+  ...estimate.exclusions.map(e => ['Fuera de alcance', e.description, e.reason])
+];
+
+/**
+ * Workbook with one sheet per section. Task rates look up the role sheet and
+ * costs, phase and project totals are formulas, so editing a rate or the
+ * hours of a task in Excel updates the whole estimate.
+ */
+export const buildWorkbook = ({ estimate, metadata, durationWeeks, workWeeks, criticalPhases, simulation }: SpreadsheetContext): XLSX.WorkBook => {
+  const currency = metadata.currency;
+  const tasks = estimate.phases.flatMap(phase => phase.tasks.map(task => ({ phase: phase.name, task })));
+  const lastTaskRow = Math.max(2, tasks.length + 1);
+  const tasksColumn = (column: string) => ref(SHEETS.tasks, `$${column}$2:$${column}$${lastTaskRow}`);
+
+  // ---------------- ROLES ----------------
+  const roles = estimate.costBreakdown;
+  const roleRows: Cell[][] = [
+    ['Rol', `Tarifa/Hora (${currency})`, 'Horas', `Subtotal (${currency})`],
+    ...roles.map((role, idx) => {
+      const row = idx + 2;
+      return [
+        role.role,
+        money(role.hourlyRate),
+        formula(`SUMIF(${tasksColumn('C')},A${row},${tasksColumn('E')})`, role.totalHours),
+        formula(`SUMIF(${tasksColumn('C')},A${row},${tasksColumn('F')})`, role.subtotalCost, MONEY_FORMAT)
+      ];
+    }),
+    [
+      'TOTAL',
+      null,
+      formula(`SUM(C2:C${roles.length + 1})`, roles.reduce((acc, r) => acc + r.totalHours, 0)),
+      formula(`SUM(D2:D${roles.length + 1})`, roles.reduce((acc, r) => acc + r.subtotalCost, 0), MONEY_FORMAT)
+    ]
+  ];
+
+  // ---------------- TASKS ----------------
+  const taskRows: Cell[][] = [
+    ['Fase', 'Tarea', 'Rol', `Tarifa/Hora (${currency})`, 'Horas', `Costo (${currency})`, 'Horas optimistas', 'Horas pesimistas'],
+    ...tasks.map(({ phase, task }, idx) => {
+      const row = idx + 2;
+      return [
+        phase,
+        task.name,
+        task.assignedRole,
+        formula(`IFERROR(VLOOKUP(C${row},${ref(SHEETS.roles, `$A$2:$B$${roles.length + 1}`)},2,FALSE),0)`, task.hourlyRate, MONEY_FORMAT),
+        task.hours,
+        formula(`D${row}*E${row}`, task.cost, MONEY_FORMAT),
+        task.optimisticHours ?? task.hours,
+        task.pessimisticHours ?? task.hours
+      ];
+    })
+  ];
+
+  // ---------------- PHASES ----------------
+  // Phases without tasks keep their own figures, there is nothing to add up
+  const phaseRows: Cell[][] = [
+    ['Fase', 'Complejidad', 'Responsable', 'Horas', `Costo (${currency})`, 'Descripción'],
+    ...estimate.phases.map((phase, idx) => {
+      const row = idx + 2;
+      return [
+        phase.name,
+        phase.complexity,
+        phase.assignedRole,
+        phase.tasks.length > 0 ? formula(`SUMIF(${tasksColumn('A')},A${row},${tasksColumn('E')})`, phase.estimatedHours) : phase.estimatedHours,
+        phase.tasks.length > 0 ? formula(`SUMIF(${tasksColumn('A')},A${row},${tasksColumn('F')})`, phase.estimatedCost, MONEY_FORMAT) : money(phase.estimatedCost),
+        phase.description
+      ];
+    })
+  ];
+  const lastPhaseRow = estimate.phases.length + 1;
+  const totalHours = estimate.phases.reduce((acc, p) => acc + p.estimatedHours, 0);
+  const totalCost = estimate.phases.reduce((acc, p) => acc + p.estimatedCost, 0);
+
+  // ---------------- ROADMAP ----------------
+  const roadmapRows: Cell[][] = [
+    ['Fase', 'Semana inicio', 'Semana fin', 'Fecha inicio', 'Fecha fin', 'Hito', 'Ruta crítica'],
+    ...estimate.roadmap.map(item => {
+      const dates = roadmapItemDates(item, workWeeks);
+      return [
+        item.phaseName,
+        item.startWeek,
+        item.endWeek,
+        dates ? toISODate(dates.start) : '',
+        dates ? toISODate(dates.end) : '',
+        item.milestone,
+        criticalPhases.some(name => key(name) === key(item.phaseName)) ? 'Sí' : 'No'
+      ];
+    })
+  ];
+
+  // ---------------- RISKS ----------------
+  const riskRows: Cell[][] = [
+    ['Riesgo', 'Impacto', 'Mitigación'],
+    ...estimate.risks.map(r => [r.risk, r.impact, r.mitigation])
+  ];
+
+  // ---------------- ASSUMPTIONS & EXCLUSIONS ----------------
+  const scopeRows: Cell[][] = scopeTable(estimate);
+
+  // ---------------- SUMMARY ----------------
+  const summaryRows: Cell[][] = [
+    ['Proyecto', estimate.projectName],
+    ['Solicitante', estimate.requesterName],
+    ['Fecha', estimate.requestDate],
+    ['Inicio del proyecto', metadata.startDate],
+    ['Moneda', currency],
+    [],
+    [`Costo total (${currency})`, formula(`SUM(${ref(SHEETS.phases, `E2:E${Math.max(2, lastPhaseRow)}`)})`, totalCost, MONEY_FORMAT)],
+    ['Horas totales', formula(`SUM(${ref(SHEETS.phases, `D2:D${Math.max(2, lastPhaseRow)}`)})`, totalHours)],
+    ['Duración (semanas)', durationWeeks],
+    ...(estimate.prdQuality
+      ? [
+          ['Confianza (completitud del PRD)', `${PRD_CONFIDENCE_LABELS[estimate.prdQuality.confidence]} (${estimate.prdQuality.score}/100)`],
+          ...(estimate.prdQuality.missing.length > 0 ? [['El PRD no cubre', estimate.prdQuality.missing.map(prdCheckLabel).join(', ')]] : [])
+        ]
+      : []),
+    ...(simulation
+      ? [
+          [],
+          ['Nivel de confianza', `Costo (${currency})`, 'Semanas'],
+          ...(['p50', 'p80', 'p90'] as const).map(level => [level.toUpperCase(), money(simulation.cost[level]), simulation.weeks[level]]),
+          [`Simulación Monte Carlo de ${simulation.iterations} escenarios al momento de exportar; no se recalcula en la planilla.`]
+        ]
+      : []),
+    [],
+    ['Resumen ejecutivo', estimate.executiveSummary]
+  ];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet(summaryRows, [28, 60, 12]), SHEETS.summary);
+  XLSX.utils.book_append_sheet(workbook, sheet(roleRows, [28, 18, 10, 18]), SHEETS.roles);
+  XLSX.utils.book_append_sheet(workbook, sheet(phaseRows, [32, 12, 24, 10, 16, 60]), SHEETS.phases);
+  XLSX.utils.book_append_sheet(workbook, sheet(taskRows, [32, 40, 24, 16, 10, 16, 14, 14]), SHEETS.tasks);
+  XLSX.utils.book_append_sheet(workbook, sheet(roadmapRows, [32, 12, 12, 14, 14, 40, 12]), SHEETS.roadmap);
+  XLSX.utils.book_append_sheet(workbook, sheet(riskRows, [50, 10, 60]), SHEETS.risks);
+  XLSX.utils.book_append_sheet(workbook, sheet(scopeRows, [18, 60, 60]), SHEETS.scope);
+  return workbook;
+};
+
+export const downloadXLSX = (context: SpreadsheetContext) => {
+  const content: ArrayBuffer = XLSX.write(buildWorkbook(context), { bookType: 'xlsx', type: 'array' });
+  downloadFile(content, exportFileName(context.estimate, 'xlsx'), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+};
+
+// Text from the model or the user that a spreadsheet would run as a formula
+// (CSV injection) gets a leading apostrophe, which keeps it as plain text
+const neutralizeFormula = (value: string | number) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value ?? '');
+
+// RFC 4180 quoting; the BOM makes Excel read the file as UTF-8
+export const toCSV = (rows: (string | number)[][]) =>
+  '\uFEFF' + rows.map(row => row.map(value => {
+    const text = neutralizeFormula(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n');
+
+// Assumptions and exclusions as plain text, for the formats that only have
+// room for them in a single cell or description
+export const scopeNotes = (estimate: EstimationResult) => [
+  ...(estimate.assumptions.length > 0
+    ? ['Supuestos:', ...estimate.assumptions.map(a => `- ${a.description}${a.impactIfFalse ? ` (si no se cumple: ${a.impactIfFalse})` : ''}`)]
+    : []),
+  ...(estimate.assumptions.length > 0 && estimate.exclusions.length > 0 ? [''] : []),
+  ...(estimate.exclusions.length > 0
+    ? ['Fuera de alcance:', ...estimate.exclusions.map(e => `- ${e.description}${e.reason ? ` (${e.reason})` : ''}`)]
+    : [])
+].join('\n');
+
+// One row per task, with the rates currently shown in the dashboard; every
+// row is a task, so the scope goes to its own file
+export const tasksToCSV = (estimate: EstimationResult, currency: string) =>
+  toCSV([
+    ['Fase', 'Tarea', 'Rol', 'Tarifa/Hora', 'Horas', 'Horas optimistas', 'Horas pesimistas', 'Costo', 'Moneda'],
+    ...estimate.phases.flatMap(phase => phase.tasks.map(task => [
+      phase.name,
+      task.name,
+      task.assignedRole,
+      task.hourlyRate,
+      task.hours,
+      task.optimisticHours ?? task.hours,
+      task.pessimisticHours ?? task.hours,
+      Math.round(task.cost * 100) / 100,
+      currency
+    ]))
+  ]);
+
+export const scopeToCSV = (estimate: EstimationResult) => toCSV(scopeTable(estimate));
+
+// The assumptions and exclusions, when there are any, come in a second file
+export const downloadTasksCSV = (estimate: EstimationResult, currency: string) => {
+  downloadFile(tasksToCSV(estimate, currency), exportFileName(estimate, 'csv', '-Tareas'), 'text/csv;charset=utf-8');
+  if (estimate.assumptions.length > 0 || estimate.exclusions.length > 0) {
+    downloadFile(scopeToCSV(estimate), exportFileName(estimate, 'csv', '-Alcance'), 'text/csv;charset=utf-8');
+  }
+};
@@ -0,0 +1,156 @@
+import { TeamRole } from "../types";
+
+const STORAGE_KEY = 'estimia.roster';
+
+export const DEFAULT_ROSTER: TeamRole[] = [
+  {
+    name: 'Product Owner',
+    description: 'Responsable EXCLUSIVO de crear historias de usuario, administrar el backlog, definir requisitos funcionales y priorizar. Si hay tareas de definición, van a este rol.',
+    rate: 60,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'Back-end Developer',
+    description: 'Arquitectura de servidor, bases de datos, APIs, lógica de negocio, integraciones, DevOps básico.',
+    rate: 55,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'Front-end Developer',
+    description: 'Desarrollo de interfaces (Web/Mobile), integración con APIs, maquetación, lógica de cliente.',
+    rate: 50,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'UI/UX Designer',
+    description: 'Prototipos, wireframes, diseño visual, investigación de usuario.',
+    rate: 45,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'QA Engineer',
+    description: 'Pruebas manuales, automatizadas, reporte de bugs, validación de calidad.',
+    rate: 40,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  }
+];
+
+// Roles offered as one-click additions in the roster editor
+export const ROLE_PRESETS: TeamRole[] = [
+  {
+    name: 'DevOps Engineer',
+    description: 'Infraestructura, CI/CD, contenedores, despliegues, monitoreo y seguridad operativa.',
+    rate: 60,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'Data Engineer',
+    description: 'Modelado de datos, pipelines ETL, data warehouse, migraciones y reportes.',
+    rate: 58,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'Mobile Developer',
+    description: 'Aplicaciones nativas o multiplataforma (iOS, Android, React Native, Flutter) y publicación en tiendas.',
+    rate: 55,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'Tech Lead',
+    description: 'Decisiones de arquitectura, revisión de código, estándares técnicos y coordinación del equipo de desarrollo.',
+    rate: 70,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  },
+  {
+    name: 'Scrum Master',
+    description: 'Facilitación de ceremonias ágiles, seguimiento del sprint y remoción de impedimentos.',
+    rate: 50,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100
+  }
+];
+
+// Fills fields added after the roster was first stored
+export const withRoleDefaults = (role: TeamRole): TeamRole => ({
+  ...role,
+  currency: role.currency || 'USD',
+  headcount: role.headcount ?? 1,
+  allocation: role.allocation ?? 100
+});
+
+const isTeamRole = (value: unknown): value is TeamRole => {
+  if (typeof value !== 'object' || value === null) return false;
+  const role = value as Record<string, unknown>;
+  return typeof role.name === 'string' && typeof role.description === 'string' && typeof role.rate === 'number';
+};
+
+export const loadRoster = (): TeamRole[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (Array.isArray(stored) && stored.length > 0 && stored.every(isTeamRole)) {
+      return stored.map(withRoleDefaults);
+    }
+  } catch (error) {
+    console.error("Error reading team roster:", error);
+  }
+  return DEFAULT_ROSTER;
+};
+
+export const saveRoster = (roster: TeamRole[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(roster));
+};
+
+// Estimates saved before the roster existed only stored a rate per fixed role
+export const rosterFromRates = (rates: Record<string, number>): TeamRole[] =>
+  Object.entries(rates).map(([name, rate]) => ({
+    name,
+    rate,
+    currency: 'USD',
+    headcount: 1,
+    allocation: 100,
+    description: DEFAULT_ROSTER.find(r => r.name === name)?.description ?? ''
+  }));
+
+/** Returns a message describing the first problem with the roster, or null if it is usable. */
+export const validateRoster = (roster: TeamRole[]): string | null => {
+  if (roster.length === 0) {
+    return 'Agrega al menos un rol al equipo.';
+  }
+  if (roster.some(r => !r.name.trim())) {
+    return 'Todos los roles deben tener un nombre.';
+  }
+  const names = roster.map(r => r.name.trim().toLowerCase());
+  const duplicate = roster.find((_, idx) => names.indexOf(names[idx]) !== idx);
+  if (duplicate) {
+    return `El rol "${duplicate.name.trim()}" está repetido.`;
+  }
+  if (roster.some(r => !(r.rate > 0))) {
+    return 'Por favor define un valor hora mayor a 0 para todos los roles.';
+  }
+  if (roster.some(r => !Number.isInteger(r.headcount) || r.headcount < 1)) {
+    return 'Cada rol debe tener al menos una persona asignada.';
+  }
+  if (roster.some(r => !(r.allocation > 0) || r.allocation > 100)) {
+    return 'La dedicación de cada rol debe estar entre 1% y 100%.';
+  }
+  return null;
+};
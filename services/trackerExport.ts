@@ -0,0 +1,374 @@
+import { EstimationResult, PhaseEstimate, PhaseTask, ProjectMetadata } from "../types";
+import { LeveledSchedule } from "./resourceLeveling";
+import { buildWorkDays, buildWorkWeeks, holidaysFor, parseISODate, roadmapItemDates, toISODate } from "./workCalendar";
+import { exportFileName, scopeNotes, toCSV } from "./spreadsheetExport";
+import { downloadFile } from "./download";
+
+/** What the tracker exports need: the estimate as shown and the plan behind its roadmap. */
+export interface TrackerExportContext {
+  // Model output with the dashboard edits and rates applied (see applyRoleRates)
+  estimate: EstimationResult;
+  metadata: ProjectMetadata;
+  // Leveled plan of `estimate.phases`; task dates come from it
+  leveled: LeveledSchedule;
+}
+
+interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+interface PlannedPhase {
+  phase: PhaseEstimate;
+  dates?: DateRange;
+  tasks: { task: PhaseTask; dates?: DateRange }[];
+}
+
+const key = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Calendar dates of every phase and task, from the working days of the
+ * leveled plan. The weeks of the roadmap are only a fallback for a phase the
+ * plan does not cover.
+ */
+const planDates = ({ estimate, metadata, leveled }: TrackerExportContext): PlannedPhase[] => {
+  const start = parseISODate(metadata.startDate);
+  const days = buildWorkDays(start, leveled.durationDays + 1, metadata.calendar);
+  const weeks = buildWorkWeeks(start, Math.max(0, ...estimate.roadmap.map(r => r.endWeek)), metadata.calendar);
+
+  // Offsets are half-open working-day ranges; zero-length items fall on their start day
+  const daysOf = (first: number, finish: number): DateRange | undefined => {
+    if (days.length === 0) return undefined;
+    const at = (offset: number) => days[Math.min(Math.max(0, offset), days.length - 1)];
+    return { start: at(first), end: at(Math.max(first, finish - 1)) };
+  };
+
+  return estimate.phases.map((phase, phaseIndex) => {
+    const item = estimate.roadmap.find(r => key(r.phaseName) === key(phase.name));
+    const leveledPhase = leveled.phases[phaseIndex];
+    return {
+      phase,
+      dates: (leveledPhase && daysOf(leveledPhase.start, leveledPhase.finish)) ?? (item && roadmapItemDates(item, weeks)),
+      tasks: phase.tasks.map((task, taskIndex) => {
+        const leveledTask = leveled.tasks.find(t => t.phaseIndex === phaseIndex && t.taskIndex === taskIndex);
+        return { task, dates: leveledTask && daysOf(leveledTask.start, leveledTask.finish) };
+      })
+    };
+  });
+};
+
+const isoDate = (date?: Date) => date ? toISODate(date) : '';
+
+const taskDescription = (task: PhaseTask) => [
+  `Rol: ${task.assignedRole}`,
+  `Estimación: ${task.hours} h (rango ${task.optimisticHours ?? task.hours} - ${task.pessimisticHours ?? task.hours} h)`,
+  ...((task.dependsOn ?? []).length > 0 ? [`Depende de: ${task.dependsOn!.map(d => d.name).join(', ')}`] : [])
+].join('\n');
+
+const phaseDescription = (phase: PhaseEstimate, milestone?: string) => [
+  phase.description,
+  ...(milestone ? [`Hito: ${milestone}`] : []),
+  ...((phase.dependsOn ?? []).length > 0 ? [`Comienza después de: ${phase.dependsOn!.map(d => d.name).join(', ')}`] : [])
+].join('\n');
+
+// Assumptions and exclusions apply to the whole project, so each tracker
+// gets them once, in a project-level item. It is deliberately outside every
+// epic or feature and has no estimate, so it adds nothing to the totals
+const SCOPE_TITLE = 'Supuestos y exclusiones';
+
+const milestoneOf = (estimate: EstimationResult, phase: PhaseEstimate) =>
+  estimate.roadmap.find(r => key(r.phaseName) === key(phase.name))?.milestone;
+
+// ---------------- JIRA ----------------
+
+// Jira labels cannot contain spaces
+const jiraLabel = (role: string) => role.trim().replace(/\s+/g, '_');
+
+/**
+ * Jira CSV import: one epic per phase and one story per task, linked through
+ * Issue Id / Parent Id. Original Estimate is in seconds, as the importer
+ * expects; dates use the yyyy-MM-dd format. The scope, when there is one,
+ * is a last task with no parent and no estimate.
+ */
+export const toJiraCSV = (context: TrackerExportContext) => {
+  const rows: (string | number)[][] = [
+    ['Issue Id', 'Parent Id', 'Issue Type', 'Summary', 'Epic Name', 'Description', 'Original Estimate', 'Labels', 'Start Date', 'Due Date']
+  ];
+  let nextId = 1;
+  planDates(context).forEach(({ phase, dates, tasks }) => {
+    const epicId = nextId++;
+    rows.push([
+      epicId,
+      '',
+      'Epic',
+      phase.name,
+      phase.name,
+      phaseDescription(phase, milestoneOf(context.estimate, phase)),
+      // Epics without stories carry the effort of the phase themselves
+      tasks.length === 0 ? Math.round(phase.estimatedHours * 3600) : '',
+      jiraLabel(phase.assignedRole),
+      isoDate(dates?.start),
+      isoDate(dates?.end)
+    ]);
+    tasks.forEach(({ task, dates: taskDates }) => {
+      rows.push([
+        nextId++,
+        epicId,
+        'Story',
+        task.name,
+        '',
+        taskDescription(task),
+        Math.round(task.hours * 3600),
+        jiraLabel(task.assignedRole),
+        isoDate(taskDates?.start),
+        isoDate(taskDates?.end)
+      ]);
+    });
+  });
+  const notes = scopeNotes(context.estimate);
+  if (notes) rows.push([nextId++, '', 'Task', SCOPE_TITLE, '', notes, '', 'Alcance', '', '']);
+  return toCSV(rows);
+};
+
+// ---------------- AZURE BOARDS ----------------
+
+/**
+ * Azure Boards CSV import (Agile process): phases as features and tasks as
+ * child tasks, nested through the Title 1 / Title 2 columns. Work is in hours.
+ * The scope, when there is one, is a last top-level issue with no work.
+ */
+export const toAzureBoardsCSV = (context: TrackerExportContext) => {
+  const rows: (string | number)[][] = [
+    ['ID', 'Work Item Type', 'Title 1', 'Title 2', 'Description', 'Original Estimate', 'Remaining Work', 'Tags', 'Start Date', 'Target Date', 'Finish Date']
+  ];
+  planDates(context).forEach(({ phase, dates, tasks }) => {
+    rows.push([
+      '',
+      'Feature',
+      phase.name,
+      '',
+      phaseDescription(phase, milestoneOf(context.estimate, phase)),
+      '',
+      '',
+      phase.assignedRole,
+      isoDate(dates?.start),
+      isoDate(dates?.end),
+      ''
+    ]);
+    // A phase without tasks still needs a task to hold its effort
+    const work = tasks.length > 0
+      ? tasks
+      : [{ task: { name: phase.name, hours: phase.estimatedHours, cost: phase.estimatedCost, assignedRole: phase.assignedRole, hourlyRate: 0 }, dates }];
+    work.forEach(({ task, dates: taskDates }) => {
+      rows.push([
+        '',
+        'Task',
+        '',
+        task.name,
+        taskDescription(task),
+        task.hours,
+        task.hours,
+        task.assignedRole,
+        isoDate(taskDates?.start),
+        '',
+        isoDate(taskDates?.end)
+      ]);
+    });
+  });
+  const notes = scopeNotes(context.estimate);
+  if (notes) rows.push(['', 'Issue', SCOPE_TITLE, '', notes, '', '', 'Alcance', '', '', '']);
+  return toCSV(rows);
+};
+
+// ---------------- MS PROJECT ----------------
+
+const escapeXML = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const element = (name: string, value: string | number) => `<${name}>${typeof value === 'string' ? escapeXML(value) : value}</${name}>`;
+
+// ISO 8601 duration as MS Project writes it, e.g. PT7H30M0S
+const duration = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  return `PT${Math.floor(minutes / 60)}H${minutes % 60}M0S`;
+};
+
+const clock = (minutes: number) => {
+  const capped = Math.min(minutes, 23 * 60 + 59);
+  return `${String(Math.floor(capped / 60)).padStart(2, '0')}:${String(capped % 60).padStart(2, '0')}:00`;
+};
+
+// Working hours start at 09:00 and last the productive hours of the calendar
+const DAY_START_MINUTES = 9 * 60;
+
+/**
+ * Microsoft Project XML (MSPDI). Phases are summary tasks and tasks carry
+ * their work and role assignment, both with the dates and durations of the
+ * leveled plan; the dependencies become finish-to-start links with their
+ * lag. The calendar keeps the working days and holidays of the estimate.
+ * Elements follow the sequence of the MSPDI schema, which the importer
+ * enforces.
+ */
+export const toMSProjectXML = (context: TrackerExportContext) => {
+  const { estimate, metadata, leveled } = context;
+  const { calendar } = metadata;
+  const dayEnd = clock(DAY_START_MINUTES + Math.round(calendar.hoursPerDay * 60));
+  const startOf = (date?: Date) => date ? `${toISODate(date)}T${clock(DAY_START_MINUTES)}` : undefined;
+  const finishOf = (date?: Date) => date ? `${toISODate(date)}T${dayEnd}` : undefined;
+  const planned = planDates(context);
+
+  // ---------------- RESOURCES ----------------
+  const roleNames = Array.from(new Map(
+    [...metadata.roster.map(r => r.name), ...estimate.phases.flatMap(p => [p.assignedRole, ...p.tasks.map(t => t.assignedRole)])]
+      .map(name => [key(name), name] as const)
+  ).values());
+  const resources = roleNames.map((name, idx) => {
+    const role = metadata.roster.find(r => key(r.name) === key(name));
+    const rate = estimate.costBreakdown.find(c => key(c.role) === key(name))?.hourlyRate ?? 0;
+    return { uid: idx + 1, name, units: role ? role.headcount * role.allocation / 100 : 1, allocation: role ? role.allocation / 100 : 1, rate };
+  });
+  const resourceOf = (name: string) => resources.find(r => key(r.name) === key(name))!;
+
+  // ---------------- TASKS ----------------
+  let nextUid = 1;
+  const phaseUids = planned.map(() => nextUid++);
+  const taskUids = planned.map(({ tasks }) => tasks.map(() => nextUid++));
+  const phaseUidByName = new Map(estimate.phases.map((p, idx) => [key(p.name), phaseUids[idx]]));
+  // Lags are stored in tenths of a minute of working time
+  const link = (uid: number | undefined, lagDays?: number) => uid === undefined ? '' :
+    `<PredecessorLink>${element('PredecessorUID', uid)}${element('Type', 1)}${element('LinkLag', Math.round((lagDays ?? 0) * calendar.hoursPerDay * 600))}${element('LagFormat', 7)}</PredecessorLink>`;
+
+  const assignments: string[] = [];
+  const assign = (taskUid: number, role: string, hours: number, cost: number) => {
+    const resource = resourceOf(role);
+    assignments.push(`<Assignment>${[
+      element('UID', assignments.length + 1),
+      element('TaskUID', taskUid),
+      element('ResourceUID', resource.uid),
+      element('Cost', Math.round(cost * 100) / 100),
+      element('Units', resource.allocation),
+      element('Work', duration(hours))
+    ].join('')}</Assignment>`);
+  };
+
+  const taskXML = (fields: (string | undefined)[]) => `<Task>${fields.filter(Boolean).join('')}</Task>`;
+  // UID 0 is the project summary task; its notes are the notes of the project
+  const tasks: string[] = [taskXML([
+    element('UID', 0),
+    element('ID', 0),
+    element('Name', estimate.projectName),
+    element('OutlineNumber', '0'),
+    element('OutlineLevel', 0),
+    element('Summary', 1),
+    scopeNotes(estimate) ? element('Notes', scopeNotes(estimate)) : undefined
+  ])];
+  planned.forEach(({ phase, dates, tasks: plannedTasks }, phaseIndex) => {
+    const uid = phaseUids[phaseIndex];
+    const leaf = plannedTasks.length === 0;
+    const leveledPhase = leveled.phases[phaseIndex];
+    tasks.push(taskXML([
+      element('UID', uid),
+      element('ID', uid),
+      element('Name', phase.name),
+      element('Manual', 0),
+      element('OutlineNumber', String(phaseIndex + 1)),
+      element('OutlineLevel', 1),
+      startOf(dates?.start) && element('Start', startOf(dates?.start)!),
+      finishOf(dates?.end) && element('Finish', finishOf(dates?.end)!),
+      leveledPhase && element('Duration', duration((leveledPhase.finish - leveledPhase.start) * calendar.hoursPerDay)),
+      element('Work', duration(phase.estimatedHours)),
+      element('Summary', leaf ? 0 : 1),
+      element('Cost', Math.round(phase.estimatedCost * 100) / 100),
+      element('Notes', phaseDescription(phase, milestoneOf(estimate, phase))),
+      ...(phase.dependsOn ?? []).map(d => link(phaseUidByName.get(key(d.name)), d.lagDays))
+    ]));
+    if (leaf) assign(uid, phase.assignedRole, phase.estimatedHours, phase.estimatedCost);
+
+    plannedTasks.forEach(({ task, dates: taskDates }, taskIndex) => {
+      const taskUid = taskUids[phaseIndex][taskIndex];
+      const leveledTask = leveled.tasks.find(t => t.phaseIndex === phaseIndex && t.taskIndex === taskIndex);
+      const siblingUid = (name: string) => {
+        const sibling = phase.tasks.findIndex(t => key(t.name) === key(name));
+        return sibling >= 0 ? taskUids[phaseIndex][sibling] : undefined;
+      };
+      tasks.push(taskXML([
+        element('UID', taskUid),
+        element('ID', taskUid),
+        element('Name', task.name),
+        element('Manual', 0),
+        element('OutlineNumber', `${phaseIndex + 1}.${taskIndex + 1}`),
+        element('OutlineLevel', 2),
+        startOf(taskDates?.start) && element('Start', startOf(taskDates?.start)!),
+        finishOf(taskDates?.end) && element('Finish', finishOf(taskDates?.end)!),
+        leveledTask && element('Duration', duration((leveledTask.finish - leveledTask.start) * calendar.hoursPerDay)),
+        element('Work', duration(task.hours)),
+        element('Summary', 0),
+        element('Cost', Math.round(task.cost * 100) / 100),
+        element('Notes', taskDescription(task)),
+        ...(task.dependsOn ?? []).map(d => link(siblingUid(d.name), d.lagDays))
+      ]));
+      assign(taskUid, task.assignedRole, task.hours, task.cost);
+    });
+  });
+
+  // ---------------- CALENDAR ----------------
+  const projectStart = parseISODate(metadata.startDate);
+  const projectEnd = planned.reduce<Date>((latest, p) => p.dates && p.dates.end > latest ? p.dates.end : latest, projectStart);
+  const years = Array.from({ length: projectEnd.getFullYear() - projectStart.getFullYear() + 1 }, (_, i) => projectStart.getFullYear() + i);
+  const holidays = Array.from(holidaysFor(calendar, years).values())
+    .filter(h => h.date >= metadata.startDate && h.date <= toISODate(projectEnd))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  // DayType is 1 (Sunday) to 7 (Saturday); exceptions use DayType 0 with a period
+  const weekDays = [0, 1, 2, 3, 4, 5, 6].map(day => calendar.workingDays.includes(day)
+    ? `<WeekDay>${element('DayType', day + 1)}${element('DayWorking', 1)}<WorkingTimes><WorkingTime>${element('FromTime', clock(DAY_START_MINUTES))}${element('ToTime', dayEnd)}</WorkingTime></WorkingTimes></WeekDay>`
+    : `<WeekDay>${element('DayType', day + 1)}${element('DayWorking', 0)}</WeekDay>`);
+  const exceptions = holidays.map(h =>
+    `<WeekDay>${element('DayType', 0)}${element('DayWorking', 0)}<TimePeriod>${element('FromDate', `${h.date}T00:00:00`)}${element('ToDate', `${h.date}T23:59:00`)}</TimePeriod></WeekDay>`);
+
+  const minutesPerDay = Math.round(calendar.hoursPerDay * 60);
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Project xmlns="http://schemas.microsoft.com/project">',
+    element('Name', exportFileName(estimate, 'xml')),
+    element('Title', estimate.projectName),
+    element('Author', estimate.requesterName),
+    element('ScheduleFromStart', 1),
+    element('StartDate', startOf(projectStart)!),
+    element('FinishDate', finishOf(projectEnd)!),
+    element('CurrencyCode', metadata.currency),
+    element('CalendarUID', 1),
+    element('MinutesPerDay', minutesPerDay),
+    element('MinutesPerWeek', minutesPerDay * calendar.workingDays.length),
+    `<Calendars><Calendar>${element('UID', 1)}${element('Name', 'Calendario del proyecto')}${element('IsBaseCalendar', 1)}<WeekDays>${[...weekDays, ...exceptions].join('')}</WeekDays></Calendar></Calendars>`,
+    `<Tasks>${tasks.join('')}</Tasks>`,
+    `<Resources>${resources.map(r => `<Resource>${[
+      element('UID', r.uid),
+      element('ID', r.uid),
+      element('Name', r.name),
+      element('Type', 1),
+      element('MaxUnits', r.units),
+      element('StandardRate', r.rate),
+      element('StandardRateFormat', 2),
+      element('CalendarUID', 1)
+    ].join('')}</Resource>`).join('')}</Resources>`,
+    `<Assignments>${assignments.join('')}</Assignments>`,
+    '</Project>'
+  ].join('\n');
+};
+
+export const downloadJiraCSV = (context: TrackerExportContext) => {
+  downloadFile(toJiraCSV(context), exportFileName(context.estimate, 'csv', '-Jira'), 'text/csv;charset=utf-8');
+};
+
+export const downloadAzureBoardsCSV = (context: TrackerExportContext) => {
+  downloadFile(toAzureBoardsCSV(context), exportFileName(context.estimate, 'csv', '-AzureBoards'), 'text/csv;charset=utf-8');
+};
+
+export const downloadMSProjectXML = (context: TrackerExportContext) => {
+  downloadFile(toMSProjectXML(context), exportFileName(context.estimate, 'xml', '-MSProject'), 'application/xml;charset=utf-8');
+};
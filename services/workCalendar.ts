@@ -0,0 +1,196 @@
+import { Holiday, RoadmapItem, WorkCalendar } from "../types";
+
+const STORAGE_KEY = 'estimia.calendar';
+
+// Matches the original assumption of the estimator: Monday to Thursday, 6 productive hours
+export const DEFAULT_CALENDAR: WorkCalendar = {
+  workingDays: [1, 2, 3, 4],
+  hoursPerDay: 6,
+  country: '',
+  customHolidays: []
+};
+
+export const WEEKDAY_LABELS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+// Fixed-date national holidays (MM-DD). Movable ones (Carnaval, Semana Santa,
+// holidays moved to Monday) change every year and go in `customHolidays`.
+export const COUNTRY_HOLIDAYS: Record<string, { label: string; holidays: { day: string; name: string }[] }> = {
+  AR: {
+    label: 'Argentina',
+    holidays: [
+      { day: '01-01', name: 'Año Nuevo' },
+      { day: '03-24', name: 'Día de la Memoria' },
+      { day: '04-02', name: 'Día del Veterano y de los Caídos en Malvinas' },
+      { day: '05-01', name: 'Día del Trabajador' },
+      { day: '05-25', name: 'Revolución de Mayo' },
+      { day: '06-20', name: 'Día de la Bandera' },
+      { day: '07-09', name: 'Día de la Independencia' },
+      { day: '12-08', name: 'Inmaculada Concepción' },
+      { day: '12-25', name: 'Navidad' }
+    ]
+  },
+  MX: {
+    label: 'México',
+    holidays: [
+      { day: '01-01', name: 'Año Nuevo' },
+      { day: '05-01', name: 'Día del Trabajo' },
+      { day: '09-16', name: 'Día de la Independencia' },
+      { day: '12-25', name: 'Navidad' }
+    ]
+  },
+  CL: {
+    label: 'Chile',
+    holidays: [
+      { day: '01-01', name: 'Año Nuevo' },
+      { day: '05-01', name: 'Día del Trabajo' },
+      { day: '05-21', name: 'Día de las Glorias Navales' },
+      { day: '07-16', name: 'Virgen del Carmen' },
+      { day: '08-15', name: 'Asunción de la Virgen' },
+      { day: '09-18', name: 'Fiestas Patrias' },
+      { day: '09-19', name: 'Glorias del Ejército' },
+      { day: '11-01', name: 'Día de Todos los Santos' },
+      { day: '12-08', name: 'Inmaculada Concepción' },
+      { day: '12-25', name: 'Navidad' }
+    ]
+  },
+  ES: {
+    label: 'España',
+    holidays: [
+      { day: '01-01', name: 'Año Nuevo' },
+      { day: '01-06', name: 'Epifanía del Señor' },
+      { day: '05-01', name: 'Fiesta del Trabajo' },
+      { day: '08-15', name: 'Asunción de la Virgen' },
+      { day: '10-12', name: 'Fiesta Nacional de España' },
+      { day: '11-01', name: 'Todos los Santos' },
+      { day: '12-06', name: 'Día de la Constitución' },
+      { day: '12-08', name: 'Inmaculada Concepción' },
+      { day: '12-25', name: 'Navidad' }
+    ]
+  },
+  US: {
+    label: 'Estados Unidos',
+    holidays: [
+      { day: '01-01', name: "New Year's Day" },
+      { day: '06-19', name: 'Juneteenth' },
+      { day: '07-04', name: 'Independence Day' },
+      { day: '11-11', name: 'Veterans Day' },
+      { day: '12-25', name: 'Christmas Day' }
+    ]
+  }
+};
+
+export interface WorkWeek {
+  index: number;
+  start: Date;
+  end: Date;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local-time YYYY-MM-DD, so dates do not shift with the timezone offset
+export const toISODate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseISODate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatShortDate = (date: Date) =>
+  date.toLocaleDateString('es-ES', { day: '2-digit', month: 'short', year: 'numeric' });
+
+// First day of the month after `from`, the usual kick-off when none was negotiated
+export const defaultStartDate = (from: Date = new Date()) =>
+  toISODate(new Date(from.getFullYear(), from.getMonth() + 1, 1));
+
+export const weeklyHours = (calendar: WorkCalendar) => calendar.workingDays.length * calendar.hoursPerDay;
+
+export const describeWorkingDays = (calendar: WorkCalendar) =>
+  [...calendar.workingDays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7)).map(d => WEEKDAY_LABELS[d]).join(', ');
+
+export const loadCalendar = (): WorkCalendar => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && Array.isArray(stored.workingDays) && typeof stored.hoursPerDay === 'number') {
+      return { ...DEFAULT_CALENDAR, ...stored };
+    }
+  } catch (error) {
+    console.error("Error reading work calendar:", error);
+  }
+  return DEFAULT_CALENDAR;
+};
+
+export const saveCalendar = (calendar: WorkCalendar) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(calendar));
+};
+
+/** Returns a message describing the first problem with the calendar, or null if it is usable. */
+export const validateCalendar = (calendar: WorkCalendar): string | null => {
+  if (calendar.workingDays.length === 0) {
+    return 'Selecciona al menos un día laborable.';
+  }
+  if (calendar.workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return 'Los días laborables deben ser días de la semana válidos.';
+  }
+  if (!(calendar.hoursPerDay >= 1 && calendar.hoursPerDay <= 24)) {
+    return 'Las horas productivas por día deben estar entre 1 y 24.';
+  }
+  if (calendar.customHolidays.some(h => !/^\d{4}-\d{2}-\d{2}$/.test(h.date))) {
+    return 'Todos los feriados deben tener una fecha válida.';
+  }
+  return null;
+};
+
+// National holidays for the given years plus the custom ones, keyed by date
+export const holidaysFor = (calendar: WorkCalendar, years: number[]): Map<string, Holiday> => {
+  const holidays = new Map<string, Holiday>();
+  const national = COUNTRY_HOLIDAYS[calendar.country]?.holidays ?? [];
+  years.forEach(year => national.forEach(h => holidays.set(`${year}-${h.day}`, { date: `${year}-${h.day}`, name: h.name })));
+  calendar.customHolidays.forEach(h => holidays.set(h.date, h));
+  return holidays;
+};
+
+/** The first `count` working days from `start`, skipping weekends and holidays. */
+export const buildWorkDays = (start: Date, count: number, calendar: WorkCalendar): Date[] => {
+  if (count <= 0 || calendar.workingDays.length === 0) return [];
+
+  // Generous upper bound on the calendar span, also used to load holidays
+  const maxDays = Math.ceil(count / calendar.workingDays.length) * 7 * 2 + 366;
+  const lastYear = start.getFullYear() + Math.ceil(maxDays / 365);
+  const years = Array.from({ length: lastYear - start.getFullYear() + 1 }, (_, i) => start.getFullYear() + i);
+  const holidays = holidaysFor(calendar, years);
+
+  const days: Date[] = [];
+  const day = new Date(start);
+  for (let i = 0; i < maxDays && days.length < count; i++) {
+    if (calendar.workingDays.includes(day.getDay()) && !holidays.has(toISODate(day))) {
+      days.push(new Date(day));
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+};
+
+/**
+ * Lays out `count` project weeks from `start`. A project week is a block of
+ * as many working days as the calendar has per week, so a holiday pushes the
+ * rest of the schedule one working day later.
+ */
+export const buildWorkWeeks = (start: Date, count: number, calendar: WorkCalendar): WorkWeek[] => {
+  const daysPerWeek = calendar.workingDays.length;
+  if (count <= 0 || daysPerWeek === 0) return [];
+
+  const days = buildWorkDays(start, count * daysPerWeek, calendar);
+  const weeks: WorkWeek[] = [];
+  for (let i = 0; i + daysPerWeek <= days.length; i += daysPerWeek) {
+    weeks.push({ index: weeks.length + 1, start: days[i], end: days[i + daysPerWeek - 1] });
+  }
+  return weeks;
+};
+
+// Calendar dates of a roadmap item, or undefined if its weeks were not laid out
+export const roadmapItemDates = (item: RoadmapItem, weeks: WorkWeek[]): { start: Date; end: Date } | undefined => {
+  const startWeek = Math.max(1, item.startWeek);
+  const first = weeks[startWeek - 1];
+  const last = weeks[Math.max(startWeek, item.endWeek) - 1];
+  return first && last ? { start: first.start, end: last.end } : undefined;
+};
@@ -4,27 +4,37 @@ export enum Complexity {
   HIGH = 'Alta'
 }
 
-export type FixedRole = 
-  | 'Product Owner'
-  | 'Back-end Developer'
-  | 'Front-end Developer'
-  | 'QA Engineer'
-  | 'UI/UX Designer';
-
-export const FIXED_ROLES: FixedRole[] = [
-  'Product Owner',
-  'Back-end Developer',
-  'Front-end Developer',
-  'QA Engineer',
-  'UI/UX Designer'
-];
+export interface TeamRole {
+  name: string;
+  description: string;
+  rate: number;
+  // Currency the rate is expressed in; converted to the billing currency
+  currency: string;
+  // People filling the role and the share of their working time on the project (1-100)
+  headcount: number;
+  allocation: number;
+}
+
+// Finish-to-start link: the item starts once `name` has finished plus the lag
+export interface Dependency {
+  // Another phase for phase dependencies, a task of the same phase for task dependencies
+  name: string;
+  // Working days to wait after the predecessor finishes
+  lagDays?: number;
+}
 
 export interface PhaseTask {
   name: string;
+  // Most likely effort; the three-point range around it feeds the Monte Carlo simulation
   hours: number;
+  optimisticHours?: number;
+  pessimisticHours?: number;
   cost: number;
   assignedRole: string;
   hourlyRate: number;
+  dependsOn?: Dependency[];
+  // Sections of a long PRD, analyzed in parts, that described this task
+  sourceSections?: string[];
 }
 
 export interface PhaseEstimate {
@@ -35,6 +45,7 @@ export interface PhaseEstimate {
   complexity: Complexity;
   assignedRole: string;
   tasks: PhaseTask[];
+  dependsOn?: Dependency[];
 }
 
 export interface Risk {
@@ -43,6 +54,17 @@ export interface Risk {
   impact: 'Alto' | 'Medio' | 'Bajo';
 }
 
+export interface Assumption {
+  description: string;
+  // What changes in the estimate if the assumption turns out to be false
+  impactIfFalse: string;
+}
+
+export interface Exclusion {
+  description: string;
+  reason: string;
+}
+
 export interface RoleRate {
   role: string;
   rate: number;
@@ -64,6 +86,14 @@ export interface RoadmapItem {
   milestone: string;
 }
 
+export type ValidationSeverity = 'corrected' | 'warning';
+
+export interface ValidationIssue {
+  rule: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
 export interface EstimationResult {
   projectName: string;
   requesterName: string;
@@ -88,14 +118,220 @@ export interface EstimationResult {
   recommendedTechStack: string[];
   phases: PhaseEstimate[];
   risks: Risk[];
+  assumptions: Assumption[];
+  exclusions: Exclusion[];
   teamComposition: string[];
+  validationIssues?: ValidationIssue[];
+  // Questions asked before estimating; the answers are assumptions of the estimate
+  clarifications?: Clarification[];
+  // Completeness of the PRD the estimate was built from
+  prdQuality?: PRDQuality;
+}
+
+export type PRDCheckId = 'goals' | 'personas' | 'functional' | 'nonFunctional' | 'integrations' | 'platforms' | 'acceptance' | 'outOfScope';
+
+export type PRDConfidence = 'high' | 'medium' | 'low';
+
+export interface PRDQuality {
+  // 0-100, weighted by how much each topic moves an estimate
+  score: number;
+  confidence: PRDConfidence;
+  missing: PRDCheckId[];
+}
+
+export type AppState = 'input' | 'clarifying' | 'analyzing' | 'result' | 'error' | 'history' | 'compare';
+
+export type ClarificationTopic = 'platforms' | 'users' | 'integrations' | 'compliance' | 'scope' | 'other';
+
+export interface ClarifyingQuestion {
+  id: string;
+  topic: ClarificationTopic;
+  question: string;
+  // Why the answer changes the estimate
+  reason: string;
+  suggestedAnswers: string[];
+}
+
+export interface Clarification {
+  topic: ClarificationTopic;
+  question: string;
+  // Missing when the user skipped the question
+  answer?: string;
+}
+
+export interface AnalysisOptions {
+  repromptOnViolations: boolean;
+  // Ask the model for the ambiguities of the PRD before estimating it
+  askClarifications?: boolean;
+  clarifications?: Clarification[];
 }
 
-export type AppState = 'input' | 'analyzing' | 'result' | 'error';
+export type AnalysisStage = 'connecting' | 'overview' | 'roadmap' | 'phases' | 'risks' | 'merging' | 'validating' | 'repairing';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // What has been parsed so far from the streamed response
+  partial: Partial<EstimationResult>;
+  receivedChars: number;
+  // Set while a new attempt starts after a transient failure
+  retry?: { attempt: number; reason: string };
+  // Section being analyzed when a long PRD is split into parts (1-based)
+  chunk?: { index: number; count: number; title: string };
+}
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface WorkCalendar {
+  // Days of the week as returned by Date.getDay() (0 = domingo)
+  workingDays: number[];
+  hoursPerDay: number;
+  // Country whose national holidays apply; empty for none
+  country: string;
+  customHolidays: Holiday[];
+}
 
 export interface ProjectMetadata {
   projectName: string;
   requesterName: string;
   date: string;
-  userRates: Record<FixedRole, number>;
-}
\ No newline at end of file
+  // Kick-off date (YYYY-MM-DD); week 1 of the roadmap starts here
+  startDate: string;
+  roster: TeamRole[];
+  // Billing currency of the estimate
+  currency: string;
+  // Units of each currency per 1 USD at the time of the estimate
+  exchangeRates: Record<string, number>;
+  calendar: WorkCalendar;
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'text';
+
+export interface UploadedDocument {
+  id: string;
+  fileName: string;
+  format: DocumentFormat;
+  content: string;
+  warnings: string[];
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+  // Seconds without receiving anything before an attempt is abandoned
+  timeoutSeconds: number;
+  // Extra attempts after a transient failure (network, rate limit, ...)
+  maxRetries: number;
+}
+
+export type LLMErrorKind = 'missing-key' | 'rate-limit' | 'safety' | 'malformed' | 'network' | 'timeout' | 'server' | 'cancelled' | 'unknown';
+
+export interface EstimateEdits {
+  roleRates: Record<string, string | number>;
+  // Overrides for the model output; absent until the user edits them
+  phases?: PhaseEstimate[];
+  roadmap?: RoadmapItem[];
+  assumptions?: Assumption[];
+  exclusions?: Exclusion[];
+}
+
+export interface SavedEstimate {
+  id: string;
+  projectId: string;
+  version: number;
+  versionLabel?: string;
+  createdAt: string;
+  updatedAt: string;
+  prdText: string;
+  metadata: ProjectMetadata;
+  result: EstimationResult;
+  edits: EstimateEdits;
+  // Refinement requests made from the dashboard, oldest first
+  refinements?: RefinementTurn[];
+}
+
+export interface RefinementTurn {
+  instruction: string;
+  // Model's explanation of the changes it proposed
+  summary: string;
+  accepted: boolean;
+  createdAt: string;
+}
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface TaskChange {
+  kind: ChangeKind;
+  name: string;
+  before?: PhaseTask;
+  after?: PhaseTask;
+}
+
+export interface PhaseChange {
+  kind: ChangeKind;
+  name: string;
+  before?: PhaseEstimate;
+  after?: PhaseEstimate;
+  taskChanges: TaskChange[];
+}
+
+export interface RoleDelta {
+  role: string;
+  hoursBefore: number;
+  hoursAfter: number;
+  costBefore: number;
+  costAfter: number;
+}
+
+export interface RoadmapChange {
+  kind: ChangeKind;
+  phaseName: string;
+  before?: RoadmapItem;
+  after?: RoadmapItem;
+}
+
+export interface RiskChange {
+  kind: 'added' | 'removed';
+  risk: Risk;
+}
+
+export interface TechChange {
+  kind: 'added' | 'removed';
+  technology: string;
+}
+
+export interface AssumptionChange {
+  kind: 'added' | 'removed';
+  assumption: Assumption;
+}
+
+export interface ExclusionChange {
+  kind: 'added' | 'removed';
+  exclusion: Exclusion;
+}
+
+export interface EstimationDiff {
+  totals: {
+    hoursBefore: number;
+    hoursAfter: number;
+    costBefore: number;
+    costAfter: number;
+    weeksBefore: number;
+    weeksAfter: number;
+  };
+  phases: PhaseChange[];
+  roles: RoleDelta[];
+  roadmap: RoadmapChange[];
+  risks: RiskChange[];
+  // Both texts when the executive summary was rewritten
+  summary: { before: string; after: string } | null;
+  techStack: TechChange[];
+  assumptions: AssumptionChange[];
+  exclusions: ExclusionChange[];
+}